@@ -0,0 +1,92 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import ExportLinks from '@/components/admin/ExportLinks';
+import {
+  getSubmissionDetail,
+  parseSubmissionId,
+  parseSubmissionType,
+  submissionTypes
+} from '@/lib/admin/submissions';
+
+export const metadata: Metadata = {
+  title: 'Submission | Form Showcase',
+  description: 'Every value stored with a form submission',
+};
+
+interface SubmissionDetailPageProps {
+  params: Promise<{ type: string; id: string }>;
+}
+
+/**
+ * Submission detail page
+ * Shows every stored value of one submission, with a download link for uploaded files
+ */
+export default async function SubmissionDetailPage({ params }: SubmissionDetailPageProps) {
+  const { type: typeParam, id } = await params;
+  const type = parseSubmissionType(typeParam);
+  const submissionId = parseSubmissionId(id);
+  const submission = type && submissionId ? await getSubmissionDetail(type, submissionId) : null;
+
+  if (!type || !submission) {
+    notFound();
+  }
+
+  return (
+    <div>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link
+          href={`/admin/submissions/${type}`}
+          className="inline-block mb-4 text-sm font-medium text-indigo-700 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+        >
+          <span aria-hidden="true">← </span>Back to {submissionTypes[type]} submissions
+        </Link>
+
+        <div className="border-b border-gray-200 pb-5 mb-8">
+          <h1 className="text-3xl font-bold leading-tight text-gray-900">{submission.title}</h1>
+          <p className="mt-2 text-sm text-gray-500">
+            {submissionTypes[type]} submission #{submissionId}, submitted {submission.submittedAt}
+          </p>
+          {submission.formId && (
+            <div className="mt-4">
+              <ExportLinks
+                label="Export every response to this form"
+                path="/api/admin/submissions/dynamic/export"
+                query={{ formId: submission.formId }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {submission.sections.map(section => (
+            <section key={section.heading} className="bg-white shadow-sm rounded-lg p-6" aria-label={section.heading}>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">{section.heading}</h2>
+              <dl className="grid gap-x-6 gap-y-4 sm:grid-cols-3">
+                {section.items.map((item, index) => (
+                  <div key={`${item.label}-${index}`} className="sm:col-span-3 grid sm:grid-cols-3 gap-2">
+                    <dt className="text-sm font-medium text-gray-500">{item.label}</dt>
+                    <dd className="sm:col-span-2 text-sm text-gray-900 whitespace-pre-wrap break-words">
+                      {item.href ? (
+                        <a
+                          href={item.href}
+                          download={item.download ? item.value : undefined}
+                          className="text-indigo-700 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+                          {...(!item.download && { target: '_blank', rel: 'noopener noreferrer' })}
+                        >
+                          {item.download ? `Download ${item.value}` : item.value}
+                        </a>
+                      ) : (
+                        item.value
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import SubmissionsTable from '@/components/admin/SubmissionsTable';
+import SubmissionFilters from '@/components/admin/SubmissionFilters';
+import ExportLinks from '@/components/admin/ExportLinks';
+import { listSubmissions, parseSubmissionType, submissionTypes, type SubmissionType } from '@/lib/admin/submissions';
+import { pluralize } from '@/lib/dynamic-forms/constraints';
+import { submissionListQuerySchema, type SubmissionListQueryValues } from '@/lib/schemas/form-schemas';
+import { cn } from '@/lib/utils';
+
+export const metadata: Metadata = {
+  title: 'Submissions | Form Showcase',
+  description: 'Browse the submissions stored by each form',
+};
+
+interface SubmissionsPageProps {
+  params: Promise<{ type: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+type QueryChanges = Partial<Record<keyof SubmissionListQueryValues, string | number | undefined>>;
+
+// Link to a tab, keeping the given query parameters
+function submissionsHref(type: SubmissionType, query: QueryChanges = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  const search = params.toString();
+  return `/admin/submissions/${type}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Submissions admin page
+ * Lists the submissions of one form per tab, with sorting, paging and filters
+ */
+export default async function SubmissionsPage({ params, searchParams }: SubmissionsPageProps) {
+  const { type: typeParam } = await params;
+  const type = parseSubmissionType(typeParam);
+
+  if (!type) {
+    notFound();
+  }
+
+  // Repeated parameters use their first value
+  const rawQuery = Object.fromEntries(
+    Object.entries(await searchParams).map(([key, value]) => [key, Array.isArray(value) ? value[0] : value])
+  );
+  const result = submissionListQuerySchema.safeParse(rawQuery);
+  const listQuery = result.success ? result.data : null;
+  const page = listQuery ? await listSubmissions(type, listQuery) : null;
+
+  // Unknown sort columns fall back to the newest first
+  const sortColumn = listQuery?.sort && page?.columns.some(column => column.sortable && column.key === listQuery.sort)
+    ? listQuery.sort
+    : 'createdAt';
+  const direction = listQuery?.direction ?? 'desc';
+  const currentPage = listQuery?.page ?? 1;
+  const pageSize = listQuery?.pageSize ?? 20;
+  const totalPages = page ? Math.max(1, Math.ceil(page.total / pageSize)) : 1;
+
+  // The query as applied, which links keep when they change one part of it
+  const query: QueryChanges = {
+    email: listQuery?.email,
+    from: listQuery?.from,
+    to: listQuery?.to,
+    sort: listQuery?.sort,
+    direction: listQuery?.sort ? direction : undefined,
+    pageSize: pageSize === 20 ? undefined : pageSize,
+  };
+
+  return (
+    <div>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="border-b border-gray-200 pb-5 mb-8">
+          <h1 className="text-3xl font-bold leading-tight text-gray-900">Submissions</h1>
+          <p className="mt-2 max-w-4xl text-sm text-gray-500">
+            Everything the forms have stored, one form per tab. Select a submission to see all of its values.
+          </p>
+        </div>
+
+        <nav aria-label="Forms" className="mb-6 border-b border-gray-200">
+          <ul className="flex flex-wrap gap-4">
+            {(Object.keys(submissionTypes) as SubmissionType[]).map(tab => (
+              <li key={tab}>
+                <Link
+                  href={submissionsHref(tab)}
+                  aria-current={tab === type ? 'page' : undefined}
+                  className={cn(
+                    'inline-block px-1 pb-3 text-sm font-medium border-b-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-t',
+                    tab === type
+                      ? 'border-indigo-600 text-indigo-700'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  )}
+                >
+                  {submissionTypes[tab]}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </nav>
+
+        <section className="bg-white shadow-sm rounded-lg p-6 space-y-6" aria-labelledby="submissions-heading">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-800" id="submissions-heading">
+              {submissionTypes[type]}
+            </h2>
+            {page && <p className="text-sm text-gray-500">{pluralize(page.total, 'submission')}</p>}
+          </div>
+
+          <SubmissionFilters
+            values={{
+              email: typeof rawQuery.email === 'string' ? rawQuery.email : undefined,
+              from: typeof rawQuery.from === 'string' ? rawQuery.from : undefined,
+              to: typeof rawQuery.to === 'string' ? rawQuery.to : undefined,
+            }}
+            errors={result.success ? undefined : result.error.flatten().fieldErrors}
+            sort={typeof rawQuery.sort === 'string' ? rawQuery.sort : undefined}
+            direction={typeof rawQuery.direction === 'string' ? rawQuery.direction : undefined}
+            clearHref={submissionsHref(type)}
+          />
+
+          {listQuery && (type === 'dynamic' ? (
+            <p className="text-sm text-gray-500">
+              Responses are exported one form at a time. Open a response to export every response to its form.
+            </p>
+          ) : (
+            <ExportLinks
+              label="Export these submissions"
+              path={`/api/admin/submissions/${type}/export`}
+              query={{ email: listQuery.email, from: listQuery.from, to: listQuery.to }}
+            />
+          ))}
+
+          {page && (
+            <SubmissionsTable
+              caption={`${submissionTypes[type]} submissions, page ${currentPage} of ${totalPages}`}
+              columns={page.columns}
+              rows={page.rows}
+              sort={{ column: sortColumn, direction }}
+              sortHref={column => submissionsHref(type, {
+                ...query,
+                sort: column,
+                direction: column === sortColumn && direction === 'desc' ? 'asc' : 'desc',
+              })}
+              detailHref={id => `/admin/submissions/${type}/${id}`}
+            />
+          )}
+
+          {page && totalPages > 1 && (
+            <nav className="flex items-center justify-between" aria-label={`${submissionTypes[type]} pages`}>
+              {currentPage > 1 ? (
+                <Link href={submissionsHref(type, { ...query, page: currentPage - 1 })} className="text-sm font-medium text-indigo-700 hover:underline">
+                  Previous
+                </Link>
+              ) : <span />}
+              <p className="text-sm text-gray-500">
+                Page {currentPage} of {totalPages}
+              </p>
+              {currentPage < totalPages ? (
+                <Link href={submissionsHref(type, { ...query, page: currentPage + 1 })} className="text-sm font-medium text-indigo-700 hover:underline">
+                  Next
+                </Link>
+              ) : <span />}
+            </nav>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
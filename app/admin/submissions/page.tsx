@@ -0,0 +1,9 @@
+import { redirect } from 'next/navigation';
+
+/**
+ * Submissions admin index
+ * Opens the first tab
+ */
+export default function SubmissionsAdminPage() {
+  redirect('/admin/submissions/contact');
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { submissionExportQuerySchema } from '@/lib/schemas/form-schemas';
+import { parseSubmissionType } from '@/lib/admin/submissions';
+import { getSubmissionExport } from '@/lib/admin/exports';
+import { exportFormats } from '@/lib/exports/formats';
+
+/**
+ * Handle GET requests downloading a tab's submissions as CSV, NDJSON or XLSX.
+ * The file is streamed while the submissions are read in batches.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ type: string }> }
+) {
+  try {
+    const { type: typeParam } = await params;
+    const type = parseSubmissionType(typeParam);
+
+    if (!type) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Submission type not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Validate the format, filters and field selection
+    const { searchParams } = new URL(request.url);
+    const result = submissionExportQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!result.success) {
+      // Return validation errors
+      return NextResponse.json(
+        {
+          success: false,
+          errors: result.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, email, from, to, fields, formId } = result.data;
+
+    // Responses to dynamic forms are exported one form at a time, with a column per field
+    if (type === 'dynamic' && !formId) {
+      return NextResponse.json(
+        {
+          success: false,
+          errors: { formId: ['Select the form whose responses to export'] }
+        },
+        { status: 400 }
+      );
+    }
+
+    const submissionExport = await getSubmissionExport(type, { filters: { email, from, to }, formId });
+
+    if (!submissionExport) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Unknown fields are refused before the download starts
+    const unknownFields = fields?.filter(field => !submissionExport.columns.some(column => column.key === field)) ?? [];
+
+    if (unknownFields.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          errors: { fields: [`Unknown fields: ${unknownFields.join(', ')}`] },
+          columns: submissionExport.columns
+        },
+        { status: 400 }
+      );
+    }
+
+    const { contentType, extension } = exportFormats[format];
+
+    return new Response(submissionExport.write(format, fields), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${submissionExport.fileName}.${extension}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting submissions:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while exporting the submissions'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { contactFormSchema } from '@/lib/schemas/form-schemas';
-import { query } from '@/lib/db';
+import { insertContactSubmission } from '@/lib/repositories/contact-submissions';
 
 // Handle POST requests to the contact form API
 export async function POST(request: Request) {
@@ -22,14 +22,8 @@ export async function POST(request: Request) {
       );
     }
     
-    // Extract validated data
-    const { name, email, subject, message } = result.data;
-    
     // Insert into database
-    await query(
-      'INSERT INTO contact_submissions (name, email, subject, message) VALUES ($1, $2, $3, $4) RETURNING id',
-      [name, email, subject, message]
-    );
+    await insertContactSubmission(result.data);
     
     // Return success response
     return NextResponse.json({ 
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { dynamicFormSchema } from '@/lib/schemas/form-schemas';
+import { getDraftForm, parseFormId } from '@/lib/dynamic-forms/store';
+import { insertDynamicForm } from '@/lib/repositories/dynamic-forms';
+
+/**
+ * Handle POST requests that copy the draft of a dynamic form into a new,
+ * unpublished form. Versions and responses stay with the original.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formId = parseFormId(id);
+    const original = formId ? await getDraftForm(formId) : null;
+
+    if (!original) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Validate the copy before saving it
+    const result = dynamicFormSchema.safeParse({
+      ...original.definition,
+      formName: `${original.definition.formName} (Copy)`,
+    });
+
+    if (!result.success) {
+      // Return validation errors
+      return NextResponse.json(
+        {
+          success: false,
+          errors: result.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Insert the copy as a new draft
+    const copyId = await insertDynamicForm(result.data);
+
+    // Return success response
+    return NextResponse.json({
+      success: true,
+      message: 'Form duplicated successfully',
+      id: copyId,
+      formName: result.data.formName
+    });
+  } catch (error) {
+    console.error('Error duplicating dynamic form:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while duplicating the form'
+      },
+      { status: 500 }
+    );
+  }
+}
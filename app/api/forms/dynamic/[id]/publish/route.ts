@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { isUniqueViolation } from '@/lib/db';
+import { parseFormId } from '@/lib/dynamic-forms/store';
+import { lintDynamicForm } from '@/lib/dynamic-forms/lint';
+import { dynamicFormSchema } from '@/lib/schemas/form-schemas';
+import { findDynamicForm, publishDynamicForm } from '@/lib/repositories/dynamic-forms';
+
+/**
+ * Handle POST requests that publish the current draft of a dynamic form
+ * as a new immutable version
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formId = parseFormId(id);
+
+    if (!formId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    const form = await findDynamicForm(formId);
+
+    if (!form) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Drafts saved before a check existed, or written to the database directly, are checked again
+    const result = dynamicFormSchema.safeParse(form.definition);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          errors: result.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    const issues = lintDynamicForm(result.data);
+
+    if (issues.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'The form has problems that must be fixed before publishing',
+          issues
+        },
+        { status: 400 }
+      );
+    }
+
+    // Snapshot the checked draft as the next version number and make it the live version
+    const version = await publishDynamicForm(formId, form.definition);
+
+    if (version === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Return success response
+    return NextResponse.json({
+      success: true,
+      message: 'Form published successfully',
+      version
+    });
+  } catch (error) {
+    // Other publishes of the form kept taking the next version number
+    if (isUniqueViolation(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'The form is being published by another request. Please try again.'
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error publishing dynamic form:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while publishing the form'
+      },
+      { status: 500 }
+    );
+  }
+}
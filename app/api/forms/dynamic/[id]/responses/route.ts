@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { compileDynamicFormSchema } from '@/lib/dynamic-forms/compile-schema';
+import { getPublishedForm, parseFormId } from '@/lib/dynamic-forms/store';
+import { scoreQuiz } from '@/lib/dynamic-forms/quiz';
+import { dynamicResponseSubmissionSchema } from '@/lib/schemas/form-schemas';
+import { insertDynamicResponse } from '@/lib/repositories/dynamic-responses';
+
+/**
+ * Handle POST requests containing a response to a published dynamic form
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formId = parseFormId(id);
+
+    // Responses are always validated against the currently published version
+    const published = formId ? await getPublishedForm(formId) : null;
+
+    if (!published) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+
+    // The body holds the answers and where the respondent came from
+    const submission = dynamicResponseSubmissionSchema.safeParse(body);
+
+    if (!submission.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          errors: submission.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate the answers, prefilled ones included, against the schema compiled from the definition
+    const result = compileDynamicFormSchema(published.definition).safeParse(submission.data.answers);
+    
+    if (!result.success) {
+      // Return validation errors
+      return NextResponse.json(
+        {
+          success: false,
+          errors: result.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Extract validated data
+    const responseData = result.data;
+
+    // Quizzes are scored here, so respondents cannot submit their own score
+    const { quiz } = published.definition;
+    const quizResult = quiz ? scoreQuiz(published.definition, responseData) : null;
+
+    // Insert into database
+    await insertDynamicResponse({
+      formId: published.formId,
+      version: published.version,
+      answers: responseData,
+      metadata: submission.data.metadata,
+      score: quizResult?.score ?? null,
+      maxScore: quizResult?.maxScore ?? null
+    });
+
+    // Return success response, with the results when the quiz shares them
+    return NextResponse.json({
+      success: true,
+      message: 'Response submitted successfully',
+      ...(quiz?.showResults && quizResult && { quiz: quizResult })
+    });
+  } catch (error) {
+    console.error('Error handling dynamic form response:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while processing your submission'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { dynamicFormRollbackSchema } from '@/lib/schemas/form-schemas';
+import { parseFormId } from '@/lib/dynamic-forms/store';
+import { rollbackDynamicForm } from '@/lib/repositories/dynamic-forms';
+
+/**
+ * Handle POST requests that roll a dynamic form back to a previously
+ * published version. That version becomes live again and replaces the draft;
+ * no version is modified, so earlier responses keep their definitions.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formId = parseFormId(id);
+
+    if (!formId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+
+    // Validate the body against our schema
+    const result = dynamicFormRollbackSchema.safeParse(body);
+
+    if (!result.success) {
+      // Return validation errors
+      return NextResponse.json(
+        {
+          success: false,
+          errors: result.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Point the form at the requested version and restore its definition as the draft
+    const version = await rollbackDynamicForm(formId, result.data.version);
+
+    if (version === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Version not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Return success response
+    return NextResponse.json({
+      success: true,
+      message: `Form rolled back to version ${result.data.version}`,
+      version
+    });
+  } catch (error) {
+    console.error('Error rolling back dynamic form:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while rolling back the form'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server';
+import { dynamicFormSchema } from '@/lib/schemas/form-schemas';
+import { getDraftForm, parseFormId } from '@/lib/dynamic-forms/store';
+import { lintDynamicForm } from '@/lib/dynamic-forms/lint';
+import { deleteDynamicForm, updateDynamicFormDraft } from '@/lib/repositories/dynamic-forms';
+
+/**
+ * Handle GET requests loading the draft of a dynamic form for editing
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formId = parseFormId(id);
+    const form = formId ? await getDraftForm(formId) : null;
+
+    if (!form) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Return the draft
+    return NextResponse.json({
+      success: true,
+      form
+    });
+  } catch (error) {
+    console.error('Error loading dynamic form:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while loading the form'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handle PUT requests that replace the draft of a dynamic form.
+ * Published versions are never modified; publish the draft to make changes live.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formId = parseFormId(id);
+
+    if (!formId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+
+    // Validate the body against our schema
+    const result = dynamicFormSchema.safeParse(body);
+
+    if (!result.success) {
+      // Return validation errors
+      return NextResponse.json(
+        {
+          success: false,
+          errors: result.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Refuse definitions with mistakes respondents would trip over
+    const issues = lintDynamicForm(result.data);
+
+    if (issues.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'The form has problems that must be fixed before saving',
+          issues
+        },
+        { status: 400 }
+      );
+    }
+
+    // Replace the draft
+    const updated = await updateDynamicFormDraft(formId, result.data);
+
+    if (!updated) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Return success response
+    return NextResponse.json({
+      success: true,
+      message: 'Draft saved successfully',
+      id: formId
+    });
+  } catch (error) {
+    console.error('Error updating dynamic form draft:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while saving the draft'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handle DELETE requests removing a dynamic form along with its versions and responses
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formId = parseFormId(id);
+
+    const deleted = formId ? await deleteDynamicForm(formId) : false;
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Return success response
+    return NextResponse.json({
+      success: true,
+      message: 'Form deleted successfully',
+      id: formId
+    });
+  } catch (error) {
+    console.error('Error deleting dynamic form:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while deleting the form'
+      },
+      { status: 500 }
+    );
+  }
+}
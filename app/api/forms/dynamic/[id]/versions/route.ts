@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { parseFormId } from '@/lib/dynamic-forms/store';
+import { findDynamicForm, listDynamicFormVersions } from '@/lib/repositories/dynamic-forms';
+
+/**
+ * Handle GET requests listing the published versions of a dynamic form
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formId = parseFormId(id);
+
+    const form = formId ? await findDynamicForm(formId) : null;
+
+    if (!form) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Form not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Load every version with the number of responses collected against it
+    const versions = await listDynamicFormVersions(form.id);
+    const { publishedVersion } = form;
+
+    // Return the version history
+    return NextResponse.json({
+      success: true,
+      publishedVersion,
+      versions: versions.map(version => ({
+        ...version,
+        isPublished: version.version === publishedVersion,
+      }))
+    });
+  } catch (error) {
+    console.error('Error listing dynamic form versions:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while loading the form versions'
+      },
+      { status: 500 }
+    );
+  }
+}
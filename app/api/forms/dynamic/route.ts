@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { dynamicFormSchema } from '@/lib/schemas/form-schemas';
-import { query } from '@/lib/db';
+import { dynamicFormListQuerySchema, dynamicFormSchema } from '@/lib/schemas/form-schemas';
+import { lintDynamicForm } from '@/lib/dynamic-forms/lint';
+import { countDynamicForms, insertDynamicForm, listDynamicForms } from '@/lib/repositories/dynamic-forms';
 
 // Handle POST requests to the dynamic form API
 export async function POST(request: Request) {
@@ -25,16 +26,28 @@ export async function POST(request: Request) {
     // Extract validated data
     const formData = result.data;
     
+    // Refuse definitions with mistakes respondents would trip over
+    const issues = lintDynamicForm(formData);
+    
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: 'The form has problems that must be fixed before saving',
+          issues 
+        }, 
+        { status: 400 }
+      );
+    }
+    
     // Insert into database
-    await query(
-      'INSERT INTO dynamic_submissions (form_data) VALUES ($1) RETURNING id',
-      [JSON.stringify(formData)]
-    );
+    const id = await insertDynamicForm(formData);
     
     // Return success response
     return NextResponse.json({ 
       success: true,
-      message: 'Form configuration saved successfully' 
+      message: 'Form configuration saved successfully',
+      id
     });
   } catch (error) {
     console.error('Error handling dynamic form submission:', error);
@@ -48,4 +61,55 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Handle GET requests listing saved dynamic forms, most recently updated first
+export async function GET(request: Request) {
+  try {
+    // Validate the pagination parameters
+    const { searchParams } = new URL(request.url);
+    const result = dynamicFormListQuerySchema.safeParse(Object.fromEntries(searchParams));
+    
+    if (!result.success) {
+      // Return validation errors
+      return NextResponse.json(
+        { 
+          success: false, 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const { page, pageSize } = result.data;
+    
+    // Load one page of forms along with the total count
+    const [forms, total] = await Promise.all([
+      listDynamicForms({ limit: pageSize, offset: (page - 1) * pageSize }),
+      countDynamicForms(),
+    ]);
+    
+    // Return the page of forms
+    return NextResponse.json({
+      success: true,
+      forms,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      }
+    });
+  } catch (error) {
+    console.error('Error listing dynamic forms:', error);
+    
+    // Return error response
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: 'An error occurred while loading the forms' 
+      }, 
+      { status: 500 }
+    );
+  }
+}
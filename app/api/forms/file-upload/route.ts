@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
-import { query } from '@/lib/db';
+import { insertFileSubmission } from '@/lib/repositories/file-submissions';
 
 // Handle POST requests to the file upload API
 export async function POST(request: Request) {
@@ -77,10 +77,14 @@ export async function POST(request: Request) {
     const publicPath = `/uploads/${filename}`;
     
     // Save to database
-    await query(
-      'INSERT INTO file_submissions (name, email, file_name, file_path, file_size, file_type) VALUES ($1, $2, $3, $4, $5, $6) RETURNING id',
-      [name, email, originalName, publicPath, file.size, file.type]
-    );
+    await insertFileSubmission({
+      name,
+      email,
+      fileName: originalName,
+      filePath: publicPath,
+      fileSize: file.size,
+      fileType: file.type
+    });
     
     // Return success response
     return NextResponse.json({ 
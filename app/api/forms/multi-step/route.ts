@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { multiStepFormSchema } from '@/lib/schemas/form-schemas';
-import { query } from '@/lib/db';
+import { insertMultiStepSubmission } from '@/lib/repositories/multistep-submissions';
 
 /**
  * Handle POST requests to the multi-step form API
@@ -24,34 +24,8 @@ export async function POST(request: Request) {
       );
     }
     
-    // Extract validated data
-    const { 
-      firstName, 
-      lastName, 
-      email, 
-      addressLine1, 
-      addressLine2, 
-      city, 
-      state, 
-      postalCode, 
-      country, 
-      phone, 
-      preferences 
-    } = result.data;
-    
     // Insert into database
-    await query(
-      `INSERT INTO multistep_submissions (
-        first_name, last_name, email, 
-        address_line1, address_line2, city, state, postal_code, country, 
-        phone, preferences
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING id`,
-      [
-        firstName, lastName, email, 
-        addressLine1, addressLine2 || null, city, state, postalCode, country, 
-        phone || null, JSON.stringify(preferences)
-      ]
-    );
+    await insertMultiStepSubmission(result.data);
     
     // Return success response
     return NextResponse.json({ 
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { multiStepFormSchema } from '@/lib/schemas/form-schemas';
+import { getMultiStepSession, multiStepStepNames, parseSessionId } from '@/lib/multi-step/store';
+import { finalizeMultiStepSession } from '@/lib/repositories/multistep-submissions';
+
+/**
+ * Handle POST requests finalizing a multi-step session into a submission
+ * once every step has been saved
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const sessionId = parseSessionId(id);
+    const session = sessionId ? await getMultiStepSession(sessionId) : null;
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Session not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (session.completedAt) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'This session has already been submitted'
+        },
+        { status: 409 }
+      );
+    }
+
+    // Every step must have been saved before the wizard can be submitted
+    const missingSteps = multiStepStepNames.filter(step => !session.completedSteps.includes(step));
+    const result = multiStepFormSchema.safeParse(session.steps);
+
+    if (missingSteps.length > 0 || !result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Complete every step before submitting',
+          missingSteps,
+          ...(!result.success && { errors: result.error.flatten().fieldErrors })
+        },
+        { status: 400 }
+      );
+    }
+
+    // The unique session id stops a session being submitted twice
+    const submissionId = await finalizeMultiStepSession(session.id, result.data);
+
+    if (submissionId === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'This session has already been submitted'
+        },
+        { status: 409 }
+      );
+    }
+
+    // Return success response
+    return NextResponse.json({
+      success: true,
+      message: 'Form submitted successfully',
+      submissionId
+    });
+  } catch (error) {
+    console.error('Error finalizing multi-step session:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while processing your submission'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { multiStepSessionStepSchema, multiStepStepSchemas } from '@/lib/schemas/form-schemas';
+import { getMultiStepSession, parseSessionId } from '@/lib/multi-step/store';
+import { updateMultiStepSessionStep } from '@/lib/repositories/multistep-submissions';
+
+/**
+ * Handle GET requests loading a multi-step session, so a wizard can resume
+ * from the steps already saved
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const sessionId = parseSessionId(id);
+    const session = sessionId ? await getMultiStepSession(sessionId) : null;
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Session not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Return the session
+    return NextResponse.json({
+      success: true,
+      session
+    });
+  } catch (error) {
+    console.error('Error loading multi-step session:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while loading the session'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handle PATCH requests saving one step of a multi-step session.
+ * The step's data is validated with that step's schema and replaces any
+ * data saved for the step before.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const sessionId = parseSessionId(id);
+
+    if (!sessionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Session not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+
+    // Validate the step name, then the step's data against its own schema
+    const stepRequest = multiStepSessionStepSchema.safeParse(body);
+
+    if (!stepRequest.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          errors: stepRequest.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { step } = stepRequest.data;
+    const result = multiStepStepSchemas[step].safeParse(stepRequest.data.data);
+
+    if (!result.success) {
+      // Return validation errors keyed by the step's fields
+      return NextResponse.json(
+        {
+          success: false,
+          errors: result.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Finalized sessions are read-only
+    const updated = await updateMultiStepSessionStep(sessionId, step, result.data);
+
+    if (!updated) {
+      const session = await getMultiStepSession(sessionId);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: session ? 'This session has already been submitted' : 'Session not found'
+        },
+        { status: session ? 409 : 404 }
+      );
+    }
+
+    // Return the steps saved so far
+    const session = await getMultiStepSession(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Step saved successfully',
+      completedSteps: session?.completedSteps ?? [step]
+    });
+  } catch (error) {
+    console.error('Error saving multi-step session step:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while saving the step'
+      },
+      { status: 500 }
+    );
+  }
+}
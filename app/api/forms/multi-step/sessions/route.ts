@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { insertMultiStepSession } from '@/lib/repositories/multistep-submissions';
+
+/**
+ * Handle POST requests starting a multi-step session, which saves the
+ * wizard a step at a time until it is finalized
+ */
+export async function POST() {
+  try {
+    const session = await insertMultiStepSession();
+
+    // Return the id used to save each step
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Session started',
+        sessionId: session.id
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error starting multi-step session:', error);
+
+    // Return error response
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while starting the session'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import DynamicFormRenderer from '@/components/forms/DynamicFormRenderer';
+import { getPublishedForm, parseFormId } from '@/lib/dynamic-forms/store';
+import { stripQuizAnswers } from '@/lib/dynamic-forms/quiz';
+import { getPrefillValues, getResponseMetadata, type SearchParams } from '@/lib/dynamic-forms/prefill';
+
+interface PublicDynamicFormPageProps {
+  params: Promise<{ id: string }>;
+  // Prefill values for fields that name a parameter, and UTM parameters
+  searchParams: Promise<SearchParams>;
+}
+
+// Load the published version of a form, or null if there is none
+async function loadPublishedForm(id: string) {
+  const formId = parseFormId(id);
+  return formId ? getPublishedForm(formId) : null;
+}
+
+export async function generateMetadata({ params }: PublicDynamicFormPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const published = await loadPublishedForm(id);
+
+  return {
+    title: `${published?.definition.formName || 'Form'} | Form Showcase`,
+    description: 'A form created with the dynamic form builder',
+  };
+}
+
+/**
+ * Public dynamic form page
+ * Renders the published version of a saved form as a fillable form
+ */
+export default async function PublicDynamicFormPage({ params, searchParams }: PublicDynamicFormPageProps) {
+  const { id } = await params;
+  const query = await searchParams;
+  const published = await loadPublishedForm(id);
+
+  if (!published) {
+    notFound();
+  }
+  
+  // Quiz answers stay on the server, which scores the response
+  const definition = stripQuizAnswers(published.definition);
+  
+  // Answers passed in the link, and where the respondent came from
+  const prefill = getPrefillValues(published.definition, query);
+  const metadata = getResponseMetadata(query, (await headers()).get('referer'));
+
+  return (
+    <div>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="border-b border-gray-200 pb-5 mb-8">
+          <h1 className="text-3xl font-bold leading-tight text-gray-900">{definition.formName}</h1>
+          <p className="mt-2 max-w-4xl text-sm text-gray-500">
+            Fields marked with an asterisk are required.
+          </p>
+        </div>
+
+        <div className="bg-white overflow-hidden sm:rounded-lg">
+          <DynamicFormRenderer formId={id} definition={definition} prefill={prefill} metadata={metadata} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,30 @@
 import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
 import DynamicForm from '@/components/forms/DynamicForm';
+import { getDraftForm, parseFormId } from '@/lib/dynamic-forms/store';
 
 export const metadata: Metadata = {
   title: 'Dynamic Form | Form Showcase',
   description: 'A dynamic form builder that allows creating custom forms with different field types',
 };
 
+interface DynamicFormPageProps {
+  searchParams: Promise<{ id?: string }>;
+}
+
 /**
  * Dynamic Form page component
+ * Opens a saved form for editing when an id is given in the query string
  */
-export default function DynamicFormPage() {
+export default async function DynamicFormPage({ searchParams }: DynamicFormPageProps) {
+  const { id } = await searchParams;
+  const formId = id ? parseFormId(id) : null;
+  const initialForm = formId ? await getDraftForm(formId) : null;
+
+  if (id && !initialForm) {
+    notFound();
+  }
+
   return (
     <div>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -26,14 +41,30 @@ export default function DynamicFormPage() {
           <ul className="list-disc pl-5 space-y-2 text-gray-600">
             <li>Dynamic field generation with various input types</li>
             <li>Field configuration with custom options</li>
+            <li>Drag-and-drop and keyboard reordering of fields</li>
             <li>Client and server-side validation</li>
             <li>Form state management</li>
             <li>JSON-based form data storage</li>
+            <li>Draft and published versions, with responses tied to the version they answered</li>
+            <li>Saved forms published as fillable pages with stored responses</li>
+            <li>Undo and redo of builder changes with keyboard shortcuts</li>
+            <li>JSON Schema import and export</li>
+            <li>Saved forms can be reopened, duplicated and deleted</li>
+            <li>Sections that split long forms into pages with per-page validation</li>
+            <li>Repeatable groups of fields with accessible add and remove controls</li>
+            <li>Live preview with a test fill that validates answers without saving them</li>
+            <li>Editable option values and shared option sets with country, US state and yes/no/maybe presets</li>
+            <li>Checks that list problems such as duplicate labels or empty option lists before saving</li>
+            <li>Export as a React component with a Zod schema to use as a starting point for hand-written forms</li>
+            <li>Offer options that depend on the answer to another field, such as the states of the chosen country</li>
+            <li>Quiz mode with points or correct answers, scored on the server and optionally shown to respondents</li>
+            <li>Calculated fields with formulas such as totals, recomputed on the server when responses are submitted</li>
+            <li>Hidden fields and answers prefilled from link parameters, with UTM parameters and the referrer stored with each response</li>
           </ul>
         </div>
 
         <div className="bg-white overflow-hidden sm:rounded-lg">
-          <DynamicForm />
+          <DynamicForm initialForm={initialForm} />
         </div>
       </div>
     </div>
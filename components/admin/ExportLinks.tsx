@@ -0,0 +1,44 @@
+import { exportFormats, type ExportFormat } from '@/lib/exports/formats';
+
+interface ExportLinksProps {
+  // Describes what is exported, e.g. "Export these submissions"
+  label: string;
+  // Export endpoint
+  path: string;
+  // Filters passed on to the export; unset values are left out
+  query?: Record<string, string | number | undefined>;
+}
+
+/**
+ * Export Links Component
+ *
+ * Links that download submissions in each export format, keeping the
+ * filters currently applied.
+ * - Grouped under a visible label that names what is exported
+ * - Plain download links, so exports work without JavaScript
+ */
+export default function ExportLinks({ label, path, query = {} }: ExportLinksProps) {
+  const href = (format: ExportFormat) => {
+    const params = new URLSearchParams({ format });
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    return `${path}?${params}`;
+  };
+
+  return (
+    <div role="group" aria-labelledby="export-links-label" className="flex flex-wrap items-center gap-3 text-sm">
+      <span id="export-links-label" className="text-gray-500">{label}:</span>
+      {(Object.keys(exportFormats) as ExportFormat[]).map(format => (
+        <a
+          key={format}
+          href={href(format)}
+          download
+          className="font-medium text-indigo-700 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+        >
+          {exportFormats[format].label}
+        </a>
+      ))}
+    </div>
+  );
+}
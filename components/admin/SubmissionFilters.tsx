@@ -0,0 +1,64 @@
+'use client';
+
+import Link from 'next/link';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+
+interface SubmissionFiltersProps {
+  // Values currently applied, as read from the query string
+  values: { email?: string; from?: string; to?: string };
+  errors?: Partial<Record<'email' | 'from' | 'to', string[]>>;
+  // Sort kept when the filters change
+  sort?: string;
+  direction?: string;
+  // Link to the list without filters
+  clearHref: string;
+}
+
+/**
+ * Submission Filters Component
+ *
+ * Filters a submissions list by email and date range. The form submits with
+ * GET, so filtered lists can be bookmarked and work without JavaScript.
+ * - Labelled inputs with errors linked through aria-describedby
+ * - Native date pickers for the date range
+ */
+export default function SubmissionFilters({ values, errors, sort, direction, clearHref }: SubmissionFiltersProps) {
+  return (
+    <form method="get" className="grid gap-4 sm:grid-cols-4 items-end" aria-label="Filter submissions">
+      <Input
+        label="Email contains"
+        name="email"
+        type="search"
+        defaultValue={values.email}
+        error={errors?.email?.[0]}
+        autoComplete="off"
+      />
+      <Input
+        label="Submitted from"
+        name="from"
+        type="date"
+        defaultValue={values.from}
+        error={errors?.from?.[0]}
+      />
+      <Input
+        label="Submitted to"
+        name="to"
+        type="date"
+        defaultValue={values.to}
+        error={errors?.to?.[0]}
+      />
+      {sort && <input type="hidden" name="sort" value={sort} />}
+      {direction && <input type="hidden" name="direction" value={direction} />}
+      <div className="flex gap-2">
+        <Button type="submit">Apply Filters</Button>
+        <Link
+          href={clearHref}
+          className="inline-flex items-center h-10 px-4 rounded-md border border-input text-sm font-medium hover:bg-accent focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          Clear
+        </Link>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,88 @@
+import Link from 'next/link';
+import type { SubmissionColumn, SubmissionRow } from '@/lib/admin/submissions';
+import type { SortDirection } from '@/lib/repositories/sql';
+
+interface SubmissionsTableProps {
+  caption: string;
+  columns: SubmissionColumn[];
+  rows: SubmissionRow[];
+  sort: { column: string; direction: SortDirection };
+  // Link that sorts by a column, flipping the direction when it is already sorted by it
+  sortHref: (column: string) => string;
+  detailHref: (id: number) => string;
+}
+
+/**
+ * Submissions Table Component
+ *
+ * Lists one page of stored submissions.
+ * - Column headers are links that sort the table, with aria-sort on the sorted column
+ * - The first cell of each row links to the submission's details
+ * - Captioned table with row headers for screen reader navigation
+ */
+export default function SubmissionsTable({ caption, columns, rows, sort, sortHref, detailHref }: SubmissionsTableProps) {
+  if (rows.length === 0) {
+    return (
+      <p className="text-center py-8 text-gray-500 border border-dashed border-gray-300 rounded-md bg-gray-50">
+        No submissions match these filters.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <caption className="sr-only">{caption}</caption>
+        <thead className="bg-gray-50">
+          <tr>
+            {columns.map(column => {
+              const isSorted = column.key === sort.column;
+              const ariaSort = isSorted ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined;
+
+              return (
+                <th key={column.key} scope="col" aria-sort={ariaSort} className="px-4 py-3 text-left font-medium text-gray-700">
+                  {column.sortable ? (
+                    <Link
+                      href={sortHref(column.key)}
+                      className="inline-flex items-center gap-1 hover:text-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+                    >
+                      {column.label}
+                      <span aria-hidden="true" className={isSorted ? 'text-indigo-700' : 'text-gray-300'}>
+                        {isSorted && sort.direction === 'asc' ? '▲' : '▼'}
+                      </span>
+                      {!isSorted && <span className="sr-only">, sort</span>}
+                    </Link>
+                  ) : (
+                    column.label
+                  )}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {rows.map(row => (
+            <tr key={row.id}>
+              {columns.map((column, index) =>
+                index === 0 ? (
+                  <th key={column.key} scope="row" className="px-4 py-3 text-left font-medium">
+                    <Link
+                      href={detailHref(row.id)}
+                      className="text-indigo-700 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+                    >
+                      {row.cells[column.key]}
+                    </Link>
+                  </th>
+                ) : (
+                  <td key={column.key} className="px-4 py-3 text-gray-700">
+                    {row.cells[column.key]}
+                  </td>
+                )
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
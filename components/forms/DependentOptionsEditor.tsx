@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import OptionListEditor from '@/components/forms/OptionListEditor';
+import { FormError } from '@/components/ui/FormError';
+import type { DynamicDependentOptionsValues, DynamicFieldValues } from '@/lib/schemas/form-schemas';
+import { getAllOptions, type FieldOption } from '@/lib/dynamic-forms/options';
+import { pluralize } from '@/lib/dynamic-forms/constraints';
+
+interface DependentOptionsEditorProps {
+  // Select and radio fields whose answer can choose the options
+  parentFields: DynamicFieldValues[];
+  value: DynamicDependentOptionsValues;
+  onChange: (value: DynamicDependentOptionsValues) => void;
+  onAnnounce: (message: string) => void;
+  // Show quiz scoring inputs for each option
+  scored?: boolean;
+  error?: string;
+}
+
+/**
+ * Dependent Options Editor Component
+ *
+ * Edits the options a field offers for each answer to another field,
+ * e.g. the states offered for each country.
+ * - One answer is edited at a time, so long parent lists stay manageable
+ * - Each answer in the picker shows how many options it offers
+ * - Changing the parent field keeps the lists of answers it still offers
+ */
+export default function DependentOptionsEditor({
+  parentFields,
+  value,
+  onChange,
+  onAnnounce,
+  scored = false,
+  error,
+}: DependentOptionsEditorProps) {
+  const parent = parentFields.find(field => field.id === value.parentFieldId);
+  const parentOptions = parent ? getAllOptions(parent) : [];
+  const [selectedAnswer, setSelectedAnswer] = useState(parentOptions[0]?.value ?? '');
+
+  // Fall back to the first answer when the selected one is no longer offered
+  const activeAnswer = parentOptions.some(option => option.value === selectedAnswer)
+    ? selectedAnswer
+    : parentOptions[0]?.value ?? '';
+  const activeOption = parentOptions.find(option => option.value === activeAnswer);
+  const answersWithOptions = parentOptions.filter(option => (value.optionsByValue[option.value] || []).length > 0).length;
+
+  // Switch to another parent field, keeping the lists for answers it also offers
+  const changeParent = (parentFieldId: string) => {
+    const nextParent = parentFields.find(field => field.id === parentFieldId);
+    if (!nextParent) return;
+
+    const answers = new Set(getAllOptions(nextParent).map(option => option.value));
+    onChange({
+      parentFieldId,
+      optionsByValue: Object.fromEntries(
+        Object.entries(value.optionsByValue).filter(([answer]) => answers.has(answer))
+      ),
+    });
+    onAnnounce(`Options now depend on the answer to "${nextParent.label}".`);
+  };
+
+  const updateOptions = (options: FieldOption[]) => {
+    onChange({
+      ...value,
+      optionsByValue: { ...value.optionsByValue, [activeAnswer]: options },
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border border-gray-200 p-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label htmlFor="dependentOptionsParent" className="block text-sm font-medium text-gray-700">
+            Depends On
+          </label>
+          <select
+            id="dependentOptionsParent"
+            value={value.parentFieldId}
+            onChange={e => changeParent(e.target.value)}
+            className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {!parent && <option value={value.parentFieldId}>Choose a field...</option>}
+            {parentFields.map(field => (
+              <option key={field.id} value={field.id}>{field.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {parentOptions.length > 0 && (
+          <div className="space-y-2">
+            <label htmlFor="dependentOptionsAnswer" className="block text-sm font-medium text-gray-700">
+              Options For Answer
+            </label>
+            <select
+              id="dependentOptionsAnswer"
+              value={activeAnswer}
+              onChange={e => setSelectedAnswer(e.target.value)}
+              className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              aria-describedby="dependent-options-summary"
+            >
+              {parentOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label} ({pluralize((value.optionsByValue[option.value] || []).length, 'option')})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {parent && parentOptions.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          &ldquo;{parent.label}&rdquo; has no options yet. Add options to it first.
+        </p>
+      ) : parent && activeOption && (
+        <>
+          <p className="text-sm text-gray-500" id="dependent-options-summary">
+            {answersWithOptions} of {pluralize(parentOptions.length, 'answer')} to &ldquo;{parent.label}&rdquo; offer options.
+            Answers without options leave this field with nothing to choose.
+          </p>
+          <div role="group" aria-label={`Options when ${parent.label} is ${activeOption.label}`}>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              When &ldquo;{parent.label}&rdquo; is &ldquo;{activeOption.label}&rdquo;
+            </p>
+            <OptionListEditor
+              key={activeAnswer}
+              id="dependent-options"
+              options={value.optionsByValue[activeAnswer] || []}
+              onChange={updateOptions}
+              onAnnounce={onAnnounce}
+              scored={scored}
+              emptyMessage="No options for this answer yet. Use the button below to add options."
+            />
+          </div>
+        </>
+      )}
+
+      <FormError message={error} id="dependent-options-error" />
+    </div>
+  );
+}
@@ -1,16 +1,99 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { FormError } from '@/components/ui/FormError';
 import { 
+  prefillParamSchema,
   type DynamicFieldValues, 
-  type DynamicFormValues
+  type DynamicFormValues,
+  type DynamicGroupChildValues,
+  type VisibilityCondition
 } from '@/lib/schemas/form-schemas';
-import { generateId } from '@/lib/utils';
-import { cn } from '@/lib/utils';
+import { useDynamicForm, type HistoryStep } from '@/hooks/useDynamicForm';
+import { exportJsonSchema, importJsonSchema } from '@/lib/dynamic-forms/json-schema';
+import { generateFormModule } from '@/lib/dynamic-forms/codegen';
+import type { DynamicFormDraft } from '@/lib/dynamic-forms/store';
+import DynamicFormList from '@/components/forms/DynamicFormList';
+import DynamicFormPreview from '@/components/forms/DynamicFormPreview';
+import OptionListEditor from '@/components/forms/OptionListEditor';
+import OptionSetsPanel from '@/components/forms/OptionSetsPanel';
+import DependentOptionsEditor from '@/components/forms/DependentOptionsEditor';
+import { visibilityOperatorLabels } from '@/lib/dynamic-forms/visibility';
+import { compilePattern, hasUnsafeRepetition, pluralize } from '@/lib/dynamic-forms/constraints';
+import { dependentOptionFieldTypes, fieldTypeLabels, optionFieldTypes, parentOptionFieldTypes } from '@/lib/dynamic-forms/field-types';
+import { resolveFieldSectionId } from '@/lib/dynamic-forms/sections';
+import { lintDynamicForm } from '@/lib/dynamic-forms/lint';
+import { parseFormula } from '@/lib/dynamic-forms/formula';
+import {
+  assignOptionValues,
+  findDuplicateOptionValues,
+  getAllOptions,
+  resolveOptionSets,
+  type FieldOption
+} from '@/lib/dynamic-forms/options';
+import { cn, safeJsonParse } from '@/lib/utils';
+
+// Values of the field configuration form when nothing is being edited
+const emptyFieldValues: DynamicFieldValues = {
+  id: '',
+  label: '',
+  type: 'text',
+  required: false,
+  options: [],
+  visibleWhen: undefined,
+  validation: undefined,
+  sectionId: undefined,
+  optionSetId: undefined,
+  dependentOptions: undefined,
+  explanation: undefined,
+  formula: undefined,
+  prefillParam: undefined,
+  fields: [],
+};
+
+// Field types that can be repeated inside a group
+const groupChildTypeLabels = Object.entries(fieldTypeLabels).filter(([type]) => !['group', 'calculated', 'hidden'].includes(type));
+
+// Options ready to render, with blank rows dropped and every value filled in
+const toPreviewOptions = (options: FieldOption[] | undefined) =>
+  options && assignOptionValues(options.filter(option => option.label));
+
+// Id given to the field being configured until it is added to the form
+const PREVIEW_FIELD_ID = 'preview-field';
+
+// Make the field being configured renderable in the live preview
+const toPreviewField = (field: DynamicFieldValues): DynamicFieldValues => ({
+  ...field,
+  id: field.id || PREVIEW_FIELD_ID,
+  options: toPreviewOptions(field.options),
+  dependentOptions: field.dependentOptions && {
+    ...field.dependentOptions,
+    optionsByValue: Object.fromEntries(
+      Object.entries(field.dependentOptions.optionsByValue).map(([answer, options]) => [answer, toPreviewOptions(options) || []])
+    ),
+  },
+  fields: field.type === 'group'
+    ? (field.fields || []).map((child, index) => ({
+        ...child,
+        id: child.id || `${PREVIEW_FIELD_ID}-${index}`,
+        options: toPreviewOptions(child.options),
+      }))
+    : undefined,
+});
+
+// Read an optional numeric constraint from a builder input
+const toOptionalNumber = (value: string | number | undefined) =>
+  value === '' || value === undefined || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+interface DynamicFormProps {
+  // Saved form to reopen for editing; a new form is started when omitted
+  initialForm?: DynamicFormDraft | null;
+}
 
 /**
  * Dynamic Form Builder Component
@@ -18,16 +101,67 @@ import { cn } from '@/lib/utils';
  * Allows users to create custom forms by adding and configuring various field types.
  * Includes robust accessibility features for all user interactions.
  */
-export default function DynamicForm() {
-  // State for our form fields
-  const [fields, setFields] = useState<DynamicFieldValues[]>([]);
-  const [formName, setFormName] = useState('');
-  const [fieldBeingEdited, setFieldBeingEdited] = useState<DynamicFieldValues | null>(null);
+export default function DynamicForm({ initialForm }: DynamicFormProps) {
+  const router = useRouter();
+  
+  // State for our form fields, with undo/redo history
+  const {
+    fields,
+    sections,
+    optionSets,
+    formName,
+    setFormName,
+    quiz,
+    setQuiz,
+    fieldBeingEdited,
+    addField: commitField,
+    editField: startEditingField,
+    removeField: commitFieldRemoval,
+    moveField,
+    addSection,
+    updateSection,
+    removeSection,
+    moveSection,
+    addOptionSet,
+    updateOptionSet,
+    removeOptionSet,
+    importFields,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    resetFields,
+    generateFormData,
+    clearFieldBeingEdited,
+  } = useDynamicForm(initialForm?.definition);
   
   // State for submission
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [savedFormId, setSavedFormId] = useState<number | null>(initialForm?.id ?? null);
+  const [publishedVersion, setPublishedVersion] = useState<number | null>(initialForm?.publishedVersion ?? null);
+  const [hasUnpublishedChanges, setHasUnpublishedChanges] = useState(initialForm?.hasUnpublishedChanges ?? true);
+  const [formListVersion, setFormListVersion] = useState(0);
+  const [openedFormId, setOpenedFormId] = useState<number | null>(initialForm?.id ?? null);
+  const [editorResetCount, setEditorResetCount] = useState(0);
+  
+  // State for the section editor
+  const [sectionTitle, setSectionTitle] = useState('');
+  const [sectionDescription, setSectionDescription] = useState('');
+  const [sectionBeingEdited, setSectionBeingEdited] = useState<string | null>(null);
+  const [sectionError, setSectionError] = useState<string | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [importReport, setImportReport] = useState<{ fileName: string; unsupported: string[] } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [showLintIssues, setShowLintIssues] = useState(false);
+  
+  // State for reordering fields by keyboard (grab, move, drop) and by dragging
+  const [grabbedFieldId, setGrabbedFieldId] = useState<string | null>(null);
+  const grabbedFromIndexRef = useRef(0);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null);
   
   // State for accessibility announcements
   const [statusAnnouncement, setStatusAnnouncement] = useState<string | null>(null);
@@ -37,6 +171,10 @@ export default function DynamicForm() {
   const addFieldButtonRef = useRef<HTMLButtonElement>(null);
   const fieldListRef = useRef<HTMLDivElement>(null);
   const configPanelRef = useRef<HTMLDivElement>(null);
+  const builderRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const sectionTitleInputRef = useRef<HTMLInputElement>(null);
+  const lintSummaryRef = useRef<HTMLDivElement>(null);
   
   // Setup form for adding/editing fields
   const {
@@ -48,62 +186,160 @@ export default function DynamicForm() {
     watch,
     formState: { errors },
   } = useForm<DynamicFieldValues>({
-    defaultValues: {
-      id: '',
-      label: '',
-      type: 'text',
-      required: false,
-      options: [],
+    defaultValues: emptyFieldValues,
+  });
+  
+  // Child fields of a repeatable group
+  const {
+    fields: groupChildren,
+    append: appendGroupChild,
+    remove: removeGroupChild,
+  } = useFieldArray({
+    control,
+    name: 'fields',
+    rules: {
+      validate: (value, values) =>
+        values.type !== 'group' || value.length > 0 || 'Add at least one field to the group',
     },
   });
   
+  // Open a different form when navigating to it, unless the builder already has it open
+  const requestedFormId = initialForm?.id ?? null;
+  if (requestedFormId !== openedFormId) {
+    setOpenedFormId(requestedFormId);
+    
+    if (requestedFormId !== savedFormId) {
+      resetFields(
+        initialForm?.definition.fields,
+        initialForm?.definition.sections,
+        initialForm?.definition.optionSets
+      );
+      setFormName(initialForm?.definition.formName ?? '');
+      setQuiz(initialForm?.definition.quiz);
+      setSavedFormId(requestedFormId);
+      setPublishedVersion(initialForm?.publishedVersion ?? null);
+      setHasUnpublishedChanges(initialForm?.hasUnpublishedChanges ?? true);
+      setSubmitSuccess(false);
+      setSubmitError(null);
+      setImportReport(null);
+      setImportError(null);
+      setShowLintIssues(false);
+      setSectionBeingEdited(null);
+      setSectionTitle('');
+      setSectionDescription('');
+      setEditorResetCount(prev => prev + 1);
+      setStatusAnnouncement(
+        initialForm
+          ? `Opened form "${initialForm.definition.formName}" for editing.`
+          : 'Started a new form.'
+      );
+    }
+  }
+  
+  // Clear the field editor when another form is opened
+  useEffect(() => {
+    reset(emptyFieldValues);
+  }, [editorResetCount, reset]);
+  
   // Watch the field type to conditionally render option inputs
   const fieldType = watch('type');
   
-  // Generate form data for submission
-  const generateFormData = (): DynamicFormValues => {
-    return {
-      formName: formName,
-      fields: fields.map(field => {
-        // For fields that can have options, ensure the options property exists
-        if (['select', 'radio', 'checkbox'].includes(field.type) && !field.options) {
-          return { ...field, options: [] };
-        }
-        return field;
-      }),
-    };
+  // Watch the visibility rule to render the rule editor
+  const visibleWhen = watch('visibleWhen');
+  
+  // The form as respondents will see it, including the field being configured
+  const draftField = watch();
+  const previewField = draftField.label?.trim() ? toPreviewField(draftField) : null;
+  const previewDefinition: DynamicFormValues = {
+    formName: formName || 'Untitled form',
+    fields: fieldBeingEdited
+      ? fields.map(field => field.id === fieldBeingEdited.id ? previewField ?? field : field)
+      : previewField ? [...fields, previewField] : fields,
+    ...(sections.length > 0 && { sections }),
+    ...(optionSets.length > 0 && { optionSets }),
+    ...(quiz && { quiz }),
+  };
+  
+  // Problems blocking a save, kept up to date once a save has found some
+  const lintIssues = showLintIssues ? lintDynamicForm(generateFormData()) : [];
+  
+  // Fields with the options of the sets they use
+  const resolvedFields = resolveOptionSets({ fields, optionSets }).fields;
+  
+  // Watch the option set so its options can be summarised instead of edited
+  const optionSetId = watch('optionSetId');
+  const selectedOptionSet = optionSets.find(optionSet => optionSet.id === optionSetId);
+  
+  // Watch the dependent options so the options editor can follow another field's answer
+  const dependentOptions = watch('dependentOptions');
+  
+  // Select and radio fields whose answer can choose the options, leaving out any
+  // field whose options already depend on the field being edited
+  const dependsOnFieldBeingEdited = (field: DynamicFieldValues) => {
+    const seen = new Set<string>();
+    let parentFieldId = field.dependentOptions?.parentFieldId;
+    while (parentFieldId && !seen.has(parentFieldId)) {
+      if (parentFieldId === fieldBeingEdited?.id) return true;
+      seen.add(parentFieldId);
+      parentFieldId = fields.find(f => f.id === parentFieldId)?.dependentOptions?.parentFieldId;
+    }
+    return false;
+  };
+  const optionParentFields = resolvedFields.filter(field =>
+    parentOptionFieldTypes.includes(field.type) &&
+    field.id !== fieldBeingEdited?.id &&
+    !(fieldBeingEdited && dependsOnFieldBeingEdited(field))
+  );
+  
+  // Switch the field being configured between its own options and options chosen by another field's answer
+  const toggleDependentOptions = (enabled: boolean) => {
+    if (enabled) {
+      const parent = optionParentFields[0];
+      setValue('dependentOptions', { parentFieldId: parent.id, optionsByValue: {} });
+      setValue('optionSetId', undefined);
+      setStatusAnnouncement(`Options now depend on the answer to "${parent.label}". Add options for each of its answers.`);
+    } else {
+      // Keep every option offered so far as the field's own options
+      const offered = Object.values(dependentOptions?.optionsByValue || {}).flat();
+      setValue('options', offered.filter((option, index) =>
+        offered.findIndex(other => (other.value || other.label) === (option.value || option.label)) === index
+      ));
+      setValue('dependentOptions', undefined);
+      setStatusAnnouncement('Options no longer depend on another field.');
+    }
+  };
+  
+  // Fields a visibility rule can reference (every field except the one being edited, groups and calculated fields)
+  const ruleSourceFields = fields.filter(field =>
+    field.id !== fieldBeingEdited?.id && field.type !== 'group' && field.type !== 'calculated'
+  );
+  
+  // Fields a formula can reference, including other calculated fields
+  const formulaSourceFields = fields.filter(field => field.id !== fieldBeingEdited?.id && field.type !== 'group');
+  
+  // Append a reference to another field to the formula being edited
+  const insertFormulaReference = (fieldId: string) => {
+    const field = formulaSourceFields.find(f => f.id === fieldId);
+    if (!field) return;
+    
+    const formula = (draftField.formula || '').trimEnd();
+    setValue('formula', formula ? `${formula} {${field.id}}` : `{${field.id}}`, { shouldValidate: !!formula });
+    setStatusAnnouncement(`Reference to "${field.label}" added to the formula.`);
   };
   
   // Add a new field to the form
   const addField = (data: DynamicFieldValues) => {
-    const newField = {
-      ...data,
-      id: data.id || generateId(),
-    };
+    const isUpdate = !!fieldBeingEdited;
+    const newField = commitField(data);
     
-    if (fieldBeingEdited) {
-      // Update existing field
-      setFields(prev => 
-        prev.map(field => 
-          field.id === fieldBeingEdited.id ? newField : field
-        )
-      );
-      setFieldBeingEdited(null);
-      setStatusAnnouncement(`Field "${newField.label}" has been updated.`);
-    } else {
-      // Add new field
-      setFields(prev => [...prev, newField]);
-      setStatusAnnouncement(`Field "${newField.label}" has been added.`);
-    }
+    setStatusAnnouncement(
+      isUpdate
+        ? `Field "${newField.label}" has been updated.`
+        : `Field "${newField.label}" has been added.`
+    );
     
     // Reset form
-    reset({
-      id: '',
-      label: '',
-      type: 'text',
-      required: false,
-      options: [],
-    });
+    reset(emptyFieldValues);
     
     // Focus the add field button after adding/updating a field
     setTimeout(() => {
@@ -113,7 +349,7 @@ export default function DynamicForm() {
   
   // Edit an existing field
   const editField = (field: DynamicFieldValues) => {
-    setFieldBeingEdited(field);
+    startEditingField(field);
     setStatusAnnouncement(`Editing field "${field.label}". You can now modify its properties.`);
     
     // Set form values
@@ -126,6 +362,17 @@ export default function DynamicForm() {
       setValue('options', field.options);
     }
     
+    setValue('optionSetId', field.optionSetId);
+    setValue('dependentOptions', field.dependentOptions);
+    setValue('explanation', field.explanation);
+    setValue('formula', field.formula);
+    setValue('prefillParam', field.prefillParam);
+    
+    setValue('visibleWhen', field.visibleWhen);
+    setValue('validation', field.validation);
+    setValue('sectionId', resolveFieldSectionId({ sections }, field));
+    setValue('fields', field.fields || []);
+    
     // Focus the config panel
     setTimeout(() => {
       configPanelRef.current?.focus();
@@ -134,19 +381,12 @@ export default function DynamicForm() {
   
   // Remove a field
   const removeField = (id: string, label: string) => {
-    setFields(prev => prev.filter(field => field.id !== id));
-    setStatusAnnouncement(`Field "${label}" has been removed.`);
+    commitFieldRemoval(id);
+    setStatusAnnouncement(`Field "${label}" has been removed. Press Control+Z to undo.`);
     
     // If the field being edited is being removed, clear the edit state
     if (fieldBeingEdited && fieldBeingEdited.id === id) {
-      setFieldBeingEdited(null);
-      reset({
-        id: '',
-        label: '',
-        type: 'text',
-        required: false,
-        options: [],
-      });
+      reset(emptyFieldValues);
     }
     
     // Return focus to field list
@@ -155,41 +395,233 @@ export default function DynamicForm() {
     }, 100);
   };
   
-  // Handle form options (for select, radio, checkbox)
-  const handleOptionChange = (index: number, value: string) => {
-    const currentOptions = watch('options') || [];
-    const newOptions = [...currentOptions];
+  // Add a field to the repeatable group being configured
+  const addGroupChild = () => {
+    const child: DynamicGroupChildValues = { id: '', label: '', type: 'text', required: false };
+    appendGroupChild(child);
+    setStatusAnnouncement(`Group field ${groupChildren.length + 1} added. Please enter a label for this field.`);
+  };
+  
+  // Remove a field from the repeatable group being configured
+  const removeGroupChildAt = (index: number) => {
+    removeGroupChild(index);
+    setStatusAnnouncement(`Group field ${index + 1} removed.`);
+  };
+  
+  // Add a visibility condition
+  const addCondition = () => {
+    const sourceField = ruleSourceFields[0];
+    if (!sourceField) return;
+    
+    setValue('visibleWhen', {
+      combinator: visibleWhen?.combinator ?? 'and',
+      conditions: [
+        ...(visibleWhen?.conditions || []),
+        { fieldId: sourceField.id, operator: 'equals', value: '' },
+      ],
+    });
+    setStatusAnnouncement(`New condition added based on field "${sourceField.label}".`);
+  };
+  
+  // Update part of a visibility condition
+  const updateCondition = (index: number, changes: Partial<VisibilityCondition>) => {
+    if (!visibleWhen) return;
+    
+    setValue('visibleWhen', {
+      ...visibleWhen,
+      conditions: visibleWhen.conditions.map((condition, i) =>
+        i === index ? { ...condition, ...changes } : condition
+      ),
+    });
+  };
+  
+  // Remove a visibility condition, clearing the rule once it is empty
+  const removeCondition = (index: number) => {
+    if (!visibleWhen) return;
+    
+    const conditions = visibleWhen.conditions.filter((_, i) => i !== index);
+    setValue('visibleWhen', conditions.length > 0 ? { ...visibleWhen, conditions } : undefined);
+    setStatusAnnouncement('Condition removed.');
+  };
+  
+  // Render the value input for a condition based on the referenced field
+  const renderConditionValueInput = (condition: VisibilityCondition, index: number) => {
+    const sourceField = resolvedFields.find(field => field.id === condition.fieldId);
+    const sourceOptions = sourceField ? getAllOptions(sourceField) : [];
+    const className = "flex-1 rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+    
+    if (sourceField?.type === 'checkbox') {
+      return (
+        <select
+          value={condition.value}
+          onChange={e => updateCondition(index, { value: e.target.value })}
+          className={className}
+          aria-label={`Condition ${index + 1} value`}
+        >
+          <option value="">Select a value</option>
+          <option value="true">Checked</option>
+          <option value="false">Not checked</option>
+        </select>
+      );
+    }
+    
+    if (sourceOptions.length > 0) {
+      return (
+        <select
+          value={condition.value}
+          onChange={e => updateCondition(index, { value: e.target.value })}
+          className={className}
+          aria-label={`Condition ${index + 1} value`}
+        >
+          <option value="">Select a value</option>
+          {sourceOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    }
+    
+    return (
+      <input
+        type={sourceField?.type === 'number' ? 'number' : 'text'}
+        value={condition.value}
+        onChange={e => updateCondition(index, { value: e.target.value })}
+        className={className}
+        placeholder="Value"
+        aria-label={`Condition ${index + 1} value`}
+      />
+    );
+  };
+  
+  // Focus a row in the field list after it has been rendered
+  const focusFieldRow = (index: number) => {
+    setTimeout(() => {
+      const row = document.querySelector(`#field-row-${index}`) as HTMLElement;
+      row?.focus();
+    }, 0);
+  };
+  
+  // Clear the section editor inputs
+  const clearSectionEditor = () => {
+    setSectionBeingEdited(null);
+    setSectionTitle('');
+    setSectionDescription('');
+    setSectionError(null);
+  };
+  
+  // Add a new section, or save changes to the one being edited
+  const saveSection = () => {
+    const title = sectionTitle.trim();
     
-    if (!newOptions[index]) {
-      newOptions[index] = { label: '', value: '' };
+    if (!title) {
+      setSectionError('Section title is required');
+      setStatusAnnouncement('Error: Section title is required.');
+      sectionTitleInputRef.current?.focus();
+      return;
     }
     
-    newOptions[index].label = value;
-    newOptions[index].value = value.toLowerCase().replace(/\s+/g, '_');
+    const description = sectionDescription.trim() || undefined;
     
-    setValue('options', newOptions);
+    if (sectionBeingEdited) {
+      updateSection({ id: sectionBeingEdited, title, description });
+      setStatusAnnouncement(`Section "${title}" has been updated.`);
+    } else {
+      addSection({ title, description });
+      setStatusAnnouncement(
+        sections.length === 0
+          ? `Section "${title}" has been added. The form is now shown one section per page.`
+          : `Section "${title}" has been added.`
+      );
+    }
+    
+    clearSectionEditor();
+    sectionTitleInputRef.current?.focus();
   };
   
-  // Add an option
-  const addOption = () => {
-    const currentOptions = watch('options') || [];
-    setValue('options', [...currentOptions, { label: '', value: '' }]);
-    setStatusAnnouncement('New option added. Please enter a label for this option.');
+  // Load a section into the section editor
+  const editSection = (id: string) => {
+    const section = sections.find(s => s.id === id);
+    if (!section) return;
+    
+    setSectionBeingEdited(section.id);
+    setSectionTitle(section.title);
+    setSectionDescription(section.description || '');
+    setSectionError(null);
+    setStatusAnnouncement(`Editing section "${section.title}".`);
+    sectionTitleInputRef.current?.focus();
   };
   
-  // Remove an option
-  const removeOption = (index: number) => {
-    const currentOptions = watch('options') || [];
-    setValue('options', currentOptions.filter((_, i) => i !== index));
-    setStatusAnnouncement('Option removed.');
+  // Remove a section, moving its fields to the first remaining section
+  const handleRemoveSection = (id: string, title: string) => {
+    removeSection(id);
+    if (sectionBeingEdited === id) clearSectionEditor();
+    setStatusAnnouncement(`Section "${title}" has been removed. Its fields moved to the first section.`);
   };
   
+  // Move a section up or down, keeping focus on the button that was pressed
+  const handleMoveSection = (index: number, direction: -1 | 1, title: string) => {
+    const toIndex = index + direction;
+    moveSection(index, toIndex);
+    setStatusAnnouncement(`Section "${title}" moved to position ${toIndex + 1} of ${sections.length}.`);
+  };
+  
+  // Announce an undo or redo, closing the field editor if its field no longer exists
+  const applyHistoryStep = (step: HistoryStep | null) => {
+    if (!step) return;
+    
+    if (fieldBeingEdited && !step.fields.some(field => field.id === fieldBeingEdited.id)) {
+      clearFieldBeingEdited();
+      reset(emptyFieldValues);
+    }
+    
+    if (sectionBeingEdited && !step.sections.some(section => section.id === sectionBeingEdited)) {
+      clearSectionEditor();
+    }
+    
+    setStatusAnnouncement(step.message);
+  };
+  
+  const handleUndo = () => applyHistoryStep(undo());
+  const handleRedo = () => applyHistoryStep(redo());
+  
   // Handle keyboard navigation for field list
   const handleFieldListKeyDown = (
     e: React.KeyboardEvent<HTMLTableRowElement>,
     field: DynamicFieldValues,
     index: number
   ) => {
+    // Ignore keys pressed on the buttons inside the row
+    if (e.target !== e.currentTarget) return;
+    
+    const position = `position ${index + 1} of ${fields.length}`;
+    
+    // While a field is picked up, the arrow keys move it instead of focus
+    if (grabbedFieldId === field.id) {
+      if (e.key === 'ArrowUp' && index > 0) {
+        e.preventDefault();
+        moveField(index, index - 1);
+        setStatusAnnouncement(`Field "${field.label}" moved to position ${index} of ${fields.length}.`);
+        focusFieldRow(index - 1);
+      } else if (e.key === 'ArrowDown' && index < fields.length - 1) {
+        e.preventDefault();
+        moveField(index, index + 1);
+        setStatusAnnouncement(`Field "${field.label}" moved to position ${index + 2} of ${fields.length}.`);
+        focusFieldRow(index + 1);
+      } else if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault();
+        setGrabbedFieldId(null);
+        setStatusAnnouncement(`Field "${field.label}" dropped at ${position}.`);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        const originalIndex = grabbedFromIndexRef.current;
+        moveField(index, originalIndex);
+        setGrabbedFieldId(null);
+        setStatusAnnouncement(`Reordering cancelled. Field "${field.label}" returned to position ${originalIndex + 1} of ${fields.length}.`);
+        focusFieldRow(originalIndex);
+      }
+      return;
+    }
+    
     // Handle keyboard navigation in the field list
     if (e.key === 'ArrowUp' && index > 0) {
       e.preventDefault();
@@ -199,12 +631,116 @@ export default function DynamicForm() {
       e.preventDefault();
       const nextRow = document.querySelector(`#field-row-${index + 1}`) as HTMLElement;
       nextRow?.focus();
-    } else if (e.key === 'Enter' || e.key === ' ') {
+    } else if (e.key === ' ') {
+      // Pick up the field for reordering
+      e.preventDefault();
+      grabbedFromIndexRef.current = index;
+      setGrabbedFieldId(field.id);
+      setStatusAnnouncement(
+        `Picked up field "${field.label}" at ${position}. Use the up and down arrow keys to move it, Space to drop it, or Escape to cancel.`
+      );
+    } else if (e.key === 'Enter') {
       e.preventDefault();
       editField(field);
     }
   };
   
+  // Handle dragging a field row to a new position
+  const handleDragStart = (e: React.DragEvent<HTMLTableRowElement>, index: number) => {
+    setDraggedIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+  
+  const handleDragOver = (e: React.DragEvent<HTMLTableRowElement>, index: number) => {
+    if (draggedIndex === null) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTargetIndex(index);
+  };
+  
+  const handleDrop = (e: React.DragEvent<HTMLTableRowElement>, index: number) => {
+    e.preventDefault();
+    
+    if (draggedIndex !== null && draggedIndex !== index) {
+      const field = fields[draggedIndex];
+      moveField(draggedIndex, index);
+      setStatusAnnouncement(`Field "${field.label}" moved to position ${index + 1} of ${fields.length}.`);
+    }
+    
+    setDraggedIndex(null);
+    setDropTargetIndex(null);
+  };
+  
+  const handleDragEnd = () => {
+    setDraggedIndex(null);
+    setDropTargetIndex(null);
+  };
+  
+  // Download the current fields as a JSON Schema file
+  const handleExportJsonSchema = () => {
+    const schema = exportJsonSchema(generateFormData());
+    const blob = new Blob([JSON.stringify(schema, null, 2)], { type: 'application/schema+json' });
+    const url = URL.createObjectURL(blob);
+    const fileName = `${formName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'form'}.schema.json`;
+    
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    
+    setStatusAnnouncement(`Exported ${pluralize(fields.length, 'field')} as ${fileName}.`);
+  };
+  
+  // Download the current form as a React component with its Zod schema
+  const handleExportCode = () => {
+    const { fileName, code } = generateFormModule(generateFormData());
+    const blob = new Blob([code], { type: 'text/typescript' });
+    const url = URL.createObjectURL(blob);
+    
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    
+    setStatusAnnouncement(`Exported the form as code in ${fileName}.`);
+  };
+  
+  // Replace the fields with those described by an uploaded JSON Schema file
+  const handleImportJsonSchema = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow the same file to be chosen again
+    e.target.value = '';
+    if (!file) return;
+    
+    setImportError(null);
+    setImportReport(null);
+    
+    const json = safeJsonParse<unknown>(await file.text(), undefined);
+    const result = json === undefined
+      ? { success: false as const, error: 'The file is not valid JSON.' }
+      : importJsonSchema(json);
+    
+    if (!result.success) {
+      setImportError(`Could not import ${file.name}. ${result.error}`);
+      setStatusAnnouncement(`Error: Could not import ${file.name}. ${result.error}`);
+      return;
+    }
+    
+    const { definition, unsupported } = result;
+    
+    importFields(definition.fields, file.name, definition.sections, definition.optionSets);
+    if (definition.formName) setFormName(definition.formName);
+    setQuiz(definition.quiz);
+    reset(emptyFieldValues);
+    if (unsupported.length > 0) setImportReport({ fileName: file.name, unsupported });
+    setStatusAnnouncement(
+      `Imported ${pluralize(definition.fields.length, 'field')} from ${file.name}.` +
+      (unsupported.length > 0 ? ' Some parts of the schema could not be imported and are listed below.' : '')
+    );
+  };
+  
   // Submit the form configuration
   const handleFormSubmit = async () => {
     // Validate form name
@@ -223,37 +759,64 @@ export default function DynamicForm() {
       return;
     }
     
+    // Check the definition for mistakes before sending it
+    const formData = generateFormData();
+    const issues = lintDynamicForm(formData);
+    
+    if (issues.length > 0) {
+      setShowLintIssues(true);
+      setSubmitError(null);
+      setStatusAnnouncement(`Error: The form has ${pluralize(issues.length, 'problem')} to fix before saving.`);
+      
+      // Move focus to the list of problems
+      setTimeout(() => {
+        lintSummaryRef.current?.focus();
+      }, 100);
+      return;
+    }
+    
     setIsSubmitting(true);
     setSubmitError(null);
     setStatusAnnouncement('Saving your form, please wait...');
     
     try {
-      // Prepare form data
-      const formData = generateFormData();
+
+      // Create the form on first save, then keep replacing its draft
+      const isNewForm = savedFormId === null;
       
       // Submit to API
-      const response = await fetch('/api/forms/dynamic', {
-        method: 'POST',
+      const response = await fetch(isNewForm ? '/api/forms/dynamic' : `/api/forms/dynamic/${savedFormId}`, {
+        method: isNewForm ? 'POST' : 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(formData),
       });
       
+      const result = await response.json();
+      
       if (!response.ok) {
-        throw new Error('Failed to submit form');
+        // Show the problems the server found, e.g. when it checks more than the builder
+        if (result.issues) setShowLintIssues(true);
+        throw new Error(result.message || 'Failed to submit form');
       }
       
-      // Show success message and reset form
-      setSubmitSuccess(true);
-      setStatusAnnouncement('Form configuration saved successfully.');
-      setFields([]);
-      setFormName('');
+      // Keep editing the saved form, so a reload reopens it
+      if (isNewForm) {
+        router.replace(`/forms/dynamic?id=${result.id}`, { scroll: false });
+      }
       
-      // Focus the form name input
-      setTimeout(() => {
-        formNameInputRef.current?.focus();
-      }, 100);
+      // Show success message
+      setSavedFormId(result.id);
+      setHasUnpublishedChanges(true);
+      setFormListVersion(prev => prev + 1);
+      setShowLintIssues(false);
+      setSubmitSuccess(true);
+      setStatusAnnouncement(
+        publishedVersion === null
+          ? 'Form configuration saved as a draft. Publish it to make it available to respondents.'
+          : 'Draft saved. Publish it to make your changes live.'
+      );
       
       // Hide success message after 5 seconds
       setTimeout(() => {
@@ -267,6 +830,65 @@ export default function DynamicForm() {
     }
   };
   
+  // Publish the saved draft as a new version
+  const handlePublish = async () => {
+    if (savedFormId === null) return;
+    
+    setIsPublishing(true);
+    setSubmitError(null);
+    setStatusAnnouncement('Publishing your form, please wait...');
+    
+    try {
+      const response = await fetch(`/api/forms/dynamic/${savedFormId}/publish`, {
+        method: 'POST',
+      });
+      
+      const result = await response.json();
+      
+      if (!response.ok) {
+        // Show the problems the server found in the saved draft
+        if (result.issues) setShowLintIssues(true);
+        throw new Error(result.message || 'Failed to publish form');
+      }
+      
+      setPublishedVersion(result.version);
+      setHasUnpublishedChanges(false);
+      setFormListVersion(prev => prev + 1);
+      setStatusAnnouncement(`Version ${result.version} of your form has been published.`);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'An unexpected error occurred');
+      setStatusAnnouncement(`Error publishing form: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+  
+  // Keyboard shortcuts for undo (Ctrl+Z) and redo (Ctrl+Shift+Z or Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Only if focus is within the builder
+      if (!builderRef.current?.contains(document.activeElement)) return;
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      
+      // Leave text editing shortcuts to the inputs themselves
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      
+      const key = e.key.toLowerCase();
+      
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+  
   // Clear announcements after they've been read
   useEffect(() => {
     if (statusAnnouncement) {
@@ -279,7 +901,7 @@ export default function DynamicForm() {
   }, [statusAnnouncement]);
   
   return (
-    <div className="max-w-4xl mx-auto">
+    <div className="max-w-4xl mx-auto lg:max-w-none lg:grid lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)] lg:gap-x-6 lg:items-start">
       {/* Skip to main content link */}
       <a 
         href="#form-builder-content" 
@@ -293,7 +915,20 @@ export default function DynamicForm() {
         {statusAnnouncement}
       </div>
       
-      <div className="bg-white shadow-sm rounded-lg p-6">
+      <div className="mb-4 flex justify-end lg:hidden">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setShowPreview(prev => !prev)}
+          aria-expanded={showPreview}
+          aria-controls="form-preview"
+        >
+          {showPreview ? 'Hide Preview' : 'Show Preview'}
+        </Button>
+      </div>
+      
+      <div ref={builderRef} className="bg-white shadow-sm rounded-lg p-6">
         <h2 
           className="text-xl font-semibold text-gray-800 mb-6"
           tabIndex={-1}
@@ -309,7 +944,58 @@ export default function DynamicForm() {
             aria-live="polite"
           >
             <p className="font-medium">Form configuration saved successfully!</p>
-            <p>Your dynamic form has been created and saved.</p>
+            <p>Your dynamic form has been saved as a draft.</p>
+          </div>
+        )}
+        
+        {savedFormId !== null && (
+          <div className="mb-6 p-4 bg-indigo-50 text-indigo-700 rounded-md space-y-3">
+            {publishedVersion === null ? (
+              <div className="flex items-center justify-between gap-4">
+                <p>Your form is saved as a draft. Publish it to make it available to respondents.</p>
+                <Button
+                  type="button"
+                  onClick={handlePublish}
+                  isLoading={isPublishing}
+                  loadingText="Publishing..."
+                  className="bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  Publish Form
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-4">
+                <p>
+                  Version {publishedVersion} is live and can be filled in at{' '}
+                  <Link 
+                    href={`/forms/dynamic/${savedFormId}`}
+                    className="font-medium underline focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    /forms/dynamic/{savedFormId}
+                  </Link>
+                  {hasUnpublishedChanges && '. The saved draft has changes that are not published yet.'}
+                </p>
+                {hasUnpublishedChanges && (
+                  <Button
+                    type="button"
+                    onClick={handlePublish}
+                    isLoading={isPublishing}
+                    loadingText="Publishing..."
+                    className="bg-indigo-600 text-white hover:bg-indigo-700"
+                  >
+                    Publish Changes
+                  </Button>
+                )}
+              </div>
+            )}
+            <p className="text-sm">
+              <Link 
+                href="/forms/dynamic"
+                className="font-medium underline focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                Start a new form
+              </Link>
+            </p>
           </div>
         )}
         
@@ -324,6 +1010,39 @@ export default function DynamicForm() {
           </div>
         )}
         
+        {lintIssues.length > 0 && (
+          <div 
+            className="mb-6 p-4 bg-red-50 text-red-700 rounded-md outline-none focus-visible:ring-2 focus-visible:ring-red-500"
+            role="region"
+            aria-labelledby="lint-issues-heading"
+            ref={lintSummaryRef}
+            tabIndex={-1}
+          >
+            <p className="font-medium" id="lint-issues-heading">
+              Fix {lintIssues.length === 1 ? 'this problem' : `these ${lintIssues.length} problems`} before saving
+            </p>
+            <ul className="mt-2 list-disc list-inside text-sm space-y-1">
+              {lintIssues.map((issue, index) => {
+                const field = fields.find(f => f.id === issue.fieldId);
+                
+                return (
+                  <li key={index}>
+                    {field ? (
+                      <button
+                        type="button"
+                        className="underline hover:text-red-800 focus:outline-none focus:ring-2 focus:ring-red-500 rounded"
+                        onClick={() => editField(field)}
+                      >
+                        {issue.message}
+                      </button>
+                    ) : issue.message}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+        
         <div className="mb-8" id="form-builder-content">
           <div className="mb-6">
             <label 
@@ -346,6 +1065,185 @@ export default function DynamicForm() {
             />
           </div>
           
+          <div className="border-t border-gray-200 pt-4 mb-6" role="group" aria-labelledby="quiz-heading">
+            <h3 
+              className="text-lg font-medium text-gray-800 mb-1"
+              id="quiz-heading"
+            >
+              Quiz
+            </h3>
+            <p className="text-sm text-gray-500 mb-4" id="quiz-description">
+              Score select, radio and checkbox answers when a response is submitted. Give options points, or mark the correct ones.
+            </p>
+            <div className="space-y-2">
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="formIsQuiz"
+                  checked={!!quiz}
+                  onChange={e => {
+                    setQuiz(e.target.checked ? { showResults: false } : undefined);
+                    setStatusAnnouncement(e.target.checked
+                      ? 'The form is now a quiz. Options can be given points or marked correct.'
+                      : 'The form is no longer a quiz. Responses will not be scored.');
+                  }}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                  aria-describedby="quiz-description"
+                />
+                <label htmlFor="formIsQuiz" className="ml-2 block text-sm text-gray-700">
+                  Score responses as a quiz
+                </label>
+              </div>
+              {quiz && (
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="quizShowResults"
+                    checked={quiz.showResults}
+                    onChange={e => setQuiz({ ...quiz, showResults: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  <label htmlFor="quizShowResults" className="ml-2 block text-sm text-gray-700">
+                    Show respondents their score, the correct answers and explanations after submitting
+                  </label>
+                </div>
+              )}
+            </div>
+          </div>
+          
+          <div className="border-t border-gray-200 pt-4 mb-6">
+            <h3 
+              className="text-lg font-medium text-gray-800 mb-1"
+              id="sections-heading"
+            >
+              Pages
+            </h3>
+            <p className="text-sm text-gray-500 mb-4" id="sections-description">
+              Split a long form into sections shown one per page. Fields without a section are shown on the first page.
+            </p>
+            
+            {sections.length > 0 && (
+              <ol className="mb-4 divide-y divide-gray-200 border border-gray-200 rounded-md" aria-labelledby="sections-heading">
+                {sections.map((section, index) => {
+                  const fieldCount = fields.filter(field => resolveFieldSectionId({ sections }, field) === section.id).length;
+                  
+                  return (
+                    <li key={section.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {index + 1}. {section.title}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {pluralize(fieldCount, 'field')}
+                          {section.description && ` · ${section.description}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMoveSection(index, -1, section.title)}
+                          disabled={index === 0}
+                          aria-label={`Move section ${section.title} up`}
+                        >
+                          Up
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMoveSection(index, 1, section.title)}
+                          disabled={index === sections.length - 1}
+                          aria-label={`Move section ${section.title} down`}
+                        >
+                          Down
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => editSection(section.id)}
+                          aria-label={`Edit section ${section.title}`}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleRemoveSection(section.id, section.title)}
+                          aria-label={`Remove section ${section.title}`}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+            
+            <div 
+              className="grid grid-cols-1 md:grid-cols-2 gap-4"
+              role="group"
+              aria-label={sectionBeingEdited ? 'Edit section' : 'Add a section'}
+              aria-describedby="sections-description"
+            >
+              <Input
+                label="Section Title"
+                value={sectionTitle}
+                onChange={(e) => setSectionTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    saveSection();
+                  }
+                }}
+                error={sectionError || undefined}
+                placeholder="e.g. Contact Details"
+                ref={sectionTitleInputRef}
+              />
+              <Input
+                label="Section Description"
+                value={sectionDescription}
+                onChange={(e) => setSectionDescription(e.target.value)}
+                helperText="Optional. Shown under the title on the page."
+              />
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              {sectionBeingEdited && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    clearSectionEditor();
+                    setStatusAnnouncement('Section editing cancelled.');
+                  }}
+                >
+                  Cancel
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={saveSection}
+              >
+                {sectionBeingEdited ? 'Update Section' : 'Add Section'}
+              </Button>
+            </div>
+          </div>
+          
+          <OptionSetsPanel
+            optionSets={optionSets}
+            fields={fields}
+            onAdd={addOptionSet}
+            onUpdate={updateOptionSet}
+            onRemove={removeOptionSet}
+            onAnnounce={setStatusAnnouncement}
+          />
+          
           <div className="border-t border-gray-200 pt-4">
             <h3 
               className="text-lg font-medium text-gray-800 mb-4"
@@ -387,12 +1285,9 @@ export default function DynamicForm() {
                     aria-describedby={errors.type ? "type-error" : undefined}
                     aria-invalid={!!errors.type}
                   >
-                    <option value="text">Text</option>
-                    <option value="email">Email</option>
-                    <option value="number">Number</option>
-                    <option value="checkbox">Checkbox</option>
-                    <option value="radio">Radio</option>
-                    <option value="select">Select</option>
+                    {Object.entries(fieldTypeLabels).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
                   </select>
                   {errors.type && (
                     <FormError message={errors.type.message} id="type-error" />
@@ -400,6 +1295,53 @@ export default function DynamicForm() {
                 </div>
               </div>
               
+              {sections.length > 0 && (
+                <div className="space-y-2">
+                  <label 
+                    htmlFor="fieldSection" 
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Section
+                  </label>
+                  <select
+                    id="fieldSection"
+                    className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    {...register('sectionId')}
+                  >
+                    {sections.map((section, index) => (
+                      <option key={section.id} value={section.id}>
+                        {index + 1}. {section.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              
+              {fieldType !== 'group' && fieldType !== 'calculated' && (
+                <Input
+                  label="Prefill From Query Parameter"
+                  {...register('prefillParam', {
+                    setValueAs: (value?: string) => value?.trim() || undefined,
+                    validate: value => {
+                      if (value === undefined) {
+                        return fieldType !== 'hidden' || 'Hidden fields need a query parameter to take their answer from';
+                      }
+                      const result = prefillParamSchema.safeParse(value);
+                      return result.success || result.error.issues[0].message;
+                    },
+                  })}
+                  error={errors.prefillParam?.message}
+                  helperText={fieldType === 'hidden'
+                    ? 'Hidden fields are never shown; their answer comes from this parameter of the form link, e.g. campaign for ?campaign=spring'
+                    : 'Optional. Answers the field from the form link, e.g. email for ?email=jane@example.com. Respondents can still change the answer.'}
+                  placeholder="e.g. campaign"
+                  className="font-mono"
+                  required={fieldType === 'hidden'}
+                  aria-required={fieldType === 'hidden'}
+                />
+              )}
+              
+              {fieldType !== 'calculated' && fieldType !== 'hidden' && (
               <div className="flex items-center">
                 <input
                   id="fieldRequired"
@@ -418,77 +1360,565 @@ export default function DynamicForm() {
                   Check this box if users must complete this field
                 </p>
               </div>
+              )}
+              
+              {fieldType === 'calculated' && (
+                <div className="space-y-4" role="group" aria-label="Formula">
+                  <Input
+                    label="Formula"
+                    {...register('formula', {
+                      validate: value => {
+                        const parsed = parseFormula(value || '');
+                        return parsed.success || parsed.error;
+                      },
+                    })}
+                    error={errors.formula?.message}
+                    helperText="Refer to fields by id in braces, e.g. {quantity} * {price}. Supports + - * / %, comparisons, and, or, not, if(condition, then, else), sum, count, min, max, round, floor, ceil and abs."
+                    placeholder="e.g. round({subtotal} * 1.2, 2)"
+                    className="font-mono"
+                    required
+                    aria-required="true"
+                  />
+                  
+                  {formulaSourceFields.length > 0 && (
+                    <div className="space-y-2">
+                      <label htmlFor="formulaReference" className="block text-sm font-medium text-gray-700">
+                        Insert Field
+                      </label>
+                      <select
+                        id="formulaReference"
+                        value=""
+                        onChange={e => insertFormulaReference(e.target.value)}
+                        className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      >
+                        <option value="">Choose a field to reference...</option>
+                        {formulaSourceFields.map(field => (
+                          <option key={field.id} value={field.id}>
+                            {field.label} ({`{${field.id}}`})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+              
+              {/* Validation constraints for the selected type */}
+              {['text', 'textarea', 'email', 'url', 'phone'].includes(fieldType) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4" role="group" aria-label="Text constraints">
+                  <Input
+                    label="Minimum Length"
+                    type="number"
+                    min={0}
+                    {...register('validation.minLength', { setValueAs: toOptionalNumber })}
+                    error={errors.validation?.minLength?.message}
+                  />
+                  <Input
+                    label="Maximum Length"
+                    type="number"
+                    min={0}
+                    {...register('validation.maxLength', {
+                      setValueAs: toOptionalNumber,
+                      validate: (value, values) =>
+                        value === undefined ||
+                        values.validation?.minLength === undefined ||
+                        value >= values.validation.minLength ||
+                        'Maximum length must not be less than the minimum length',
+                    })}
+                    error={errors.validation?.maxLength?.message}
+                  />
+                  <Input
+                    label="Pattern"
+                    {...register('validation.pattern', {
+                      setValueAs: (value: string | undefined) => value || undefined,
+                      validate: value => {
+                        if (!value) return true;
+                        if (hasUnsafeRepetition(value)) return 'Pattern must not repeat a group with repetition or alternatives, such as (a+)+ or (a|b)*';
+                        return compilePattern(value) !== null || 'Pattern is not a valid regular expression';
+                      },
+                    })}
+                    error={errors.validation?.pattern?.message}
+                    helperText="A regular expression the answer must match, e.g. ^[0-9]{5}$"
+                    placeholder="e.g. ^[0-9]{5}$"
+                  />
+                  <Input
+                    label="Pattern Message"
+                    {...register('validation.patternMessage', {
+                      setValueAs: (value: string | undefined) => value || undefined,
+                    })}
+                    helperText="Shown to respondents to describe the expected format"
+                    placeholder="e.g. Enter a 5 digit ZIP code"
+                  />
+                </div>
+              )}
+              
+              {['number', 'range'].includes(fieldType) && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4" role="group" aria-label="Number constraints">
+                  <Input
+                    label="Minimum Value"
+                    type="number"
+                    step="any"
+                    {...register('validation.min', { setValueAs: toOptionalNumber })}
+                    error={errors.validation?.min?.message}
+                  />
+                  <Input
+                    label="Maximum Value"
+                    type="number"
+                    step="any"
+                    {...register('validation.max', {
+                      setValueAs: toOptionalNumber,
+                      validate: (value, values) =>
+                        value === undefined ||
+                        values.validation?.min === undefined ||
+                        value >= values.validation.min ||
+                        'Maximum value must not be less than the minimum value',
+                    })}
+                    error={errors.validation?.max?.message}
+                  />
+                  <Input
+                    label="Step"
+                    type="number"
+                    step="any"
+                    {...register('validation.step', {
+                      setValueAs: toOptionalNumber,
+                      validate: value => value === undefined || value > 0 || 'Step must be greater than zero',
+                    })}
+                    error={errors.validation?.step?.message}
+                  />
+                </div>
+              )}
+              
+              {fieldType === 'rating' && (
+                <Input
+                  label="Number of Stars"
+                  type="number"
+                  min={1}
+                  max={10}
+                  {...register('validation.max', {
+                    setValueAs: toOptionalNumber,
+                    validate: value =>
+                      value === undefined ||
+                      (Number.isInteger(value) && value >= 1 && value <= 10) ||
+                      'Number of stars must be a whole number from 1 to 10',
+                  })}
+                  error={errors.validation?.max?.message}
+                  helperText="Defaults to 5 stars"
+                />
+              )}
+              
+              {['checkbox', 'multiselect'].includes(fieldType) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4" role="group" aria-label="Selection constraints">
+                  <Input
+                    label="Minimum Selected"
+                    type="number"
+                    min={0}
+                    {...register('validation.minSelected', { setValueAs: toOptionalNumber })}
+                    error={errors.validation?.minSelected?.message}
+                    helperText={fieldType === 'checkbox' ? 'Applies when the checkbox has options' : undefined}
+                  />
+                  <Input
+                    label="Maximum Selected"
+                    type="number"
+                    min={0}
+                    {...register('validation.maxSelected', {
+                      setValueAs: toOptionalNumber,
+                      validate: (value, values) =>
+                        value === undefined ||
+                        values.validation?.minSelected === undefined ||
+                        value >= values.validation.minSelected ||
+                        'Maximum selected must not be less than the minimum selected',
+                    })}
+                    error={errors.validation?.maxSelected?.message}
+                    helperText={fieldType === 'checkbox' ? 'Applies when the checkbox has options' : undefined}
+                  />
+                </div>
+              )}
+              
+              {fieldType === 'group' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4" role="group" aria-label="Repeat constraints">
+                  <Input
+                    label="Minimum Entries"
+                    type="number"
+                    min={0}
+                    {...register('validation.minRepeats', { setValueAs: toOptionalNumber })}
+                    error={errors.validation?.minRepeats?.message}
+                    helperText="Required groups need at least one entry"
+                  />
+                  <Input
+                    label="Maximum Entries"
+                    type="number"
+                    min={1}
+                    {...register('validation.maxRepeats', {
+                      setValueAs: toOptionalNumber,
+                      validate: (value, values) =>
+                        value === undefined ||
+                        values.validation?.minRepeats === undefined ||
+                        value >= values.validation.minRepeats ||
+                        'Maximum entries must not be less than the minimum entries',
+                    })}
+                    error={errors.validation?.maxRepeats?.message}
+                    helperText="Defaults to 20 entries"
+                  />
+                </div>
+              )}
+              
+              {/* Fields repeated in each entry of a group */}
+              {fieldType === 'group' && (
+                <div className="mt-4" role="region" aria-labelledby="group-fields-heading">
+                  <p className="block text-sm font-medium text-gray-700 mb-2" id="group-fields-heading">
+                    Group Fields
+                    <span className="text-red-500 ml-1" aria-hidden="true">*</span>
+                    <span className="sr-only">(Required)</span>
+                  </p>
+                  
+                  <div className="space-y-3">
+                    {groupChildren.length === 0 && (
+                      <p className="text-sm text-gray-500">
+                        No fields added yet. Respondents fill in these fields once for each entry they add.
+                      </p>
+                    )}
+                    
+                    {groupChildren.map((child, index) => {
+                      const childType = watch(`fields.${index}.type`);
+                      
+                      return (
+                        <div
+                          key={child.id}
+                          className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto_auto] items-start gap-2 rounded-md border border-gray-200 p-3"
+                          role="group"
+                          aria-label={`Group field ${index + 1}`}
+                        >
+                          <Input
+                            label="Label"
+                            {...register(`fields.${index}.label`, { required: 'Label is required' })}
+                            error={errors.fields?.[index]?.label?.message}
+                            placeholder="e.g. Child's name"
+                            required
+                            aria-required="true"
+                          />
+                          <div className="space-y-2">
+                            <label 
+                              htmlFor={`groupFieldType-${index}`}
+                              className="block text-sm font-medium text-gray-700"
+                            >
+                              Type
+                            </label>
+                            <select
+                              id={`groupFieldType-${index}`}
+                              className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                              {...register(`fields.${index}.type`)}
+                            >
+                              {groupChildTypeLabels.map(([type, label]) => (
+                                <option key={type} value={type}>{label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="flex items-center md:pt-8">
+                            <input
+                              id={`groupFieldRequired-${index}`}
+                              type="checkbox"
+                              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                              {...register(`fields.${index}.required`)}
+                            />
+                            <label 
+                              htmlFor={`groupFieldRequired-${index}`}
+                              className="ml-2 text-sm text-gray-700"
+                            >
+                              Required
+                            </label>
+                          </div>
+                          <div className="md:pt-7">
+                            <Button
+                              type="button"
+                              onClick={() => removeGroupChildAt(index)}
+                              size="sm"
+                              variant="destructive"
+                              aria-label={`Remove group field ${watch(`fields.${index}.label`) || index + 1}`}
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                          
+                          {optionFieldTypes.includes(childType) && (
+                            <div className="md:col-span-4">
+                              <Controller
+                                control={control}
+                                name={`fields.${index}.options`}
+                                rules={{
+                                  validate: options => {
+                                    if (childType !== 'checkbox' && !(options || []).some(option => option.label)) {
+                                      return 'Add at least one option';
+                                    }
+                                    return findDuplicateOptionValues((options || []).filter(option => option.value)).size === 0 ||
+                                      'Option values must be unique';
+                                  },
+                                }}
+                                render={({ field }) => (
+                                  <div role="group" aria-labelledby={`groupFieldOptions-${index}`}>
+                                    <p id={`groupFieldOptions-${index}`} className="block text-sm font-medium text-gray-700 mb-2">
+                                      Options
+                                    </p>
+                                    <OptionListEditor
+                                      id={`group-field-${index}-options`}
+                                      options={field.value || []}
+                                      onChange={field.onChange}
+                                      onAnnounce={setStatusAnnouncement}
+                                      emptyMessage={childType === 'checkbox'
+                                        ? 'No options added. This field will be a single checkbox.'
+                                        : 'No options added yet. Use the button below to add options.'}
+                                      error={errors.fields?.[index]?.options?.message || errors.fields?.[index]?.options?.root?.message}
+                                    />
+                                  </div>
+                                )}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                    
+                    <FormError message={errors.fields?.root?.message} id="group-fields-error" />
+                    
+                    <Button
+                      type="button"
+                      onClick={addGroupChild}
+                      variant="outline"
+                      size="sm"
+                      aria-label="Add field to group"
+                    >
+                      Add Group Field
+                    </Button>
+                  </div>
+                </div>
+              )}
               
               {/* Options for select, radio, or checkbox fields */}
-              {['select', 'radio'].includes(fieldType) && (
+              {optionFieldTypes.includes(fieldType) && (
                 <div className="mt-4" role="region" aria-labelledby="options-heading">
                   <label className="block text-sm font-medium text-gray-700 mb-2" id="options-heading">
-                    Options<span className="text-red-500 ml-1" aria-hidden="true">*</span>
-                    <span className="sr-only">(Required)</span>
+                    Options
+                    {fieldType !== 'checkbox' && (
+                      <>
+                        <span className="text-red-500 ml-1" aria-hidden="true">*</span>
+                        <span className="sr-only">(Required)</span>
+                      </>
+                    )}
                   </label>
                   
-                  <div className="space-y-2">
+                  {dependentOptionFieldTypes.includes(fieldType) && optionParentFields.length > 0 && (
+                    <div className="flex items-center mb-4">
+                      <input
+                        type="checkbox"
+                        id="fieldHasDependentOptions"
+                        checked={!!dependentOptions}
+                        onChange={e => toggleDependentOptions(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                        aria-describedby="dependent-options-description"
+                      />
+                      <label htmlFor="fieldHasDependentOptions" className="ml-2 block text-sm text-gray-700">
+                        Options depend on the answer to another field
+                      </label>
+                      <span id="dependent-options-description" className="sr-only">
+                        Offer different options for each answer to a select or radio field, such as the states of the chosen country
+                      </span>
+                    </div>
+                  )}
+                  
+                  {dependentOptions && dependentOptionFieldTypes.includes(fieldType) ? (
+                    <Controller
+                      control={control}
+                      name="dependentOptions"
+                      rules={{
+                        validate: value => {
+                          const lists = Object.values(value?.optionsByValue || {});
+                          if (!lists.some(options => options.some(option => option.label.trim()))) {
+                            return 'Add options for at least one answer';
+                          }
+                          return lists.every(options =>
+                            findDuplicateOptionValues(options.filter(option => option.value)).size === 0
+                          ) || 'Option values must be unique for each answer';
+                        },
+                      }}
+                      render={({ field }) => (
+                        <DependentOptionsEditor
+                          parentFields={optionParentFields}
+                          value={field.value ?? dependentOptions}
+                          onChange={field.onChange}
+                          onAnnounce={setStatusAnnouncement}
+                          scored={!!quiz}
+                          error={errors.dependentOptions?.message}
+                        />
+                      )}
+                    />
+                  ) : (
+                  <>
+                  {optionSets.length > 0 && (
+                    <div className="space-y-2 mb-4">
+                      <label 
+                        htmlFor="fieldOptionSet" 
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Options Source
+                      </label>
+                      <select
+                        id="fieldOptionSet"
+                        className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                        {...register('optionSetId', {
+                          setValueAs: (value: string | undefined) => value || undefined,
+                        })}
+                      >
+                        <option value="">Custom options for this field</option>
+                        {optionSets.map(optionSet => (
+                          <option key={optionSet.id} value={optionSet.id}>
+                            Option set: {optionSet.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  
+                  {selectedOptionSet ? (
+                    <p className="text-sm text-gray-500">
+                      Uses {pluralize(selectedOptionSet.options.length, 'option')} from &ldquo;{selectedOptionSet.name}&rdquo;
+                      {`: ${selectedOptionSet.options.slice(0, 5).map(option => option.label).join(', ')}`}
+                      {selectedOptionSet.options.length > 5 && ', ...'}
+                      . Edit the set under Option Sets to change them for every field that uses it.
+                      {quiz && ' Options from a set are not scored; use custom options for quiz questions.'}
+                    </p>
+                  ) : (
                     <Controller
                       control={control}
                       name="options"
+                      rules={{
+                        validate: options =>
+                          findDuplicateOptionValues((options || []).filter(option => option.value)).size === 0 ||
+                          'Option values must be unique',
+                      }}
                       render={({ field }) => (
-                        <>
-                          {(field.value || []).length === 0 && (
-                            <p className="text-sm text-gray-500 mb-2">
-                              No options added yet. Use the button below to add options.
-                            </p>
-                          )}
-                          
-                          {(field.value || []).map((option, index) => (
-                            <div key={index} className="flex items-center space-x-2">
-                              <input
-                                type="text"
-                                value={option.label}
-                                onChange={e => handleOptionChange(index, e.target.value)}
-                                className="flex-1 rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                                placeholder={`Option ${index + 1}`}
-                                aria-label={`Option ${index + 1}`}
-                              />
-                              <Button
-                                type="button"
-                                onClick={() => removeOption(index)}
-                                size="sm"
-                                variant="destructive"
-                                aria-label={`Remove option ${option.label || index + 1}`}
-                              >
-                                Remove
-                              </Button>
-                            </div>
-                          ))}
-                          <Button
-                            type="button"
-                            onClick={addOption}
-                            variant="outline"
-                            size="sm"
-                            className="mt-2"
-                            aria-label="Add new option"
-                          >
-                            Add Option
-                          </Button>
-                        </>
+                        <OptionListEditor
+                          id="field-options"
+                          options={field.value || []}
+                          onChange={field.onChange}
+                          onAnnounce={setStatusAnnouncement}
+                          scored={!!quiz && (fieldType !== 'checkbox' || (field.value || []).length > 0)}
+                          emptyMessage={fieldType === 'checkbox'
+                            ? 'No options added. This field will be a single checkbox; add options to create a checkbox group.'
+                            : 'No options added yet. Use the button below to add options.'}
+                          error={errors.options?.message || errors.options?.root?.message}
+                        />
                       )}
                     />
-                  </div>
+                  )}
+                  </>
+                  )}
+                  
+                  {quiz && (
+                    <div className="mt-4">
+                      <Input
+                        label="Explanation"
+                        {...register('explanation')}
+                        helperText="Optional. Shown with the question's result when respondents can see their score."
+                        placeholder="e.g. Fire doors must stay closed to slow the spread of smoke"
+                      />
+                    </div>
+                  )}
                 </div>
               )}
               
+              {/* Visibility rules */}
+              <div className="mt-4" role="region" aria-labelledby="visibility-heading">
+                <p className="block text-sm font-medium text-gray-700 mb-2" id="visibility-heading">
+                  Visibility
+                </p>
+                
+                {ruleSourceFields.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    Add other fields first to show this field only when they have certain answers.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {(visibleWhen?.conditions || []).length === 0 ? (
+                      <p className="text-sm text-gray-500 mb-2">
+                        This field is always shown.
+                      </p>
+                    ) : (
+                      <div className="flex items-center space-x-2 text-sm text-gray-700">
+                        <label htmlFor="visibilityCombinator">Show this field when</label>
+                        <select
+                          id="visibilityCombinator"
+                          value={visibleWhen?.combinator ?? 'and'}
+                          onChange={e => visibleWhen && setValue('visibleWhen', {
+                            ...visibleWhen,
+                            combinator: e.target.value as 'and' | 'or',
+                          })}
+                          className="rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                        >
+                          <option value="and">all conditions match</option>
+                          <option value="or">any condition matches</option>
+                        </select>
+                      </div>
+                    )}
+                    
+                    {(visibleWhen?.conditions || []).map((condition, index) => (
+                      <div 
+                        key={index} 
+                        className="flex items-center space-x-2"
+                        role="group"
+                        aria-label={`Condition ${index + 1}`}
+                      >
+                        <select
+                          value={condition.fieldId}
+                          onChange={e => updateCondition(index, { fieldId: e.target.value, value: '' })}
+                          className="flex-1 rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                          aria-label={`Condition ${index + 1} field`}
+                        >
+                          {ruleSourceFields.map(field => (
+                            <option key={field.id} value={field.id}>{field.label}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={condition.operator}
+                          onChange={e => updateCondition(index, { operator: e.target.value as VisibilityCondition['operator'] })}
+                          className="rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                          aria-label={`Condition ${index + 1} operator`}
+                        >
+                          {Object.entries(visibilityOperatorLabels).map(([operator, label]) => (
+                            <option key={operator} value={operator}>{label}</option>
+                          ))}
+                        </select>
+                        {renderConditionValueInput(condition, index)}
+                        <Button
+                          type="button"
+                          onClick={() => removeCondition(index)}
+                          size="sm"
+                          variant="destructive"
+                          aria-label={`Remove condition ${index + 1}`}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ))}
+                    
+                    <Button
+                      type="button"
+                      onClick={addCondition}
+                      variant="outline"
+                      size="sm"
+                      className="mt-2"
+                      aria-label="Add visibility condition"
+                    >
+                      Add Condition
+                    </Button>
+                  </div>
+                )}
+              </div>
+              
               <div className="flex justify-end space-x-2 pt-4">
                 <Button
                   type="button"
                   onClick={() => {
-                    setFieldBeingEdited(null);
-                    reset({
-                      id: '',
-                      label: '',
-                      type: 'text',
-                      required: false,
-                      options: [],
-                    });
+                    clearFieldBeingEdited();
+                    reset(emptyFieldValues);
                     setStatusAnnouncement('Field editing cancelled.');
                     
                     // Return focus to add field button
@@ -516,12 +1946,106 @@ export default function DynamicForm() {
         
         {/* Field list */}
         <div className="mt-8">
-          <h3 
-            className="text-lg font-medium text-gray-800 mb-4"
-            id="form-fields-heading"
-          >
-            Form Fields
-          </h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 
+              className="text-lg font-medium text-gray-800"
+              id="form-fields-heading"
+            >
+              Form Fields
+            </h3>
+            
+            <div className="flex flex-wrap gap-2" role="toolbar" aria-label="Form fields actions">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json,application/schema+json"
+                className="sr-only"
+                tabIndex={-1}
+                aria-hidden="true"
+                onChange={handleImportJsonSchema}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => importInputRef.current?.click()}
+              >
+                Import JSON Schema
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleExportJsonSchema}
+                disabled={fields.length === 0}
+              >
+                Export JSON Schema
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleExportCode}
+                disabled={fields.length === 0}
+              >
+                Export as Code
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleUndo}
+                disabled={!canUndo}
+                aria-keyshortcuts="Control+Z Meta+Z"
+              >
+                Undo
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleRedo}
+                disabled={!canRedo}
+                aria-keyshortcuts="Control+Shift+Z Meta+Shift+Z Control+Y"
+              >
+                Redo
+              </Button>
+            </div>
+          </div>
+          
+          <FormError message={importError || undefined} className="mb-4" id="import-error" />
+          
+          {importReport && (
+            <div 
+              className="mb-4 p-4 bg-yellow-50 text-yellow-800 rounded-md"
+              role="region"
+              aria-labelledby="import-report-heading"
+            >
+              <p className="font-medium" id="import-report-heading">
+                Some parts of {importReport.fileName} could not be imported
+              </p>
+              <ul className="mt-2 list-disc list-inside text-sm">
+                {importReport.unsupported.map(message => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="mt-2"
+                onClick={() => setImportReport(null)}
+              >
+                Dismiss
+              </Button>
+            </div>
+          )}
+          
+          {fields.length > 1 && (
+            <p className="text-sm text-gray-500 mb-4" aria-hidden="true">
+              Drag rows to reorder fields, or focus a row and press Space to pick it up and the arrow keys to move it.
+            </p>
+          )}
           
           <div 
             ref={fieldListRef}
@@ -542,12 +2066,18 @@ export default function DynamicForm() {
               </div>
             ) : (
               <div className="border border-gray-200 rounded-md overflow-hidden">
+                <p id="field-reorder-instructions" className="sr-only">
+                  Press Enter to edit this field. Press Space to pick it up, the up and down arrow keys to move it, and Space again to drop it.
+                </p>
                 <table 
                   className="min-w-full divide-y divide-gray-200"
                   aria-labelledby="form-fields-heading"
                 >
                   <thead className="bg-gray-50">
                     <tr>
+                      <th scope="col" className="w-10 px-3 py-3">
+                        <span className="sr-only">Reorder</span>
+                      </th>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Label
                       </th>
@@ -571,15 +2101,44 @@ export default function DynamicForm() {
                         key={field.id}
                         id={`field-row-${index}`}
                         tabIndex={0}
+                        draggable
                         onKeyDown={(e) => handleFieldListKeyDown(e, field, index)}
-                        className="hover:bg-gray-50 focus:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500"
-                        aria-label={`Field ${index + 1}: ${field.label}, type: ${field.type}, ${field.required ? 'required' : 'optional'}`}
+                        onDragStart={(e) => handleDragStart(e, index)}
+                        onDragOver={(e) => handleDragOver(e, index)}
+                        onDrop={(e) => handleDrop(e, index)}
+                        onDragEnd={handleDragEnd}
+                        className={cn(
+                          "hover:bg-gray-50 focus:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500",
+                          {
+                            "bg-indigo-50 focus:bg-indigo-50": grabbedFieldId === field.id,
+                            "opacity-50": draggedIndex === index,
+                            "border-t-2 border-indigo-500": dropTargetIndex === index && draggedIndex !== null && draggedIndex > index,
+                            "border-b-2 border-indigo-500": dropTargetIndex === index && draggedIndex !== null && draggedIndex < index,
+                          }
+                        )}
+                        aria-label={`Field ${index + 1}: ${field.label}, type: ${fieldTypeLabels[field.type]}, ${field.required ? 'required' : 'optional'}${field.visibleWhen?.conditions.length ? ', conditional' : ''}${sections.length > 0 ? `, section: ${sections.find(section => section.id === resolveFieldSectionId({ sections }, field))?.title}` : ''}${grabbedFieldId === field.id ? ', picked up' : ''}`}
+                        aria-describedby="field-reorder-instructions"
                       >
+                        <td className="w-10 px-3 py-4 text-gray-400 cursor-grab" aria-hidden="true">
+                          <svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path d="M7 4a1 1 0 11-2 0 1 1 0 012 0zm0 6a1 1 0 11-2 0 1 1 0 012 0zm-1 7a1 1 0 100-2 1 1 0 000 2zm9-13a1 1 0 11-2 0 1 1 0 012 0zm-1 7a1 1 0 100-2 1 1 0 000 2zm1 5a1 1 0 11-2 0 1 1 0 012 0z" />
+                          </svg>
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                           {field.label}
+                          {sections.length > 0 && (
+                            <span className="ml-2 inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                              {sections.find(section => section.id === resolveFieldSectionId({ sections }, field))?.title}
+                            </span>
+                          )}
+                          {field.visibleWhen && field.visibleWhen.conditions.length > 0 && (
+                            <span className="ml-2 inline-flex items-center rounded-full bg-indigo-50 px-2 py-0.5 text-xs text-indigo-700">
+                              Conditional
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {field.type}
+                          {fieldTypeLabels[field.type]}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {field.required ? (
@@ -603,11 +2162,24 @@ export default function DynamicForm() {
                           ) : 'No'}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {field.options && field.options.length > 0 ? (
+                          {field.type === 'group' ? (
+                            <span>Fields: {(field.fields || []).map(child => child.label).join(', ')}</span>
+                          ) : field.type === 'calculated' ? (
+                            <span>Formula: <code>{field.formula}</code></span>
+                          ) : field.type === 'hidden' ? (
+                            <span>Prefilled from <code>?{field.prefillParam}</code></span>
+                          ) : field.dependentOptions ? (
+                            <span>Depends on: {fields.find(f => f.id === field.dependentOptions?.parentFieldId)?.label}</span>
+                          ) : field.optionSetId ? (
+                            <span>Set: {optionSets.find(optionSet => optionSet.id === field.optionSetId)?.name}</span>
+                          ) : field.options && field.options.length > 0 ? (
                             <span>{field.options.map(o => o.label).join(', ')}</span>
                           ) : (
                             <span className="text-gray-400">None</span>
                           )}
+                          {field.type !== 'hidden' && field.prefillParam && (
+                            <span className="block">Prefill: <code>?{field.prefillParam}</code></span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           <div className="flex justify-end space-x-2">
@@ -668,6 +2240,15 @@ export default function DynamicForm() {
           </div>
         </div>
       </div>
+      
+      {/* Side by side on large screens, toggled on small ones */}
+      <div className={cn("mt-6 lg:mt-0 lg:block lg:sticky lg:top-4 lg:max-h-[calc(100vh-2rem)] lg:overflow-y-auto", showPreview ? "block" : "hidden")}>
+        <DynamicFormPreview id="form-preview" definition={previewDefinition} />
+      </div>
+      
+      <div className="lg:col-span-2">
+        <DynamicFormList activeFormId={savedFormId} reloadKey={formListVersion} />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { FormError } from '@/components/ui/FormError';
+import { pluralize } from '@/lib/dynamic-forms/constraints';
+import { cn, formatDate } from '@/lib/utils';
+
+interface DynamicFormListProps {
+  // Form currently open in the builder
+  activeFormId: number | null;
+  // Changes whenever the builder saves, so the list reloads
+  reloadKey: number;
+}
+
+interface SavedFormSummary {
+  id: number;
+  formName: string;
+  fieldCount: number;
+  publishedVersion: number | null;
+  updatedAt: string;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+}
+
+// Number of forms shown per page
+const PAGE_SIZE = 10;
+
+/**
+ * Saved Dynamic Forms List Component
+ *
+ * Lists saved forms so they can be reopened in the builder, duplicated or deleted.
+ * - Paginated list with labelled navigation
+ * - Actions name the form they act on for screen readers
+ * - ARIA live region announces loading and action results
+ */
+export default function DynamicFormList({ activeFormId, reloadKey }: DynamicFormListProps) {
+  const router = useRouter();
+
+  const [page, setPage] = useState(1);
+  const [forms, setForms] = useState<SavedFormSummary[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingFormId, setPendingFormId] = useState<number | null>(null);
+  const [listVersion, setListVersion] = useState(0);
+
+  // State for accessibility announcements
+  const [statusAnnouncement, setStatusAnnouncement] = useState<string | null>(null);
+
+  // Load the current page whenever it changes or a form is saved
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadForms = async () => {
+      setIsLoading(true);
+      setLoadError(null);
+
+      try {
+        const response = await fetch(`/api/forms/dynamic?page=${page}&pageSize=${PAGE_SIZE}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to load saved forms');
+        }
+
+        const result = await response.json();
+        if (cancelled) return;
+
+        // Step back when the last form on a page was removed
+        if (result.forms.length === 0 && page > 1) {
+          setPage(page - 1);
+          return;
+        }
+
+        setForms(result.forms);
+        setPagination(result.pagination);
+      } catch (error) {
+        if (!cancelled) {
+          setLoadError(error instanceof Error ? error.message : 'An unexpected error occurred');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadForms();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page, reloadKey, listVersion]);
+
+  // Copy a form into a new unpublished draft
+  const handleDuplicate = async (form: SavedFormSummary) => {
+    setPendingFormId(form.id);
+    setStatusAnnouncement(`Duplicating "${form.formName}", please wait...`);
+
+    try {
+      const response = await fetch(`/api/forms/dynamic/${form.id}/duplicate`, { method: 'POST' });
+
+      if (!response.ok) {
+        throw new Error('Failed to duplicate form');
+      }
+
+      const result = await response.json();
+      setStatusAnnouncement(`Created "${result.formName}". It is listed first.`);
+      setPage(1);
+      setListVersion(prev => prev + 1);
+    } catch (error) {
+      setStatusAnnouncement(`Error duplicating form: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`);
+    } finally {
+      setPendingFormId(null);
+    }
+  };
+
+  // Delete a form along with its published versions and responses
+  const handleDelete = async (form: SavedFormSummary) => {
+    if (!window.confirm(`Delete "${form.formName}"? Its published versions and responses will be deleted too.`)) {
+      return;
+    }
+
+    setPendingFormId(form.id);
+    setStatusAnnouncement(`Deleting "${form.formName}", please wait...`);
+
+    try {
+      const response = await fetch(`/api/forms/dynamic/${form.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete form');
+      }
+
+      setStatusAnnouncement(`Form "${form.formName}" has been deleted.`);
+      setListVersion(prev => prev + 1);
+
+      // The builder cannot keep editing a form that no longer exists
+      if (form.id === activeFormId) {
+        router.replace('/forms/dynamic');
+      }
+    } catch (error) {
+      setStatusAnnouncement(`Error deleting form: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`);
+    } finally {
+      setPendingFormId(null);
+    }
+  };
+
+  // Clear announcements after they've been read
+  useEffect(() => {
+    if (statusAnnouncement) {
+      const timer = setTimeout(() => {
+        setStatusAnnouncement(null);
+      }, 5000);
+
+      return () => clearTimeout(timer);
+    }
+  }, [statusAnnouncement]);
+
+  return (
+    <section className="mt-8 bg-white shadow-sm rounded-lg p-6" aria-labelledby="saved-forms-heading">
+      <div aria-live="polite" className="sr-only" role="status">
+        {statusAnnouncement}
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800" id="saved-forms-heading">
+          Saved Forms
+        </h2>
+        {pagination && (
+          <p className="text-sm text-gray-500">{pluralize(pagination.total, 'form')}</p>
+        )}
+      </div>
+
+      <FormError message={loadError || undefined} id="saved-forms-error" />
+
+      {isLoading && forms.length === 0 ? (
+        <p className="text-gray-500" role="status">Loading saved forms...</p>
+      ) : forms.length === 0 && !loadError ? (
+        <p className="text-center py-8 text-gray-500 border border-dashed border-gray-300 rounded-md bg-gray-50">
+          No saved forms yet. Forms you save appear here.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200" aria-busy={isLoading}>
+          {forms.map(form => {
+            const isActive = form.id === activeFormId;
+            const isPending = form.id === pendingFormId;
+
+            return (
+              <li
+                key={form.id}
+                className={cn("py-3 flex flex-wrap items-center justify-between gap-3", {
+                  "bg-indigo-50 -mx-2 px-2 rounded-md": isActive,
+                })}
+                aria-current={isActive ? 'true' : undefined}
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {form.formName}
+                    {isActive && <span className="ml-2 text-sm text-indigo-700">(open in builder)</span>}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {pluralize(form.fieldCount, 'field')}
+                    {' · '}
+                    {form.publishedVersion === null ? 'Draft' : `Version ${form.publishedVersion} published`}
+                    {' · '}
+                    Updated {formatDate(new Date(form.updatedAt))}
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  {!isActive && (
+                    <Link
+                      href={`/forms/dynamic?id=${form.id}`}
+                      className="inline-flex items-center h-9 px-3 rounded-md border border-input text-sm font-medium hover:bg-accent focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      aria-label={`Edit ${form.formName}`}
+                    >
+                      Edit
+                    </Link>
+                  )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDuplicate(form)}
+                    disabled={isPending}
+                    aria-label={`Duplicate ${form.formName}`}
+                  >
+                    Duplicate
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDelete(form)}
+                    disabled={isPending}
+                    aria-label={`Delete ${form.formName}`}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <nav className="mt-4 flex items-center justify-between" aria-label="Saved forms pages">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || isLoading}
+          >
+            Previous
+          </Button>
+          <p className="text-sm text-gray-500" aria-live="polite">
+            Page {pagination.page} of {pagination.totalPages}
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pagination.totalPages || isLoading}
+          >
+            Next
+          </Button>
+        </nav>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import DynamicFormRenderer from '@/components/forms/DynamicFormRenderer';
+import type { DynamicFormValues } from '@/lib/schemas/form-schemas';
+
+interface DynamicFormPreviewProps {
+  id: string;
+  // Form as it is currently configured in the builder
+  definition: DynamicFormValues;
+}
+
+/**
+ * Dynamic Form Preview Component
+ *
+ * Shows the form being built exactly as respondents will see it.
+ * - Updates as fields are added, edited or reordered
+ * - Submitting runs a test fill that validates answers without saving them
+ * - Labelled region so it can be reached from the landmarks list
+ */
+export default function DynamicFormPreview({ id, definition }: DynamicFormPreviewProps) {
+  return (
+    <section id={id} className="bg-gray-50 rounded-lg p-6" aria-labelledby="form-preview-heading">
+      <h2 className="text-xl font-semibold text-gray-800" id="form-preview-heading">
+        Live Preview
+      </h2>
+      <p className="mt-1 mb-6 text-sm text-gray-500">
+        Fill in the preview to test your form. Submitting checks the answers without saving a response.
+      </p>
+
+      {definition.fields.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 border border-dashed border-gray-300 rounded-md bg-white">
+          Add fields to see how respondents will see your form.
+        </p>
+      ) : (
+        // Remount when the form changes so answers start from the new defaults
+        <DynamicFormRenderer
+          key={JSON.stringify(definition)}
+          formId={null}
+          definition={definition}
+        />
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,1110 @@
+'use client';
+
+import { useState, useRef, useMemo, useEffect, useCallback } from 'react';
+import { useForm, useFieldArray, get, type Control } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { FormError } from '@/components/ui/FormError';
+import { StepIndicator } from '@/components/ui/StepIndicator';
+import {
+  type DynamicAnswerValues,
+  type DynamicFieldValues,
+  type DynamicFormValues,
+  type DynamicResponseMetadataValues,
+  type DynamicResponseValues
+} from '@/lib/schemas/form-schemas';
+import { compileDynamicFormSchema } from '@/lib/dynamic-forms/compile-schema';
+import { cn } from '@/lib/utils';
+import { getVisibleFieldIds } from '@/lib/dynamic-forms/visibility';
+import { getFormPages } from '@/lib/dynamic-forms/sections';
+import { resolveDependentOptions, resolveOptionSets } from '@/lib/dynamic-forms/options';
+import { scoreQuiz, type QuizResult } from '@/lib/dynamic-forms/quiz';
+import { computeCalculatedValues, formatCalculatedValue } from '@/lib/dynamic-forms/formula';
+import {
+  describeFieldConstraints,
+  getApplicableConstraints,
+  pluralize
+} from '@/lib/dynamic-forms/constraints';
+import {
+  getRangeBounds,
+  getRatingScale,
+  getRepeatBounds,
+  isCheckboxGroup,
+  isMultiValueField
+} from '@/lib/dynamic-forms/field-types';
+
+interface DynamicFormRendererProps {
+  // Form responses are submitted to; null renders a preview that only validates answers
+  formId: string | null;
+  definition: DynamicFormValues;
+  // Answers prefilled from the form's URL, already checked against their fields
+  prefill?: DynamicResponseValues;
+  // Where the respondent came from, submitted with the response
+  metadata?: DynamicResponseMetadataValues;
+}
+
+// Input types used for fields rendered with the Input component
+const inputTypes: Partial<Record<DynamicFieldValues['type'], string>> = {
+  text: 'text',
+  email: 'email',
+  url: 'url',
+  phone: 'tel',
+  date: 'date',
+  time: 'time',
+  datetime: 'datetime-local',
+};
+
+// Answers of a repeatable group's entries, keyed by group id
+type GroupValues = Record<string, Record<string, DynamicAnswerValues>[]>;
+
+// Initial value for each field type
+const getDefaultValue = (field: DynamicFieldValues): DynamicAnswerValues => {
+  if (isMultiValueField(field)) return [];
+  if (field.type === 'checkbox') return false;
+  if (field.type === 'radio' || field.type === 'rating' || field.type === 'calculated') return null;
+  if (field.type === 'range') return String(getRangeBounds(field).min);
+  return '';
+};
+
+// Initial answers for a new entry of a repeatable group
+const getEntryDefaultValues = (field: DynamicFieldValues) => Object.fromEntries(
+  (field.fields || []).map(child => [child.id, getDefaultValue(child)])
+);
+
+// Repeatable groups start with as many entries as they require
+const getInitialAnswer = (field: DynamicFieldValues): DynamicResponseValues[string] => {
+  if (field.type === 'group') {
+    return Array.from({ length: getRepeatBounds(field).min }, () => getEntryDefaultValues(field));
+  }
+  return getDefaultValue(field);
+};
+
+// Points without trailing decimals, e.g. 2 or 1.5
+const formatPoints = (points: number) => String(Math.round(points * 100) / 100);
+
+/**
+ * Quiz Results Component
+ *
+ * Shows the score of a submitted quiz and whether each question earned full marks.
+ * - Results are a labelled region with one list item per question
+ * - Correct and incorrect answers are described in text, not only by colour
+ */
+function QuizResults({ result }: { result: QuizResult }) {
+  return (
+    <section className="mb-6 rounded-lg border border-gray-200 p-4" aria-labelledby="quiz-results-heading">
+      <h3 className="text-lg font-medium text-gray-800" id="quiz-results-heading">
+        Your score: {formatPoints(result.score)} out of {formatPoints(result.maxScore)}
+      </h3>
+      <ol className="mt-3 space-y-3">
+        {result.questions.map(question => (
+          <li key={question.fieldId} className="text-sm">
+            <p className="font-medium text-gray-900">{question.label}</p>
+            <p className={question.correct ? 'text-green-700' : 'text-red-700'}>
+              {question.correct ? 'Correct' : 'Not quite'}
+              {' · '}
+              {formatPoints(question.points)} of {formatPoints(question.maxPoints)} {question.maxPoints === 1 ? 'point' : 'points'}
+            </p>
+            {!question.correct && question.correctAnswers.length > 0 && (
+              <p className="text-gray-600">
+                {question.correctAnswers.length === 1 ? 'Correct answer' : 'Correct answers'}: {question.correctAnswers.join(', ')}
+              </p>
+            )}
+            {question.explanation && <p className="text-gray-600">{question.explanation}</p>}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
+
+interface RepeatableGroupProps {
+  field: DynamicFieldValues;
+  control: Control<GroupValues>;
+  // Current answers of each entry
+  entries: Record<string, unknown>[];
+  error?: string;
+  renderField: (field: DynamicFieldValues, name: string) => React.ReactNode;
+  onAnnounce: (message: string) => void;
+}
+
+/**
+ * Repeatable Group Component
+ *
+ * Renders one fieldset per entry of a repeatable group.
+ * - Entries are numbered in their legends
+ * - Add and remove buttons name the entry they act on
+ * - Focus moves into a new entry, or back to the add button after a removal
+ */
+function RepeatableGroup({ field, control, entries, error, renderField, onAnnounce }: RepeatableGroupProps) {
+  const { fields: items, append, remove } = useFieldArray({ control, name: field.id });
+  const { min, max } = getRepeatBounds(field);
+  const groupRef = useRef<HTMLFieldSetElement>(null);
+  const addButtonRef = useRef<HTMLButtonElement>(null);
+
+  const inputId = `field-${field.id}`;
+  const errorId = `${inputId}-error`;
+  const helperId = `${inputId}-helper`;
+  const helperText = describeFieldConstraints(field);
+  const canAdd = items.length < max;
+  const canRemove = items.length > min;
+
+  const handleAdd = () => {
+    append(getEntryDefaultValues(field));
+    onAnnounce(`Added ${field.label} ${items.length + 1}.`);
+
+    // Focus the first answer of the new entry
+    setTimeout(() => {
+      const newEntry = groupRef.current?.querySelector(`[data-entry="${items.length}"]`);
+      const firstField = newEntry?.querySelector('input, select, textarea') as HTMLElement | null;
+      firstField?.focus();
+    }, 100);
+  };
+
+  const handleRemove = (index: number) => {
+    remove(index);
+    onAnnounce(`Removed ${field.label} ${index + 1}. ${pluralize(items.length - 1, 'entry', 'entries')} left.`);
+
+    setTimeout(() => {
+      addButtonRef.current?.focus();
+    }, 100);
+  };
+
+  return (
+    <fieldset
+      className="space-y-4"
+      ref={groupRef}
+      aria-required={field.required}
+      aria-invalid={!!error}
+      aria-describedby={error ? errorId : helperText ? helperId : undefined}
+    >
+      <legend className="block text-sm font-medium text-gray-700">
+        {field.label}
+        {field.required && (
+          <>
+            <span className="text-red-500 ml-1" aria-hidden="true">*</span>
+            <span className="sr-only">(Required)</span>
+          </>
+        )}
+      </legend>
+
+      {items.length === 0 && (
+        <p className="text-sm text-gray-500">No entries added.</p>
+      )}
+
+      {items.map((item, index) => {
+        const entryValues = entries[index] || {};
+        // Visibility rules inside a group refer to answers in the same entry
+        const visibleChildIds = getVisibleFieldIds({ fields: field.fields || [] }, entryValues);
+
+        return (
+          <fieldset
+            key={item.id}
+            data-entry={index}
+            className="space-y-4 rounded-md border border-gray-200 p-4"
+          >
+            <legend className="px-1 text-sm font-medium text-gray-700">
+              {field.label} {index + 1}
+            </legend>
+
+            {(field.fields || [])
+              .filter(child => visibleChildIds.has(child.id))
+              .map(child => renderField(child, `${field.id}.${index}.${child.id}`))}
+
+            {canRemove && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleRemove(index)}
+                aria-label={`Remove ${field.label} ${index + 1}`}
+              >
+                Remove
+              </Button>
+            )}
+          </fieldset>
+        );
+      })}
+
+      <Button
+        ref={addButtonRef}
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleAdd}
+        disabled={!canAdd}
+        aria-label={canAdd ? `Add another ${field.label}` : `Add another ${field.label} (limit of ${max} reached)`}
+      >
+        Add {items.length === 0 ? field.label : `another ${field.label}`}
+      </Button>
+
+      {error ? (
+        <FormError message={error} id={errorId} />
+      ) : helperText ? (
+        <div className="text-sm text-gray-500" id={helperId}>
+          {helperText}
+        </div>
+      ) : null}
+    </fieldset>
+  );
+}
+
+/**
+ * Dynamic Form Renderer Component
+ *
+ * Renders a saved dynamic form definition as a fillable form and
+ * submits the answers as a response to that form.
+ * - Every field type is labelled and linked to its error message
+ * - Radio groups use fieldset/legend grouping
+ * - Fields hidden by visibility rules are removed from the form
+ * - Options that depend on another answer follow it, with changes announced
+ * - Calculated fields update live in output elements, and are recomputed on submission
+ * - Hidden fields and other prefilled answers come from the URL, and are validated like typed ones
+ * - Forms with sections are shown one page at a time, validated page by page
+ * - Keyboard navigation between pages with Alt+Arrow shortcuts
+ * - ARIA live regions for submission status and page changes
+ * - Focus returns to the top of the form after submitting
+ * - Previews run the same validation as a test fill without saving a response
+ */
+export default function DynamicFormRenderer({ formId, definition, prefill, metadata }: DynamicFormRendererProps) {
+  // State for submission status
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitSuccess, setSubmitSuccess] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  
+  // Score and feedback of the last submission, when the form is a quiz that shares them
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
+  
+  // Track the current page (0-based index into the pages with visible fields)
+  const [pageIndex, setPageIndex] = useState(0);
+  
+  // State for accessibility announcements
+  const [visibilityAnnouncement, setVisibilityAnnouncement] = useState<string | null>(null);
+  const [stepChangeAnnouncement, setStepChangeAnnouncement] = useState<string | null>(null);
+  const [statusAnnouncement, setStatusAnnouncement] = useState<string | null>(null);
+
+  // Refs for focus management
+  const formStartRef = useRef<HTMLHeadingElement>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+
+  // Compile the definition into the same Zod schema the API validates with
+  const schema = useMemo(() => compileDynamicFormSchema(definition), [definition]);
+  
+  // Fields that reference an option set are shown with the set's options
+  const form = useMemo(() => resolveOptionSets(definition), [definition]);
+  
+  // Prefilled answers stay in place when the form is reset for another response
+  const defaultValues = Object.fromEntries(
+    form.fields.map(field => [field.id, prefill?.[field.id] ?? getInitialAnswer(field)])
+  );
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    trigger,
+    setValue,
+    setError,
+    formState: { errors },
+  } = useForm<DynamicResponseValues>({
+    resolver: zodResolver(schema),
+    defaultValues,
+  });
+  
+  // Re-evaluate visibility rules whenever an answer changes
+  const values = watch();
+  const visibleFieldIds = getVisibleFieldIds(form, values);
+  // Hidden fields keep their prefilled answers without being shown
+  const isShown = (field: DynamicFieldValues) => field.type !== 'hidden' && visibleFieldIds.has(field.id);
+  
+  // Work out calculated fields from the visible answers, as the server does on submission
+  const calculatedValues = computeCalculatedValues(
+    form.fields.filter(field => visibleFieldIds.has(field.id)),
+    Object.fromEntries(Object.entries(values).filter(([id]) => visibleFieldIds.has(id)))
+  );
+  const visibleFieldCount = form.fields.filter(isShown).length;
+  const previousVisibleFieldCount = useRef(visibleFieldCount);
+  
+  // Announce questions appearing or disappearing as answers change
+  useEffect(() => {
+    const difference = visibleFieldCount - previousVisibleFieldCount.current;
+    previousVisibleFieldCount.current = visibleFieldCount;
+    
+    if (difference > 0) {
+      setVisibilityAnnouncement(`${difference} more ${difference === 1 ? 'question is' : 'questions are'} now shown.`);
+    } else if (difference < 0) {
+      setVisibilityAnnouncement(`${-difference} ${difference === -1 ? 'question is' : 'questions are'} no longer shown.`);
+    }
+  }, [visibleFieldCount]);
+  
+  // Answers to the visible fields in the same list as the field at a path,
+  // either the whole form or one entry of a repeatable group
+  const getSiblingAnswers = useCallback((answers: Record<string, unknown>, name: string) => {
+    const [groupId, index] = name.split('.');
+    const group = index === undefined ? undefined : form.fields.find(field => field.id === groupId);
+    const siblings = group ? group.fields || [] : form.fields;
+    const listAnswers: Record<string, unknown> = (group ? get(answers, `${groupId}.${index}`) : answers) || {};
+    const visibleIds = getVisibleFieldIds({ fields: siblings }, listAnswers);
+
+    return {
+      siblings,
+      prefix: group ? `${groupId}.${index}.` : '',
+      answers: Object.fromEntries(Object.entries(listAnswers).filter(([id]) => visibleIds.has(id))),
+    };
+  }, [form]);
+  
+  // Clear answers that are no longer offered once the answer they depend on changes
+  useEffect(() => {
+    const subscription = watch((answers, { name }) => {
+      if (!name) return;
+      
+      const { siblings, prefix, answers: siblingAnswers } = getSiblingAnswers(answers, name);
+      const parentId = name.slice(prefix.length);
+      
+      for (const field of siblings) {
+        if (field.dependentOptions?.parentFieldId !== parentId) continue;
+        
+        const options = resolveDependentOptions(field, siblingAnswers).options || [];
+        const path = `${prefix}${field.id}`;
+        const answer = get(answers, path);
+        const isOffered = (value: unknown) => options.some(option => option.value === value);
+        
+        if (Array.isArray(answer) ? !answer.every(isOffered) : answer && !isOffered(answer)) {
+          setValue(path, Array.isArray(answer) ? answer.filter(isOffered) : getDefaultValue(field));
+        }
+        
+        const parent = siblings.find(sibling => sibling.id === parentId);
+        setStatusAnnouncement(
+          options.length > 0
+            ? `${pluralize(options.length, 'option')} now available for ${field.label}.`
+            : `${field.label} has no options for the current answer to ${parent?.label ?? 'another question'}.`
+        );
+      }
+    });
+    
+    return () => subscription.unsubscribe();
+  }, [watch, setValue, getSiblingAnswers]);
+  
+  // Split the form into pages, skipping pages whose fields are all hidden
+  const pages = useMemo(() => getFormPages(form), [form]);
+  const visiblePages = pages.filter(page => page.fields.some(isShown));
+  const steps = (visiblePages.length > 0 ? visiblePages : pages.slice(0, 1)).map((page, index) => ({
+    ...page,
+    title: page.section?.title || `Page ${index + 1}`,
+    fields: page.fields.filter(isShown),
+  }));
+  const step = Math.min(pageIndex, steps.length - 1);
+  const currentPage = steps[step];
+  const isMultiPage = pages.length > 1;
+  // Serialised so the navigation handlers only change when the page's fields do
+  const currentFieldIds = JSON.stringify(currentPage.fields.map(field => field.id));
+  
+  // Handle moving to the next page, validating only the fields on the current page
+  const handleNext = useCallback(async () => {
+    const isValid = await trigger(JSON.parse(currentFieldIds) as string[]);
+    
+    if (isValid) {
+      setPageIndex(step + 1);
+    } else {
+      // Announce validation errors
+      setStatusAnnouncement('There are validation errors. Please correct them before proceeding.');
+      
+      // Focus the first field with an error
+      const firstErrorField = formRef.current?.querySelector('[aria-invalid="true"]') as HTMLElement | null;
+      firstErrorField?.focus();
+    }
+  }, [trigger, currentFieldIds, step]);
+  
+  // Handle moving to the previous page
+  const handlePrevious = useCallback(() => {
+    setPageIndex(step - 1);
+  }, [step]);
+  
+  // Keyboard navigation between pages
+  useEffect(() => {
+    if (!isMultiPage) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Only if focus is within the form
+      if (!formRef.current?.contains(document.activeElement)) return;
+      
+      // Alt+Left: Previous page
+      if (e.key === 'ArrowLeft' && e.altKey && step > 0) {
+        e.preventDefault();
+        handlePrevious();
+      }
+      // Alt+Right: Next page (if validation passes)
+      else if (e.key === 'ArrowRight' && e.altKey && step < steps.length - 1) {
+        e.preventDefault();
+        handleNext();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isMultiPage, step, steps.length, handleNext, handlePrevious]);
+  
+  // Announce page changes and focus the first field on the new page
+  const previousStep = useRef(step);
+  const currentTitle = currentPage.title;
+  useEffect(() => {
+    if (previousStep.current === step) return;
+    previousStep.current = step;
+    
+    setStepChangeAnnouncement(`Step ${step + 1} of ${steps.length}: ${currentTitle}`);
+    
+    setTimeout(() => {
+      const firstField = pageRef.current?.querySelector('input, select, textarea') as HTMLElement | null;
+      firstField?.focus();
+    }, 100);
+  }, [step, steps.length, currentTitle]);
+  
+  // Clear announcements after they've been read
+  useEffect(() => {
+    if (stepChangeAnnouncement) {
+      const timer = setTimeout(() => {
+        setStepChangeAnnouncement(null);
+      }, 1000);
+      
+      return () => clearTimeout(timer);
+    }
+  }, [stepChangeAnnouncement]);
+  
+  useEffect(() => {
+    if (statusAnnouncement) {
+      const timer = setTimeout(() => {
+        setStatusAnnouncement(null);
+      }, 5000);
+      
+      return () => clearTimeout(timer);
+    }
+  }, [statusAnnouncement]);
+  
+  // Return to the first page with an error when submission fails validation
+  const onInvalid = (fieldErrors: Record<string, unknown>) => {
+    const errorPage = steps.findIndex(page => page.fields.some(field => field.id in fieldErrors));
+    
+    if (errorPage !== -1 && errorPage !== step) {
+      setPageIndex(errorPage);
+      setStatusAnnouncement(`There are validation errors on step ${errorPage + 1}: ${steps[errorPage].title}.`);
+    }
+  };
+  
+  // Pressing Enter before the last page moves on instead of submitting
+  const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    if (step < steps.length - 1) {
+      e.preventDefault();
+      handleNext();
+      return;
+    }
+    
+    handleSubmit(onSubmit, onInvalid)(e);
+  };
+
+  // Form submission handler
+  const onSubmit = async (data: DynamicResponseValues) => {
+    // Previews keep the answers so the test fill can continue, and score
+    // quizzes locally so the builder can check the scoring
+    if (formId === null) {
+      setQuizResult(definition.quiz ? scoreQuiz(definition, data) : null);
+      setSubmitSuccess(true);
+      
+      setTimeout(() => {
+        formStartRef.current?.focus();
+      }, 100);
+      
+      setTimeout(() => {
+        setSubmitSuccess(false);
+      }, 5000);
+      return;
+    }
+    
+    setIsSubmitting(true);
+    setSubmitError(null);
+    setQuizResult(null);
+
+    try {
+      // Send the response to the API
+      const response = await fetch(`/api/forms/dynamic/${formId}/responses`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ answers: data, metadata }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        // Show the answers the server refused next to their fields
+        const fieldErrors: Record<string, string[] | undefined> = result.errors ?? {};
+        const invalidFields = form.fields.filter(field => fieldErrors[field.id]?.length);
+
+        if (invalidFields.length > 0) {
+          for (const field of invalidFields) {
+            // Errors about a group's number of entries are shown on its root
+            setError(field.type === 'group' ? `${field.id}.root` : field.id, {
+              type: 'server',
+              message: fieldErrors[field.id]![0],
+            });
+          }
+          onInvalid(Object.fromEntries(invalidFields.map(field => [field.id, true])));
+
+          // Focus the first field with an error once its page is shown
+          setTimeout(() => {
+            const firstErrorField = formRef.current?.querySelector('[aria-invalid="true"]') as HTMLElement | null;
+            firstErrorField?.focus();
+          }, 100);
+
+          throw new Error('Some answers were not accepted. Please correct the highlighted fields and try again.');
+        }
+
+        throw new Error(result.message || 'Failed to submit form');
+      }
+
+      // Quizzes that share results return the score computed by the server
+      setQuizResult(result.quiz ?? null);
+
+      // If successful, reset form and show success message
+      reset(defaultValues);
+      setPageIndex(0);
+      previousStep.current = 0;
+      setSubmitSuccess(true);
+
+      // Return focus to the top of the form
+      setTimeout(() => {
+        formStartRef.current?.focus();
+      }, 100);
+
+      // Hide success message after 5 seconds
+      setTimeout(() => {
+        setSubmitSuccess(false);
+      }, 5000);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Render a single field based on its type, named by its path in the response
+  const renderField = (fieldDefinition: DynamicFieldValues, name: string = fieldDefinition.id) => {
+    // Dependent options follow the current answer to the field they depend on
+    const { siblings, answers: siblingAnswers } = getSiblingAnswers(values, name);
+    const field = resolveDependentOptions(fieldDefinition, siblingAnswers);
+    const dependsOn = field.dependentOptions && (field.options || []).length === 0
+      ? siblings.find(sibling => sibling.id === field.dependentOptions?.parentFieldId)
+      : undefined;
+    const dependencyHint = dependsOn && (siblingAnswers[dependsOn.id]
+      ? `There are no options for this answer to "${dependsOn.label}".`
+      : `Answer "${dependsOn.label}" to see the options.`);
+    const inputId = `field-${name.replace(/\./g, '-')}`;
+    const errorId = `${inputId}-error`;
+    const helperId = `${inputId}-helper`;
+    const fieldError = get(errors, name);
+    // Errors about a group's number of entries are reported on its root
+    const error: string | undefined = fieldError?.root?.message ?? fieldError?.message;
+    const helperText = dependencyHint || (field.type === 'multiselect'
+      ? [describeFieldConstraints(field), 'Hold Ctrl, or Cmd on a Mac, to select more than one option.'].filter(Boolean).join(' ')
+      : describeFieldConstraints(field));
+    const describedBy = error ? errorId : helperText ? helperId : undefined;
+    const constraints = getApplicableConstraints(field);
+    
+    const requiredMarker = field.required && (
+      <>
+        <span className="text-red-500 ml-1" aria-hidden="true">*</span>
+        <span className="sr-only">(Required)</span>
+      </>
+    );
+    
+    const feedback = error ? (
+      <FormError message={error} id={errorId} />
+    ) : helperText ? (
+      <div className="text-sm text-gray-500 mt-1" id={helperId}>
+        {helperText}
+      </div>
+    ) : null;
+
+    switch (field.type) {
+      case 'text':
+      case 'email':
+      case 'url':
+      case 'phone':
+      case 'date':
+      case 'time':
+      case 'datetime':
+        return (
+          <Input
+            key={name}
+            id={inputId}
+            label={field.label}
+            type={inputTypes[field.type]}
+            {...register(name)}
+            error={error}
+            helperText={helperText}
+            required={field.required}
+            aria-required={field.required}
+          />
+        );
+
+      case 'number':
+        return (
+          <Input
+            key={name}
+            id={inputId}
+            label={field.label}
+            type="number"
+            min={constraints?.min}
+            max={constraints?.max}
+            step={constraints?.step}
+            {...register(name)}
+            error={error}
+            helperText={helperText}
+            required={field.required}
+            aria-required={field.required}
+          />
+        );
+
+      case 'textarea':
+        return (
+          <div key={name} className="space-y-2">
+            <label htmlFor={inputId} className="block text-sm font-medium text-gray-700">
+              {field.label}
+              {requiredMarker}
+            </label>
+            <textarea
+              id={inputId}
+              rows={5}
+              className="w-full min-h-[100px] rounded-md border border-input p-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              {...register(name)}
+              aria-required={field.required}
+              aria-invalid={!!error}
+              aria-describedby={describedBy}
+            ></textarea>
+            {feedback}
+          </div>
+        );
+
+      case 'range': {
+        const bounds = getRangeBounds(field);
+        return (
+          <div key={name} className="space-y-2">
+            <label htmlFor={inputId} className="block text-sm font-medium text-gray-700">
+              {field.label}
+              {requiredMarker}
+            </label>
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-gray-500" aria-hidden="true">{bounds.min}</span>
+              <input
+                id={inputId}
+                type="range"
+                min={bounds.min}
+                max={bounds.max}
+                step={bounds.step}
+                className="flex-1 accent-indigo-600"
+                {...register(name)}
+                aria-invalid={!!error}
+                aria-describedby={describedBy}
+              />
+              <span className="text-sm text-gray-500" aria-hidden="true">{bounds.max}</span>
+              <output htmlFor={inputId} className="w-12 text-right text-sm font-medium text-gray-900">
+                {String(get(values, name) ?? '')}
+              </output>
+            </div>
+            {feedback}
+          </div>
+        );
+      }
+
+      case 'rating': {
+        const scale = getRatingScale(field);
+        const selected = Number(get(values, name)) || 0;
+        return (
+          <fieldset
+            key={name}
+            className="space-y-2"
+            aria-required={field.required}
+            aria-invalid={!!error}
+            aria-describedby={describedBy}
+          >
+            <legend className="block text-sm font-medium text-gray-700">
+              {field.label}
+              {requiredMarker}
+            </legend>
+            <div className="flex items-center gap-1">
+              {Array.from({ length: scale }, (_, index) => index + 1).map(stars => (
+                <label
+                  key={stars}
+                  htmlFor={`${inputId}-${stars}`}
+                  className="cursor-pointer rounded focus-within:ring-2 focus-within:ring-indigo-500"
+                >
+                  <input
+                    id={`${inputId}-${stars}`}
+                    type="radio"
+                    value={stars}
+                    className="sr-only"
+                    {...register(name)}
+                  />
+                  <svg
+                    className={cn("h-7 w-7", stars <= selected ? "text-yellow-400" : "text-gray-300")}
+                    fill="currentColor"
+                    viewBox="0 0 20 20"
+                    aria-hidden="true"
+                  >
+                    <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                  </svg>
+                  <span className="sr-only">{stars} of {scale} stars</span>
+                </label>
+              ))}
+            </div>
+            {feedback}
+          </fieldset>
+        );
+      }
+
+      case 'multiselect':
+        return (
+          <div key={name} className="space-y-2">
+            <label htmlFor={inputId} className="block text-sm font-medium text-gray-700">
+              {field.label}
+              {requiredMarker}
+            </label>
+            <select
+              id={inputId}
+              multiple
+              size={Math.min(Math.max((field.options || []).length, 3), 8)}
+              className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              {...register(name)}
+              aria-required={field.required}
+              aria-invalid={!!error}
+              aria-describedby={describedBy}
+            >
+              {(field.options || []).map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {feedback}
+          </div>
+        );
+
+      case 'checkbox':
+        // A checkbox with options is a group answered with every checked value
+        if (isCheckboxGroup(field)) {
+          return (
+            <fieldset
+              key={name}
+              className="space-y-2"
+              aria-required={field.required}
+              aria-invalid={!!error}
+              aria-describedby={describedBy}
+            >
+              <legend className="block text-sm font-medium text-gray-700">
+                {field.label}
+                {requiredMarker}
+              </legend>
+              <div className="space-y-2">
+                {(field.options || []).map(option => (
+                  <div key={option.value} className="flex items-center">
+                    <input
+                      id={`${inputId}-${option.value}`}
+                      type="checkbox"
+                      value={option.value}
+                      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      {...register(name)}
+                    />
+                    <label
+                      htmlFor={`${inputId}-${option.value}`}
+                      className="ml-2 text-sm text-gray-700"
+                    >
+                      {option.label}
+                    </label>
+                  </div>
+                ))}
+              </div>
+              {feedback}
+            </fieldset>
+          );
+        }
+        
+        return (
+          <div key={name} className="space-y-2">
+            <div className="flex items-center">
+              <input
+                id={inputId}
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                {...register(name)}
+                aria-required={field.required}
+                aria-invalid={!!error}
+                aria-describedby={describedBy}
+              />
+              <label htmlFor={inputId} className="ml-2 text-sm text-gray-700">
+                {field.label}
+                {requiredMarker}
+              </label>
+            </div>
+            {feedback}
+          </div>
+        );
+
+      case 'radio':
+        return (
+          <fieldset
+            key={name}
+            className="space-y-2"
+            aria-required={field.required}
+            aria-invalid={!!error}
+            aria-describedby={describedBy}
+          >
+            <legend className="block text-sm font-medium text-gray-700">
+              {field.label}
+              {requiredMarker}
+            </legend>
+            <div className="space-y-2">
+              {(field.options || []).map(option => (
+                <div key={option.value} className="flex items-center">
+                  <input
+                    id={`${inputId}-${option.value}`}
+                    type="radio"
+                    value={option.value}
+                    className="h-4 w-4 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    {...register(name)}
+                  />
+                  <label
+                    htmlFor={`${inputId}-${option.value}`}
+                    className="ml-2 text-sm text-gray-700"
+                  >
+                    {option.label}
+                  </label>
+                </div>
+              ))}
+            </div>
+            {feedback}
+          </fieldset>
+        );
+
+      case 'select':
+        return (
+          <div key={name} className="space-y-2">
+            <label htmlFor={inputId} className="block text-sm font-medium text-gray-700">
+              {field.label}
+              {requiredMarker}
+            </label>
+            <select
+              id={inputId}
+              className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              {...register(name)}
+              aria-required={field.required}
+              aria-invalid={!!error}
+              aria-describedby={describedBy}
+            >
+              <option value="">Select an option</option>
+              {(field.options || []).map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {feedback}
+          </div>
+        );
+
+      case 'calculated':
+        // Read-only; the output element announces new values as answers change
+        return (
+          <div key={name} className="space-y-2">
+            <span className="block text-sm font-medium text-gray-700" id={`${inputId}-label`}>
+              {field.label}
+            </span>
+            <output
+              id={inputId}
+              className="block w-full rounded-md border border-gray-200 bg-gray-50 p-2 text-sm font-medium text-gray-900"
+              aria-labelledby={`${inputId}-label`}
+              aria-describedby={helperId}
+            >
+              {formatCalculatedValue(calculatedValues[field.id] ?? null)}
+            </output>
+            <div className="text-sm text-gray-500 mt-1" id={helperId}>
+              Calculated from your answers
+            </div>
+          </div>
+        );
+
+      case 'group':
+        // Responses mix answers and groups, so narrow the control to group arrays
+        return (
+          <RepeatableGroup
+            key={name}
+            field={field}
+            control={control as unknown as Control<GroupValues>}
+            entries={(get(values, name) as Record<string, unknown>[] | undefined) || []}
+            error={error}
+            renderField={renderField}
+            onAnnounce={setStatusAnnouncement}
+          />
+        );
+
+      case 'hidden':
+        // Submitted with the answer prefilled from the URL, but never shown
+        return null;
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      {/* Status announcements for screen readers */}
+      <div aria-live="assertive" className="sr-only">
+        {submitSuccess && (formId === null
+          ? "Test fill passed validation. No response was saved."
+          : "Form submitted successfully. Thank you for your response!")}
+        {submitSuccess && quizResult && ` You scored ${formatPoints(quizResult.score)} out of ${formatPoints(quizResult.maxScore)}.`}
+        {submitError && `Error submitting form: ${submitError}`}
+        {isSubmitting && "Submitting form, please wait..."}
+      </div>
+      <div aria-live="polite" className="sr-only">
+        {visibilityAnnouncement}
+      </div>
+      <div aria-live="polite" className="sr-only">
+        {stepChangeAnnouncement}
+      </div>
+      <div aria-live="assertive" className="sr-only" role="status">
+        {statusAnnouncement}
+      </div>
+
+      <div className="bg-white/80 backdrop-blur-sm border border-gray-100 shadow-xl rounded-xl p-8">
+        <h2
+          className="text-2xl font-semibold text-gray-800 mb-6"
+          ref={formStartRef}
+          tabIndex={-1}
+          id="form-heading"
+        >
+          {definition.formName}
+        </h2>
+
+        {/* Success message */}
+        {submitSuccess && (
+          <div
+            className="mb-6 p-4 bg-green-50 border border-green-100 text-green-700 rounded-lg animate-in fade-in"
+            role="alert"
+          >
+            {formId === null ? (
+              <>
+                <p className="font-medium">All answers are valid!</p>
+                <p>This is a test fill, so no response was saved.</p>
+              </>
+            ) : (
+              <>
+                <p className="font-medium">Thank you for your response!</p>
+                <p>Your answers have been recorded.</p>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Quiz score and per-question feedback */}
+        {quizResult && <QuizResults result={quizResult} />}
+
+        {/* Error message */}
+        {submitError && (
+          <div
+            className="mb-6 p-4 bg-red-50 border border-red-100 text-red-700 rounded-lg animate-in fade-in"
+            role="alert"
+          >
+            <p className="font-medium">There was an error submitting your form</p>
+            <p>{submitError}</p>
+          </div>
+        )}
+
+        {/* Step indicator */}
+        {isMultiPage && (
+          <>
+            <StepIndicator steps={steps} currentStep={step} />
+            
+            {/* Keyboard shortcut instructions - only visible on focus */}
+            <div 
+              className="sr-only focus-visible:not-sr-only focus-visible:absolute focus-visible:z-10 focus-visible:bg-white focus-visible:p-4 focus-visible:border focus-visible:border-gray-300 focus-visible:rounded-md focus-visible:shadow-md"
+              tabIndex={0}
+            >
+              <p>Keyboard shortcuts: Alt+Left Arrow to go to previous step, Alt+Right Arrow to go to next step</p>
+            </div>
+          </>
+        )}
+
+        {/* Form content */}
+        <form
+          onSubmit={handleFormSubmit}
+          className="space-y-6"
+          aria-labelledby="form-heading"
+          ref={formRef}
+          noValidate
+        >
+          <div
+            className="space-y-6"
+            ref={pageRef}
+            role={isMultiPage ? 'group' : undefined}
+            aria-labelledby={isMultiPage ? 'page-heading' : undefined}
+            aria-describedby={currentPage.section?.description ? 'page-description' : undefined}
+          >
+            {isMultiPage && (
+              <div>
+                <h3 id="page-heading" className="text-lg font-medium text-gray-800">
+                  {currentPage.title}
+                </h3>
+                {currentPage.section?.description && (
+                  <p id="page-description" className="mt-1 text-sm text-gray-500">
+                    {currentPage.section.description}
+                  </p>
+                )}
+              </div>
+            )}
+            
+            {currentPage.fields.map(field => renderField(field))}
+          </div>
+
+          {/* Navigation buttons */}
+          <div className={cn("flex pt-4", isMultiPage ? "justify-between border-t border-gray-200" : "justify-end")}>
+            {isMultiPage && (
+              <Button
+                type="button"
+                onClick={handlePrevious}
+                disabled={step === 0}
+                variant="outline"
+                className="border-gray-300 text-gray-700"
+                aria-label={step === 0 ? "Previous step (disabled)" : "Previous step"}
+              >
+                Previous
+              </Button>
+            )}
+            
+            {step < steps.length - 1 ? (
+              <Button
+                type="button"
+                onClick={handleNext}
+                className="bg-indigo-600 text-white hover:bg-indigo-700"
+                aria-label="Next step"
+              >
+                Next
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                isLoading={isSubmitting}
+                loadingText="Submitting..."
+                className="bg-indigo-600 text-white hover:bg-indigo-700"
+                aria-disabled={isSubmitting}
+              >
+                Submit
+              </Button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
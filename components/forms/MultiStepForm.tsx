@@ -9,10 +9,11 @@ import {
   additionalInfoSchema,
   multiStepFormSchema,
   type MultiStepFormValues,
+  type MultiStepStepName,
 } from '@/lib/schemas/form-schemas';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
-import { cn } from '@/lib/utils';
+import { StepIndicator } from '@/components/ui/StepIndicator';
 
 /**
  * Multi-step form with enhanced accessibility features
@@ -27,6 +28,8 @@ export default function MultiStepForm() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  // Server-side session the wizard saves each completed step to
+  const [sessionId, setSessionId] = useState<string | null>(null);
   
   // Refs for focus management
   const formStartRef = useRef<HTMLHeadingElement>(null);
@@ -51,6 +54,7 @@ const thirdStepRef = useRef<HTMLInputElement>(null);
     register,
     handleSubmit,
     trigger,
+    getValues,
     formState: { errors },
     reset,
   } = useForm<MultiStepFormValues>({
@@ -78,18 +82,21 @@ const thirdStepRef = useRef<HTMLInputElement>(null);
   // Define steps with their titles and validation schemas
   const steps = useMemo(() => [
     { 
+      name: 'personalInfo' as MultiStepStepName,
       title: 'Personal Information', 
       description: 'Enter your name and contact details',
       schema: personalInfoSchema,
       fields: ['firstName', 'lastName', 'email'] as const
     },
     { 
+      name: 'addressInfo' as MultiStepStepName,
       title: 'Address', 
       description: 'Enter your mailing address',
       schema: addressInfoSchema,
       fields: ['addressLine1', 'addressLine2', 'city', 'state', 'postalCode', 'country'] as const
     },
     { 
+      name: 'additionalInfo' as MultiStepStepName,
       title: 'Additional Information', 
       description: 'Add any other information and preferences',
       schema: additionalInfoSchema,
@@ -97,12 +104,55 @@ const thirdStepRef = useRef<HTMLInputElement>(null);
     },
   ], []);
   
+  // Save a step's values to the session, starting the session on the first save
+  const saveStep = useCallback(async (index: number): Promise<string> => {
+    let id = sessionId;
+    
+    if (!id) {
+      const response = await fetch('/api/forms/multi-step/sessions', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to start the form session');
+      }
+      id = (await response.json()).sessionId as string;
+      setSessionId(id);
+    }
+    
+    const { name, fields } = steps[index];
+    const response = await fetch(`/api/forms/multi-step/sessions/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        step: name,
+        data: Object.fromEntries(fields.map(field => [field, getValues(field)])),
+      }),
+    });
+    
+    if (!response.ok) {
+      throw new Error('Failed to save this step');
+    }
+    
+    return id;
+  }, [sessionId, steps, getValues]);
+  
   // Handle moving to the next step with validation
   const handleNext = useCallback(async () => {
     // Validate only the fields in the current step
     const isValid = await trigger(steps[step].fields as unknown as Array<keyof MultiStepFormValues>);
     
     if (isValid) {
+      setSubmitError(null);
+      
+      try {
+        // Save the step so partially completed forms are tracked
+        await saveStep(step);
+      } catch (error) {
+        setSubmitError(error instanceof Error ? error.message : 'An unexpected error occurred');
+        setStatusAnnouncement('Error saving this step. Please try again.');
+        return;
+      }
+      
       // Move to the next step
       setStep(prevStep => prevStep + 1);
     } else {
@@ -113,7 +163,7 @@ const thirdStepRef = useRef<HTMLInputElement>(null);
       const firstErrorField = document.querySelector('[aria-invalid="true"]') as HTMLElement;
       firstErrorField?.focus();
     }
-  }, [trigger, steps, step, setStatusAnnouncement]);
+  }, [trigger, steps, step, saveStep, setStatusAnnouncement]);
   
   // Handle moving to the previous step
   const handlePrevious = useCallback(() => {
@@ -121,19 +171,16 @@ const thirdStepRef = useRef<HTMLInputElement>(null);
   }, []);
   
   // Handle form submission
-  const onSubmit = async (data: MultiStepFormValues) => {
+  const onSubmit = async () => {
     setIsSubmitting(true);
     setSubmitError(null);
     setStatusAnnouncement('Submitting form, please wait...');
     
     try {
-      // Send form data to API
-      const response = await fetch('/api/forms/multi-step', {
+      // Save the last step, then turn the session into a submission
+      const id = await saveStep(step);
+      const response = await fetch(`/api/forms/multi-step/sessions/${id}/finalize`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
       });
       
       if (!response.ok) {
@@ -142,6 +189,7 @@ const thirdStepRef = useRef<HTMLInputElement>(null);
       
       // If successful, reset form and show success message
       reset();
+      setSessionId(null);
       setStep(0);
       setSubmitSuccess(true);
       setStatusAnnouncement('Form submitted successfully. Thank you for your submission.');
@@ -205,75 +253,6 @@ const thirdStepRef = useRef<HTMLInputElement>(null);
     }
   }, [stepChangeAnnouncement]);
   
-  // Render the step indicator
-  const renderStepIndicator = () => {
-    return (
-      <div className="mb-8">
-        <nav aria-label="Progress" role="navigation">
-          <ol className="flex items-center">
-            {steps.map((stepItem, index) => (
-              <li 
-                key={stepItem.title} 
-                className={cn(
-                  "relative pr-8 sm:pr-20",
-                  index === steps.length - 1 ? "flex-auto" : ""
-                )}
-              >
-                <div className="flex items-center">
-                  <div
-                    className={cn(
-                      "relative flex h-8 w-8 items-center justify-center rounded-full",
-                      step === index
-                        ? "bg-indigo-600 text-white"
-                        : step > index
-                        ? "bg-indigo-600 text-white"
-                        : "bg-gray-200 text-gray-500"
-                    )}
-                    aria-current={step === index ? "step" : undefined}
-                  >
-                    {step > index ? (
-                      <svg
-                        className="h-5 w-5"
-                        viewBox="0 0 20 20"
-                        fill="currentColor"
-                        aria-hidden="true"
-                      >
-                        <path
-                          fillRule="evenodd"
-                          d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z"
-                          clipRule="evenodd"
-                        />
-                      </svg>
-                    ) : (
-                      <span>{index + 1}</span>
-                    )}
-                  </div>
-                  {index !== steps.length - 1 && (
-                    <div
-                      className={cn(
-                        "absolute left-0 top-4 -ml-px mt-0.5 h-0.5 w-full",
-                        step > index ? "bg-indigo-600" : "bg-gray-200"
-                      )}
-                      aria-hidden="true"
-                    />
-                  )}
-                </div>
-                <div className="mt-2">
-                  <span 
-                    className="text-sm font-medium"
-                    aria-hidden={step !== index}
-                  >
-                    {stepItem.title}
-                  </span>
-                </div>
-              </li>
-            ))}
-          </ol>
-        </nav>
-      </div>
-    );
-  };
-  
   // Render the appropriate form fields based on current step
   const renderForm = () => {
     if (step === 0) {
@@ -567,7 +546,7 @@ const thirdStepRef = useRef<HTMLInputElement>(null);
         )}
         
         {/* Step indicator */}
-        {renderStepIndicator()}
+        <StepIndicator steps={steps} currentStep={step} />
         
         <form 
           onSubmit={handleSubmit(onSubmit)} 
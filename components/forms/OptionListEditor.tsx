@@ -0,0 +1,161 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { FormError } from '@/components/ui/FormError';
+import { findDuplicateOptionValues, toOptionValue, type FieldOption } from '@/lib/dynamic-forms/options';
+import { cn } from '@/lib/utils';
+
+interface OptionListEditorProps {
+  // Prefix for the ids of the inputs
+  id: string;
+  options: FieldOption[];
+  onChange: (options: FieldOption[]) => void;
+  onAnnounce: (message: string) => void;
+  emptyMessage: string;
+  // Show quiz scoring inputs for each option
+  scored?: boolean;
+  error?: string;
+}
+
+// Lists longer than this scroll instead of growing the page
+const SCROLL_THRESHOLD = 10;
+
+/**
+ * Option List Editor Component
+ *
+ * Edits the label and stored value of each option in a list.
+ * - Values are only suggested from labels, so renaming a label keeps its stored value
+ * - Duplicate values are flagged on every option that uses them
+ * - Add and remove buttons name the option they act on
+ * - Quiz options can be marked correct or given points, labelled per option
+ */
+export default function OptionListEditor({
+  id,
+  options,
+  onChange,
+  onAnnounce,
+  emptyMessage,
+  scored = false,
+  error,
+}: OptionListEditorProps) {
+  const duplicates = findDuplicateOptionValues(options.filter(option => option.value));
+
+  const updateOption = (index: number, changes: Partial<FieldOption>) => {
+    onChange(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const addOption = () => {
+    onChange([...options, { label: '', value: '' }]);
+    onAnnounce('New option added. Please enter a label for this option.');
+  };
+
+  const removeOption = (index: number) => {
+    onChange(options.filter((_, i) => i !== index));
+    onAnnounce('Option removed.');
+  };
+
+  return (
+    <div className="space-y-2">
+      {options.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-2">{emptyMessage}</p>
+      ) : (
+        <div
+          className={cn("space-y-2", { "max-h-96 overflow-y-auto pr-1": options.length > SCROLL_THRESHOLD })}
+          tabIndex={options.length > SCROLL_THRESHOLD ? 0 : undefined}
+          role={options.length > SCROLL_THRESHOLD ? 'region' : undefined}
+          aria-label={options.length > SCROLL_THRESHOLD ? 'Options list' : undefined}
+        >
+          {options.map((option, index) => {
+            const isDuplicate = !!option.value && duplicates.has(option.value);
+            const errorId = `${id}-${index}-value-error`;
+
+            return (
+              <div key={index}>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={option.label}
+                    onChange={e => updateOption(index, { label: e.target.value })}
+                    className="flex-1 rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    placeholder={`Option ${index + 1}`}
+                    aria-label={`Option ${index + 1} label`}
+                  />
+                  <input
+                    type="text"
+                    value={option.value}
+                    onChange={e => updateOption(index, { value: e.target.value.trim() })}
+                    className={cn(
+                      "w-40 rounded-md border border-input p-2 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                      { "border-red-500": isDuplicate }
+                    )}
+                    placeholder={toOptionValue(option.label) || 'value'}
+                    aria-label={`Option ${index + 1} stored value`}
+                    aria-invalid={isDuplicate}
+                    aria-describedby={isDuplicate ? errorId : undefined}
+                  />
+                  {scored && (
+                    <>
+                      <label className="flex items-center gap-1 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={!!option.correct}
+                          onChange={e => updateOption(index, { correct: e.target.checked || undefined })}
+                          className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                          aria-label={`Option ${option.label || index + 1} is correct`}
+                        />
+                        <span aria-hidden="true">Correct</span>
+                      </label>
+                      <input
+                        type="number"
+                        step="any"
+                        value={option.points ?? ''}
+                        onChange={e => updateOption(index, {
+                          points: e.target.value === '' || Number.isNaN(e.target.valueAsNumber) ? undefined : e.target.valueAsNumber,
+                        })}
+                        className="w-20 rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                        placeholder="Points"
+                        aria-label={`Option ${option.label || index + 1} points`}
+                      />
+                    </>
+                  )}
+                  <Button
+                    type="button"
+                    onClick={() => removeOption(index)}
+                    size="sm"
+                    variant="destructive"
+                    aria-label={`Remove option ${option.label || index + 1}`}
+                  >
+                    Remove
+                  </Button>
+                </div>
+                {isDuplicate && (
+                  <FormError message="Another option already uses this value" id={errorId} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {options.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Stored values are saved with responses. Leave a value blank to use the suggested one.
+          {scored && ' Points add up for every option chosen; without points, questions with correct options are worth one point.'}
+        </p>
+      )}
+
+      <FormError message={error} id={`${id}-error`} />
+
+      <Button
+        type="button"
+        onClick={addOption}
+        variant="outline"
+        size="sm"
+        className="mt-2"
+        aria-label="Add new option"
+      >
+        Add Option
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import OptionListEditor from '@/components/forms/OptionListEditor';
+import type { DynamicFieldValues, DynamicOptionSetValues } from '@/lib/schemas/form-schemas';
+import { findDuplicateOptionValues, type FieldOption } from '@/lib/dynamic-forms/options';
+import { optionSetPresets } from '@/lib/dynamic-forms/option-presets';
+import { pluralize } from '@/lib/dynamic-forms/constraints';
+
+interface OptionSetsPanelProps {
+  optionSets: DynamicOptionSetValues[];
+  fields: DynamicFieldValues[];
+  onAdd: (optionSet: Omit<DynamicOptionSetValues, 'id'>) => void;
+  onUpdate: (optionSet: DynamicOptionSetValues) => void;
+  onRemove: (id: string) => void;
+  onAnnounce: (message: string) => void;
+}
+
+// Count the fields, including those inside groups, that use an option set
+const countFieldsUsing = (fields: DynamicFieldValues[], optionSetId: string) =>
+  fields.flatMap(field => [field, ...(field.fields || [])])
+    .filter(field => field.optionSetId === optionSetId)
+    .length;
+
+/**
+ * Option Sets Panel Component
+ *
+ * Manages the named option lists that option fields can share, so a list
+ * such as countries is edited in one place.
+ * - Sets can start from built-in presets
+ * - Each set shows how many fields use it
+ * - Errors are announced and focus returns to the name input
+ */
+export default function OptionSetsPanel({
+  optionSets,
+  fields,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onAnnounce,
+}: OptionSetsPanelProps) {
+  const [optionSetBeingEdited, setOptionSetBeingEdited] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [options, setOptions] = useState<FieldOption[]>([]);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [optionsError, setOptionsError] = useState<string | null>(null);
+  const nameInputRef = useRef<HTMLInputElement>(null);
+
+  const clearEditor = () => {
+    setOptionSetBeingEdited(null);
+    setName('');
+    setOptions([]);
+    setNameError(null);
+    setOptionsError(null);
+  };
+
+  // Close the editor when its set disappears, e.g. after an undo
+  if (optionSetBeingEdited && !optionSets.some(optionSet => optionSet.id === optionSetBeingEdited)) {
+    clearEditor();
+  }
+
+  // Fill the editor from a built-in preset
+  const applyPreset = (presetId: string) => {
+    const preset = optionSetPresets[presetId];
+    if (!preset) return;
+
+    setName(preset.name);
+    setOptions(preset.options);
+    setOptionsError(null);
+    onAnnounce(`Loaded ${pluralize(preset.options.length, 'option')} from the ${preset.name} preset.`);
+  };
+
+  // Add a new option set, or save changes to the one being edited
+  const saveOptionSet = () => {
+    const trimmedName = name.trim();
+    const filledOptions = options.filter(option => option.label.trim());
+
+    setNameError(trimmedName ? null : 'Name is required');
+
+    let error: string | null = null;
+    if (filledOptions.length === 0) {
+      error = 'Add at least one option';
+    } else if (findDuplicateOptionValues(filledOptions.filter(option => option.value)).size > 0) {
+      error = 'Option values must be unique';
+    }
+    setOptionsError(error);
+
+    if (!trimmedName || error) {
+      onAnnounce(`Error: ${!trimmedName ? 'Name is required' : error}.`);
+      if (!trimmedName) nameInputRef.current?.focus();
+      return;
+    }
+
+    if (optionSetBeingEdited) {
+      onUpdate({ id: optionSetBeingEdited, name: trimmedName, options: filledOptions });
+      onAnnounce(`Option set "${trimmedName}" has been updated for every field that uses it.`);
+    } else {
+      onAdd({ name: trimmedName, options: filledOptions });
+      onAnnounce(`Option set "${trimmedName}" has been added. Choose it as the options source of a field to use it.`);
+    }
+
+    clearEditor();
+    nameInputRef.current?.focus();
+  };
+
+  // Load an option set into the editor
+  const editOptionSet = (optionSet: DynamicOptionSetValues) => {
+    setOptionSetBeingEdited(optionSet.id);
+    setName(optionSet.name);
+    setOptions(optionSet.options);
+    setNameError(null);
+    setOptionsError(null);
+    onAnnounce(`Editing option set "${optionSet.name}".`);
+    nameInputRef.current?.focus();
+  };
+
+  // Remove an option set; fields using it keep a copy of its options
+  const removeOptionSet = (optionSet: DynamicOptionSetValues) => {
+    onRemove(optionSet.id);
+    onAnnounce(`Option set "${optionSet.name}" has been removed. Fields that used it keep a copy of its options.`);
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mb-6">
+      <h3
+        className="text-lg font-medium text-gray-800 mb-1"
+        id="option-sets-heading"
+      >
+        Option Sets
+      </h3>
+      <p className="text-sm text-gray-500 mb-4" id="option-sets-description">
+        Share one list of options between fields. Changes to a set apply to every field that uses it.
+      </p>
+
+      {optionSets.length > 0 && (
+        <ul className="mb-4 divide-y divide-gray-200 border border-gray-200 rounded-md" aria-labelledby="option-sets-heading">
+          {optionSets.map(optionSet => (
+            <li key={optionSet.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{optionSet.name}</p>
+                <p className="text-xs text-gray-500">
+                  {pluralize(optionSet.options.length, 'option')}
+                  {' · '}
+                  used by {pluralize(countFieldsUsing(fields, optionSet.id), 'field')}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => editOptionSet(optionSet)}
+                  aria-label={`Edit option set ${optionSet.name}`}
+                >
+                  Edit
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => removeOptionSet(optionSet)}
+                  aria-label={`Remove option set ${optionSet.name}`}
+                >
+                  Remove
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div
+        className="space-y-4"
+        role="group"
+        aria-label={optionSetBeingEdited ? 'Edit option set' : 'Add an option set'}
+        aria-describedby="option-sets-description"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Set Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            error={nameError || undefined}
+            placeholder="e.g. Departments"
+            ref={nameInputRef}
+          />
+          {!optionSetBeingEdited && (
+            <div className="space-y-2">
+              <label htmlFor="optionSetPreset" className="block text-sm font-medium text-gray-700">
+                Start From
+              </label>
+              <select
+                id="optionSetPreset"
+                value=""
+                onChange={(e) => applyPreset(e.target.value)}
+                className="w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <option value="">Choose a preset...</option>
+                {Object.entries(optionSetPresets).map(([presetId, preset]) => (
+                  <option key={presetId} value={presetId}>
+                    {preset.name} ({pluralize(preset.options.length, 'option')})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <OptionListEditor
+          id="option-set-options"
+          options={options}
+          onChange={setOptions}
+          onAnnounce={onAnnounce}
+          emptyMessage="No options added yet. Add options or start from a preset."
+          error={optionsError || undefined}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        {optionSetBeingEdited && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              clearEditor();
+              onAnnounce('Option set editing cancelled.');
+            }}
+          >
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          onClick={saveOptionSet}
+        >
+          {optionSetBeingEdited ? 'Update Option Set' : 'Add Option Set'}
+        </Button>
+      </div>
+    </div>
+  );
+}
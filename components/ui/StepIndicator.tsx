@@ -0,0 +1,81 @@
+import { cn } from '@/lib/utils';
+
+interface StepIndicatorProps {
+  steps: Array<{ title: string }>;
+  currentStep: number;
+}
+
+/**
+ * Step indicator for multi-step forms
+ * Marks the current step with aria-current and completed steps with a check mark.
+ *
+ * @example
+ * <StepIndicator steps={[{ title: 'Personal' }, { title: 'Address' }]} currentStep={0} />
+ */
+export const StepIndicator = ({ steps, currentStep }: StepIndicatorProps) => {
+  return (
+    <div className="mb-8">
+      <nav aria-label="Progress" role="navigation">
+        <ol className="flex items-center">
+          {steps.map((stepItem, index) => (
+            <li 
+              key={index} 
+              className={cn(
+                "relative pr-8 sm:pr-20",
+                index === steps.length - 1 ? "flex-auto" : ""
+              )}
+            >
+              <div className="flex items-center">
+                <div
+                  className={cn(
+                    "relative flex h-8 w-8 items-center justify-center rounded-full",
+                    currentStep === index
+                      ? "bg-indigo-600 text-white"
+                      : currentStep > index
+                      ? "bg-indigo-600 text-white"
+                      : "bg-gray-200 text-gray-500"
+                  )}
+                  aria-current={currentStep === index ? "step" : undefined}
+                >
+                  {currentStep > index ? (
+                    <svg
+                      className="h-5 w-5"
+                      viewBox="0 0 20 20"
+                      fill="currentColor"
+                      aria-hidden="true"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                  ) : (
+                    <span>{index + 1}</span>
+                  )}
+                </div>
+                {index !== steps.length - 1 && (
+                  <div
+                    className={cn(
+                      "absolute left-0 top-4 -ml-px mt-0.5 h-0.5 w-full",
+                      currentStep > index ? "bg-indigo-600" : "bg-gray-200"
+                    )}
+                    aria-hidden="true"
+                  />
+                )}
+              </div>
+              <div className="mt-2">
+                <span 
+                  className="text-sm font-medium"
+                  aria-hidden={currentStep !== index}
+                >
+                  {stepItem.title}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </nav>
+    </div>
+  );
+};
@@ -1,64 +1,375 @@
-import { DynamicFieldValues, DynamicFormValues } from "@/lib/schemas/form-schemas";
-import { generateId } from "@/lib/utils";
+import { DynamicFieldValues, DynamicFormValues, DynamicOptionSetValues, DynamicQuizValues, DynamicSectionValues } from "@/lib/schemas/form-schemas";
+import { getApplicableConstraints } from "@/lib/dynamic-forms/constraints";
+import { assignOptionValues, getAllOptions } from "@/lib/dynamic-forms/options";
+import { dependentOptionFieldTypes, optionFieldTypes } from "@/lib/dynamic-forms/field-types";
+import { generateId, moveItem } from "@/lib/utils";
 import { useState } from "react";
 
-export function useDynamicForm() {
-    const [fields, setFields] = useState<DynamicFieldValues[]>([]);
-    const [formName, setFormName] = useState('');
+// Maximum number of changes that can be undone
+const MAX_HISTORY = 50;
+
+// The parts of a form that changes can be undone for
+interface FormSnapshot {
+  fields: DynamicFieldValues[];
+  sections: DynamicSectionValues[];
+  optionSets: DynamicOptionSetValues[];
+}
+
+// A change to the form, with the messages announced when undoing or redoing it
+interface HistoryEntry extends FormSnapshot {
+  undoMessage: string;
+  redoMessage: string;
+}
+
+interface FieldHistory {
+  past: HistoryEntry[];
+  present: FormSnapshot;
+  future: HistoryEntry[];
+}
+
+// Result of an undo or redo, describing what changed
+export interface HistoryStep extends FormSnapshot {
+  message: string;
+}
+
+// Describe what changed between two versions of the same field
+function describeEdit(before: DynamicFieldValues, after: DynamicFieldValues): string {
+  const optionsChanged = JSON.stringify(before.options || []) !== JSON.stringify(after.options || []);
+  const otherChanged = JSON.stringify({ ...before, options: undefined }) !== JSON.stringify({ ...after, options: undefined });
+
+  if (optionsChanged && !otherChanged) return `options of field "${after.label}"`;
+  return `settings of field "${after.label}"`;
+}
+
+export function useDynamicForm(initialForm?: DynamicFormValues) {
+    const [history, setHistory] = useState<FieldHistory>({
+      past: [],
+      present: {
+        fields: initialForm?.fields || [],
+        sections: initialForm?.sections || [],
+        optionSets: initialForm?.optionSets || [],
+      },
+      future: [],
+    });
+    const [formName, setFormName] = useState(initialForm?.formName || '');
+    // Quiz scoring settings, undefined when the form is not a quiz
+    const [quiz, setQuiz] = useState<DynamicQuizValues | undefined>(initialForm?.quiz);
     const [fieldBeingEdited, setFieldBeingEdited] = useState<DynamicFieldValues | null>(null);
-    
+
+    const { fields, sections, optionSets } = history.present;
+
+    // Record a change to the form so it can be undone
+    const commit = (next: Partial<FormSnapshot>, undoMessage: string, redoMessage: string) => {
+      setHistory(prev => ({
+        past: [...prev.past, { ...prev.present, undoMessage, redoMessage }].slice(-MAX_HISTORY),
+        present: { ...prev.present, ...next },
+        future: [],
+      }));
+    };
+
     const addField = (field: DynamicFieldValues) => {
+      // Options depending on another field's answer replace the field's own options and sets
+      const dependentOptions = dependentOptionFieldTypes.includes(field.type) && field.dependentOptions
+        ? {
+            parentFieldId: field.dependentOptions.parentFieldId,
+            optionsByValue: Object.fromEntries(
+              Object.entries(field.dependentOptions.optionsByValue)
+                .map(([value, options]) => [value, assignOptionValues(options.filter(option => option.label))])
+            ),
+          }
+        : undefined;
+
+      // Only option fields can use a set, and only one that still exists
+      const optionSetId = !dependentOptions && optionFieldTypes.includes(field.type) && optionSets.some(s => s.id === field.optionSetId)
+        ? field.optionSetId
+        : undefined;
+
       const newField = {
         ...field,
         id: field.id || generateId(),
+        // Calculated and hidden fields are not answered by respondents, so cannot be required
+        required: field.type === 'calculated' || field.type === 'hidden' ? false : field.required,
+        // Only keep the constraints that apply to the chosen type
+        validation: getApplicableConstraints(field),
+        // Fields using an option set or dependent options take their options from them
+        options: optionSetId || dependentOptions ? [] : field.options && assignOptionValues(field.options.filter(option => option.label)),
+        optionSetId,
+        dependentOptions,
+        // Explanations are only shown with the results of option questions
+        explanation: optionFieldTypes.includes(field.type) ? field.explanation?.trim() || undefined : undefined,
+        formula: field.type === 'calculated' ? field.formula?.trim() : undefined,
+        // Groups and calculated fields have no single answer to prefill
+        prefillParam: field.type === 'group' || field.type === 'calculated' ? undefined : field.prefillParam,
+        // Only groups hold child fields
+        fields: field.type === 'group'
+          ? (field.fields || []).map(child => ({
+              ...child,
+              id: child.id || generateId(),
+              validation: getApplicableConstraints(child),
+              // Drop blank entries left by the comma-separated options input
+              options: optionFieldTypes.includes(child.type)
+                ? assignOptionValues((child.options || []).filter(option => option.label))
+                : undefined,
+            }))
+          : undefined,
       };
-      
+
       if (fieldBeingEdited) {
-        setFields(prev => 
-          prev.map(f => f.id === fieldBeingEdited.id ? newField : f)
+        const previous = fields.find(f => f.id === fieldBeingEdited.id);
+        const change = previous ? describeEdit(previous, newField) : `field "${newField.label}"`;
+
+        commit(
+          { fields: fields.map(f => f.id === fieldBeingEdited.id ? newField : f) },
+          `Restored previous ${change}.`,
+          `Reapplied changes to ${change}.`
         );
         setFieldBeingEdited(null);
       } else {
-        setFields(prev => [...prev, newField]);
+        commit(
+          { fields: [...fields, newField] },
+          `Removed field "${newField.label}".`,
+          `Restored field "${newField.label}".`
+        );
       }
-      
+
       return newField;
     };
-    
+
     const editField = (field: DynamicFieldValues) => {
       setFieldBeingEdited(field);
       return field;
     };
-    
+
     const removeField = (id: string) => {
-      setFields(prev => prev.filter(field => field.id !== id));
-      
+      const removed = fields.find(field => field.id === id);
+      if (!removed) return;
+
+      // Drop the field along with any visibility conditions that reference it,
+      // and give fields whose options depended on it all of those options
+      commit(
+        {
+          fields: fields
+            .filter(field => field.id !== id)
+            .map(field => field.visibleWhen
+              ? {
+                  ...field,
+                  visibleWhen: {
+                    ...field.visibleWhen,
+                    conditions: field.visibleWhen.conditions.filter(condition => condition.fieldId !== id),
+                  },
+                }
+              : field
+            )
+            .map(field => field.dependentOptions?.parentFieldId === id
+              ? { ...field, options: getAllOptions(field), dependentOptions: undefined }
+              : field
+            ),
+        },
+        `Restored field "${removed.label}".`,
+        `Removed field "${removed.label}".`
+      );
+
       if (fieldBeingEdited && fieldBeingEdited.id === id) {
         setFieldBeingEdited(null);
       }
     };
-    
+
+    const moveField = (fromIndex: number, toIndex: number) => {
+      const moved = fields[fromIndex];
+      if (!moved || fromIndex === toIndex) return;
+
+      commit(
+        { fields: moveItem(fields, fromIndex, toIndex) },
+        `Moved field "${moved.label}" back to position ${fromIndex + 1}.`,
+        `Moved field "${moved.label}" to position ${toIndex + 1}.`
+      );
+    };
+
+    const addSection = (section: Omit<DynamicSectionValues, 'id'>) => {
+      const newSection = { ...section, id: generateId() };
+
+      commit(
+        { sections: [...sections, newSection] },
+        `Removed section "${newSection.title}".`,
+        `Restored section "${newSection.title}".`
+      );
+
+      return newSection;
+    };
+
+    const updateSection = (section: DynamicSectionValues) => {
+      commit(
+        { sections: sections.map(s => s.id === section.id ? section : s) },
+        `Restored previous settings of section "${section.title}".`,
+        `Reapplied changes to section "${section.title}".`
+      );
+    };
+
+    const removeSection = (id: string) => {
+      const removed = sections.find(section => section.id === id);
+      if (!removed) return;
+
+      // Fields in the removed section fall back to the first remaining section
+      commit(
+        {
+          sections: sections.filter(section => section.id !== id),
+          fields: fields.map(field => field.sectionId === id ? { ...field, sectionId: undefined } : field),
+        },
+        `Restored section "${removed.title}".`,
+        `Removed section "${removed.title}".`
+      );
+    };
+
+    const moveSection = (fromIndex: number, toIndex: number) => {
+      const moved = sections[fromIndex];
+      if (!moved || fromIndex === toIndex) return;
+
+      commit(
+        { sections: moveItem(sections, fromIndex, toIndex) },
+        `Moved section "${moved.title}" back to position ${fromIndex + 1}.`,
+        `Moved section "${moved.title}" to position ${toIndex + 1}.`
+      );
+    };
+
+    const addOptionSet = (optionSet: Omit<DynamicOptionSetValues, 'id'>) => {
+      const newOptionSet = { ...optionSet, id: generateId(), options: assignOptionValues(optionSet.options) };
+
+      commit(
+        { optionSets: [...optionSets, newOptionSet] },
+        `Removed option set "${newOptionSet.name}".`,
+        `Restored option set "${newOptionSet.name}".`
+      );
+
+      return newOptionSet;
+    };
+
+    const updateOptionSet = (optionSet: DynamicOptionSetValues) => {
+      const updated = { ...optionSet, options: assignOptionValues(optionSet.options) };
+
+      commit(
+        { optionSets: optionSets.map(s => s.id === updated.id ? updated : s) },
+        `Restored previous options of option set "${updated.name}".`,
+        `Reapplied changes to option set "${updated.name}".`
+      );
+    };
+
+    const removeOptionSet = (id: string) => {
+      const removed = optionSets.find(optionSet => optionSet.id === id);
+      if (!removed) return;
+
+      // Fields using the removed set keep a copy of its options
+      const detach = <F extends Pick<DynamicFieldValues, 'optionSetId' | 'options'>>(field: F): F =>
+        field.optionSetId === id ? { ...field, optionSetId: undefined, options: removed.options } : field;
+
+      commit(
+        {
+          optionSets: optionSets.filter(optionSet => optionSet.id !== id),
+          fields: fields.map(field => ({ ...detach(field), fields: field.fields?.map(detach) })),
+        },
+        `Restored option set "${removed.name}".`,
+        `Removed option set "${removed.name}".`
+      );
+    };
+
+    // Replace all fields with imported ones, keeping the previous fields undoable
+    const importFields = (
+      nextFields: DynamicFieldValues[],
+      source: string,
+      nextSections: DynamicSectionValues[] = [],
+      nextOptionSets: DynamicOptionSetValues[] = []
+    ) => {
+      commit(
+        { fields: nextFields, sections: nextSections, optionSets: nextOptionSets },
+        `Restored the fields from before importing ${source}.`,
+        `Reimported the fields from ${source}.`
+      );
+      setFieldBeingEdited(null);
+    };
+
+    // Step back to the previous field list, returning what was undone
+    const undo = (): HistoryStep | null => {
+      const entry = history.past[history.past.length - 1];
+      if (!entry) return null;
+
+      setHistory({
+        past: history.past.slice(0, -1),
+        present: { fields: entry.fields, sections: entry.sections, optionSets: entry.optionSets },
+        future: [{ ...entry, ...history.present }, ...history.future],
+      });
+
+      return { message: entry.undoMessage, fields: entry.fields, sections: entry.sections, optionSets: entry.optionSets };
+    };
+
+    // Reapply the most recently undone change, returning what was redone
+    const redo = (): HistoryStep | null => {
+      const [entry, ...future] = history.future;
+      if (!entry) return null;
+
+      setHistory({
+        past: [...history.past, { ...entry, ...history.present }],
+        present: { fields: entry.fields, sections: entry.sections, optionSets: entry.optionSets },
+        future,
+      });
+
+      return { message: entry.redoMessage, fields: entry.fields, sections: entry.sections, optionSets: entry.optionSets };
+    };
+
+    // Replace the form and start a fresh history, e.g. when opening another form
+    const resetFields = (
+      nextFields: DynamicFieldValues[] = [],
+      nextSections: DynamicSectionValues[] = [],
+      nextOptionSets: DynamicOptionSetValues[] = []
+    ) => {
+      setHistory({
+        past: [],
+        present: { fields: nextFields, sections: nextSections, optionSets: nextOptionSets },
+        future: [],
+      });
+      setFieldBeingEdited(null);
+    };
+
     const generateFormData = (): DynamicFormValues => {
       return {
         formName,
         fields: fields.map(field => {
-          if (['select', 'radio', 'checkbox'].includes(field.type) && !field.options) {
+          if (optionFieldTypes.includes(field.type) && !field.options) {
             return { ...field, options: [] };
           }
           return field;
         }),
+        ...(sections.length > 0 && { sections }),
+        ...(optionSets.length > 0 && { optionSets }),
+        ...(quiz && { quiz }),
       };
     };
-    
+
     return {
       fields,
+      sections,
+      optionSets,
       formName,
       setFormName,
+      quiz,
+      setQuiz,
       fieldBeingEdited,
       addField,
       editField,
       removeField,
+      moveField,
+      addSection,
+      updateSection,
+      removeSection,
+      moveSection,
+      addOptionSet,
+      updateOptionSet,
+      removeOptionSet,
+      importFields,
+      undo,
+      redo,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+      resetFields,
       generateFormData,
       clearFieldBeingEdited: () => setFieldBeingEdited(null),
     };
-  }
\ No newline at end of file
+  }
@@ -0,0 +1,252 @@
+import {
+  dynamicFormSchema,
+  type DynamicAnswerValues,
+  type DynamicFieldValues,
+  type DynamicGroupChildValues
+} from '@/lib/schemas/form-schemas';
+import { formatDynamicAnswer } from '@/lib/dynamic-forms/answers';
+import { resolveOptionSets } from '@/lib/dynamic-forms/options';
+import { createExportStream, type ExportColumn, type ExportFormat, type ExportValue } from '@/lib/exports/formats';
+import type { SubmissionFilters } from '@/lib/repositories/sql';
+import { streamContactSubmissions, type ContactSubmission } from '@/lib/repositories/contact-submissions';
+import { streamMultiStepSubmissions, type MultiStepSubmission } from '@/lib/repositories/multistep-submissions';
+import { streamFileSubmissions, type FileSubmission } from '@/lib/repositories/file-submissions';
+import { streamDynamicResponses, type DynamicResponse } from '@/lib/repositories/dynamic-responses';
+import {
+  findDynamicForm,
+  listDynamicFormVersionDefinitions,
+  type DynamicFormVersionRecord
+} from '@/lib/repositories/dynamic-forms';
+import { submissionTypes, type SubmissionType } from './submissions';
+
+// A column that can be selected for an export
+export interface SubmissionExportColumn {
+  key: string;
+  label: string;
+}
+
+// Submissions ready to be exported; nothing is read from the database until the export is written
+export interface SubmissionExport {
+  // Used as the XLSX worksheet name
+  title: string;
+  // Name of the downloaded file, without its extension
+  fileName: string;
+  // Every column of the export, in their default order
+  columns: SubmissionExportColumn[];
+  /**
+   * Writes the matching submissions, oldest first
+   * @param format Format to write
+   * @param fields Keys of the columns to write, in order; every column when not given
+   */
+  write: (format: ExportFormat, fields?: string[]) => ReadableStream<Uint8Array>;
+}
+
+export interface SubmissionExportOptions {
+  filters: SubmissionFilters;
+  // Form whose responses are exported, for dynamic forms
+  formId?: number;
+}
+
+const contactColumns: ExportColumn<ContactSubmission>[] = [
+  { key: 'id', label: 'ID', value: submission => submission.id },
+  { key: 'createdAt', label: 'Submitted', value: submission => submission.createdAt },
+  { key: 'name', label: 'Name', value: submission => submission.name },
+  { key: 'email', label: 'Email', value: submission => submission.email },
+  { key: 'subject', label: 'Subject', value: submission => submission.subject },
+  { key: 'message', label: 'Message', value: submission => submission.message },
+];
+
+const multiStepColumns: ExportColumn<MultiStepSubmission>[] = [
+  { key: 'id', label: 'ID', value: submission => submission.id },
+  { key: 'createdAt', label: 'Submitted', value: submission => submission.createdAt },
+  { key: 'firstName', label: 'First Name', value: submission => submission.firstName },
+  { key: 'lastName', label: 'Last Name', value: submission => submission.lastName },
+  { key: 'email', label: 'Email', value: submission => submission.email },
+  { key: 'phone', label: 'Phone', value: submission => submission.phone ?? null },
+  { key: 'addressLine1', label: 'Address Line 1', value: submission => submission.addressLine1 },
+  { key: 'addressLine2', label: 'Address Line 2', value: submission => submission.addressLine2 ?? null },
+  { key: 'city', label: 'City', value: submission => submission.city },
+  { key: 'state', label: 'State', value: submission => submission.state },
+  { key: 'postalCode', label: 'Postal Code', value: submission => submission.postalCode },
+  { key: 'country', label: 'Country', value: submission => submission.country },
+  { key: 'receiveNewsletter', label: 'Newsletter', value: submission => submission.preferences.receiveNewsletter },
+  { key: 'receiveUpdates', label: 'Product Updates', value: submission => submission.preferences.receiveUpdates },
+  { key: 'marketingConsent', label: 'Marketing Consent', value: submission => submission.preferences.marketingConsent },
+  { key: 'sessionId', label: 'Session', value: submission => submission.sessionId },
+];
+
+const fileColumns: ExportColumn<FileSubmission>[] = [
+  { key: 'id', label: 'ID', value: submission => submission.id },
+  { key: 'createdAt', label: 'Submitted', value: submission => submission.createdAt },
+  { key: 'name', label: 'Name', value: submission => submission.name },
+  { key: 'email', label: 'Email', value: submission => submission.email },
+  { key: 'fileName', label: 'File', value: submission => submission.fileName },
+  { key: 'fileType', label: 'Type', value: submission => submission.fileType },
+  { key: 'fileSize', label: 'Size (bytes)', value: submission => submission.fileSize },
+  { key: 'filePath', label: 'Path', value: submission => submission.filePath },
+];
+
+// Columns of a response before its answers
+const responseColumns: ExportColumn<DynamicResponse>[] = [
+  { key: 'id', label: 'Response ID', value: response => response.id },
+  { key: 'createdAt', label: 'Submitted', value: response => response.createdAt },
+  { key: 'version', label: 'Version', value: response => response.version },
+];
+
+// Columns of a response after its answers; the score columns are left out for forms that were never quizzes
+const scoreColumns: ExportColumn<DynamicResponse>[] = [
+  { key: 'score', label: 'Score', value: response => response.score },
+  { key: 'maxScore', label: 'Max Score', value: response => response.maxScore },
+];
+
+const sourceColumns: ExportColumn<DynamicResponse>[] = [
+  { key: 'referrer', label: 'Referrer', value: response => response.metadata.referrer ?? null },
+  { key: 'utm_source', label: 'UTM Source', value: response => response.metadata.utm_source ?? null },
+  { key: 'utm_medium', label: 'UTM Medium', value: response => response.metadata.utm_medium ?? null },
+  { key: 'utm_campaign', label: 'UTM Campaign', value: response => response.metadata.utm_campaign ?? null },
+  { key: 'utm_term', label: 'UTM Term', value: response => response.metadata.utm_term ?? null },
+  { key: 'utm_content', label: 'UTM Content', value: response => response.metadata.utm_content ?? null },
+];
+
+// A field answered in a version, found by its column key
+interface AnsweredField {
+  field: DynamicFieldValues | DynamicGroupChildValues;
+  // Group the field repeats in, for fields inside repeatable groups
+  groupId?: string;
+}
+
+// An answer as a cell: numbers and booleans stay typed, options show their labels
+function toAnswerValue(field: AnsweredField['field'], answer: DynamicAnswerValues | undefined): ExportValue {
+  if (answer === undefined || answer === null || answer === '') return null;
+  if (Array.isArray(answer) && answer.length === 0) return null;
+  if (typeof answer === 'number' || typeof answer === 'boolean') return answer;
+
+  return formatDynamicAnswer(field, answer);
+}
+
+/**
+ * Flattens the answers of a form's responses into one column per field,
+ * across every published version. A field keeps one column through all
+ * versions, labelled as in the newest version that has it, while each answer
+ * is formatted with the version it answered. Fields in repeatable groups get
+ * one column holding the answers of every entry.
+ * @param versions Published versions of the form, newest first
+ */
+function getAnswerColumns(versions: DynamicFormVersionRecord[]): ExportColumn<DynamicResponse>[] {
+  const labels = new Map<string, string>();
+  const fieldsByVersion = new Map<number, Map<string, AnsweredField>>();
+
+  for (const { version, definition } of versions) {
+    const parsed = dynamicFormSchema.safeParse(definition);
+    if (!parsed.success) continue;
+
+    const fields = new Map<string, AnsweredField>();
+    for (const field of resolveOptionSets(parsed.data).fields) {
+      if (field.type !== 'group') {
+        fields.set(field.id, { field });
+        if (!labels.has(field.id)) labels.set(field.id, field.label);
+        continue;
+      }
+
+      for (const child of field.fields || []) {
+        const key = `${field.id}.${child.id}`;
+        fields.set(key, { field: child, groupId: field.id });
+        if (!labels.has(key)) labels.set(key, `${field.label}: ${child.label}`);
+      }
+    }
+    fieldsByVersion.set(version, fields);
+  }
+
+  return [...labels].map(([key, label]) => ({
+    key: `answers.${key}`,
+    label,
+    value: response => {
+      const answered = fieldsByVersion.get(response.version)?.get(key);
+      if (!answered) return null;
+
+      const answer = response.answers[answered.groupId ?? answered.field.id];
+      if (!answered.groupId) return toAnswerValue(answered.field, answer as DynamicAnswerValues | undefined);
+
+      const entries = Array.isArray(answer) ? answer.filter(entry => typeof entry === 'object' && entry !== null) : [];
+      // Entries keep their position, so the columns of a group line up
+      const values = entries.map(entry => toAnswerValue(answered.field, entry[answered.field.id]));
+      return values.some(value => value !== null) ? values.map(value => value ?? '').join('; ') : null;
+    },
+  }));
+}
+
+// Number repeated headers, e.g. a question labelled "Email" next to another becomes "Email (2)"
+function withUniqueLabels<T>(columns: ExportColumn<T>[]): ExportColumn<T>[] {
+  const counts = new Map<string, number>();
+
+  return columns.map(column => {
+    const count = (counts.get(column.label) ?? 0) + 1;
+    counts.set(column.label, count);
+    return count > 1 ? { ...column, label: `${column.label} (${count})` } : column;
+  });
+}
+
+function toSubmissionExport<T>(
+  title: string,
+  fileName: string,
+  columns: ExportColumn<T>[],
+  readRows: () => AsyncIterable<T>
+): SubmissionExport {
+  return {
+    title,
+    fileName: `${fileName}-${new Date().toISOString().slice(0, 10)}`,
+    columns: columns.map(({ key, label }) => ({ key, label })),
+    write: (format, fields) => {
+      const selected = fields
+        ? fields.flatMap(key => columns.filter(column => column.key === key))
+        : columns;
+      return createExportStream(format, selected, readRows(), title);
+    },
+  };
+}
+
+/**
+ * Prepares the export of a tab's submissions
+ * @param type Tab to export
+ * @param options Filters, and the form to export for dynamic forms
+ * @returns The export, or null when the form to export does not exist
+ */
+export async function getSubmissionExport(
+  type: SubmissionType,
+  { filters, formId }: SubmissionExportOptions
+): Promise<SubmissionExport | null> {
+  switch (type) {
+    case 'contact':
+      return toSubmissionExport(submissionTypes.contact, 'contact-submissions', contactColumns, () =>
+        streamContactSubmissions(filters)
+      );
+    case 'multi-step':
+      return toSubmissionExport(submissionTypes['multi-step'], 'multi-step-submissions', multiStepColumns, () =>
+        streamMultiStepSubmissions(filters)
+      );
+    case 'files':
+      return toSubmissionExport(submissionTypes.files, 'file-uploads', fileColumns, () =>
+        streamFileSubmissions(filters)
+      );
+    case 'dynamic': {
+      const form = formId ? await findDynamicForm(formId) : null;
+      if (!form) return null;
+
+      const versions = await listDynamicFormVersionDefinitions(form.id);
+      const isQuiz = versions.some(({ definition }) => definition.quiz);
+      const columns = withUniqueLabels([
+        ...responseColumns,
+        ...getAnswerColumns(versions),
+        ...(isQuiz ? scoreColumns : []),
+        ...sourceColumns,
+      ]);
+
+      return toSubmissionExport(
+        versions[0]?.definition.formName || form.definition.formName,
+        `form-${form.id}-responses`,
+        columns,
+        () => streamDynamicResponses({ formId: form.id, filters })
+      );
+    }
+  }
+}
@@ -0,0 +1,360 @@
+import { dynamicFormSchema, type SubmissionListQueryValues } from '@/lib/schemas/form-schemas';
+import { getLabelledAnswers } from '@/lib/dynamic-forms/answers';
+import { formatDateTime, formatFileSize } from '@/lib/utils';
+import type { ListOptions, SubmissionFilters } from '@/lib/repositories/sql';
+import {
+  countContactSubmissions,
+  findContactSubmission,
+  listContactSubmissions,
+  type ContactSubmissionSortColumn
+} from '@/lib/repositories/contact-submissions';
+import {
+  countMultiStepSubmissions,
+  findMultiStepSubmission,
+  listMultiStepSubmissions,
+  type MultiStepSubmissionSortColumn
+} from '@/lib/repositories/multistep-submissions';
+import {
+  countDynamicResponses,
+  findDynamicResponse,
+  listDynamicResponses,
+  type DynamicResponseSortColumn
+} from '@/lib/repositories/dynamic-responses';
+import {
+  countFileSubmissions,
+  findFileSubmission,
+  listFileSubmissions,
+  type FileSubmissionSortColumn
+} from '@/lib/repositories/file-submissions';
+import { findDynamicFormVersion } from '@/lib/repositories/dynamic-forms';
+
+// Tabs of the submissions admin, keyed by the path segment that selects them
+export const submissionTypes = {
+  contact: 'Contact Form',
+  'multi-step': 'Multi-Step Form',
+  dynamic: 'Dynamic Forms',
+  files: 'File Uploads',
+} as const;
+
+export type SubmissionType = keyof typeof submissionTypes;
+
+export interface SubmissionColumn {
+  key: string;
+  label: string;
+  sortable: boolean;
+}
+
+// A listed submission, with each cell formatted for display
+export interface SubmissionRow {
+  id: number;
+  cells: Record<string, string>;
+}
+
+export interface SubmissionPage {
+  columns: SubmissionColumn[];
+  rows: SubmissionRow[];
+  total: number;
+}
+
+export interface SubmissionDetailItem {
+  label: string;
+  value: string;
+  href?: string;
+  // Whether the link downloads the stored file of an upload
+  download?: boolean;
+}
+
+export interface SubmissionDetailSection {
+  heading: string;
+  items: SubmissionDetailItem[];
+}
+
+export interface SubmissionDetail {
+  title: string;
+  submittedAt: string;
+  sections: SubmissionDetailSection[];
+  // Form the response answered, for dynamic forms
+  formId?: number;
+}
+
+/**
+ * Reads the submission type from a route parameter
+ * @returns The type, or null when the parameter names no tab
+ */
+export function parseSubmissionType(value: string): SubmissionType | null {
+  return Object.hasOwn(submissionTypes, value) ? (value as SubmissionType) : null;
+}
+
+/**
+ * Parses a submission id from a route parameter
+ * @returns The numeric id, or null when the parameter is not a valid id
+ */
+export function parseSubmissionId(id: string): number | null {
+  const submissionId = Number(id);
+  return Number.isInteger(submissionId) && submissionId > 0 ? submissionId : null;
+}
+
+// Columns of each tab; the first column links to the submission
+const columns: Record<SubmissionType, SubmissionColumn[]> = {
+  contact: [
+    { key: 'name', label: 'Name', sortable: true },
+    { key: 'email', label: 'Email', sortable: true },
+    { key: 'subject', label: 'Subject', sortable: true },
+    { key: 'createdAt', label: 'Submitted', sortable: true },
+  ],
+  'multi-step': [
+    { key: 'lastName', label: 'Name', sortable: true },
+    { key: 'email', label: 'Email', sortable: true },
+    { key: 'city', label: 'City', sortable: true },
+    { key: 'country', label: 'Country', sortable: true },
+    { key: 'createdAt', label: 'Submitted', sortable: true },
+  ],
+  dynamic: [
+    { key: 'formName', label: 'Form', sortable: true },
+    { key: 'version', label: 'Version', sortable: false },
+    { key: 'score', label: 'Score', sortable: true },
+    { key: 'createdAt', label: 'Submitted', sortable: true },
+  ],
+  files: [
+    { key: 'fileName', label: 'File', sortable: true },
+    { key: 'name', label: 'Name', sortable: true },
+    { key: 'email', label: 'Email', sortable: true },
+    { key: 'fileSize', label: 'Size', sortable: true },
+    { key: 'createdAt', label: 'Submitted', sortable: true },
+  ],
+};
+
+// Turn the validated query string into repository list options, ignoring unknown sort columns
+function toListOptions<S extends string>(type: SubmissionType, query: SubmissionListQueryValues): ListOptions<S> {
+  const sortable = columns[type].some(column => column.sortable && column.key === query.sort);
+
+  return {
+    limit: query.pageSize,
+    offset: (query.page - 1) * query.pageSize,
+    filters: toFilters(query),
+    sort: sortable ? { column: query.sort as S, direction: query.direction } : undefined,
+  };
+}
+
+const toFilters = ({ email, from, to }: SubmissionListQueryValues): SubmissionFilters => ({ email, from, to });
+
+/**
+ * Loads one page of a tab's submissions
+ * @param type Tab to list
+ * @param query Validated paging, sorting and filters
+ */
+export async function listSubmissions(type: SubmissionType, query: SubmissionListQueryValues): Promise<SubmissionPage> {
+  const filters = toFilters(query);
+
+  switch (type) {
+    case 'contact': {
+      const [submissions, total] = await Promise.all([
+        listContactSubmissions(toListOptions<ContactSubmissionSortColumn>(type, query)),
+        countContactSubmissions(filters),
+      ]);
+      return {
+        columns: columns[type],
+        total,
+        rows: submissions.map(submission => ({
+          id: submission.id,
+          cells: {
+            name: submission.name,
+            email: submission.email,
+            subject: submission.subject,
+            createdAt: formatDateTime(submission.createdAt),
+          },
+        })),
+      };
+    }
+    case 'multi-step': {
+      const [submissions, total] = await Promise.all([
+        listMultiStepSubmissions(toListOptions<MultiStepSubmissionSortColumn>(type, query)),
+        countMultiStepSubmissions(filters),
+      ]);
+      return {
+        columns: columns[type],
+        total,
+        rows: submissions.map(submission => ({
+          id: submission.id,
+          cells: {
+            lastName: `${submission.firstName} ${submission.lastName}`,
+            email: submission.email,
+            city: submission.city,
+            country: submission.country,
+            createdAt: formatDateTime(submission.createdAt),
+          },
+        })),
+      };
+    }
+    case 'dynamic': {
+      const [responses, total] = await Promise.all([
+        listDynamicResponses(toListOptions<DynamicResponseSortColumn>(type, query)),
+        countDynamicResponses({ filters }),
+      ]);
+      return {
+        columns: columns[type],
+        total,
+        rows: responses.map(response => ({
+          id: response.id,
+          cells: {
+            formName: response.formName,
+            version: String(response.version),
+            score: response.score === null ? '—' : `${response.score} / ${response.maxScore}`,
+            createdAt: formatDateTime(response.createdAt),
+          },
+        })),
+      };
+    }
+    case 'files': {
+      const [submissions, total] = await Promise.all([
+        listFileSubmissions(toListOptions<FileSubmissionSortColumn>(type, query)),
+        countFileSubmissions(filters),
+      ]);
+      return {
+        columns: columns[type],
+        total,
+        rows: submissions.map(submission => ({
+          id: submission.id,
+          cells: {
+            fileName: submission.fileName,
+            name: submission.name,
+            email: submission.email,
+            fileSize: formatFileSize(submission.fileSize),
+            createdAt: formatDateTime(submission.createdAt),
+          },
+        })),
+      };
+    }
+  }
+}
+
+// Label optional text that was left empty
+const orDash = (value: string | null | undefined) => value || '—';
+
+/**
+ * Loads one submission with every stored value, grouped for display
+ * @returns The submission, or null when it does not exist
+ */
+export async function getSubmissionDetail(type: SubmissionType, id: number): Promise<SubmissionDetail | null> {
+  switch (type) {
+    case 'contact': {
+      const submission = await findContactSubmission(id);
+      if (!submission) return null;
+
+      return {
+        title: submission.subject,
+        submittedAt: formatDateTime(submission.createdAt),
+        sections: [
+          {
+            heading: 'Contact',
+            items: [
+              { label: 'Name', value: submission.name },
+              { label: 'Email', value: submission.email },
+              { label: 'Subject', value: submission.subject },
+              { label: 'Message', value: submission.message },
+            ],
+          },
+        ],
+      };
+    }
+    case 'multi-step': {
+      const submission = await findMultiStepSubmission(id);
+      if (!submission) return null;
+
+      const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+      return {
+        title: `${submission.firstName} ${submission.lastName}`,
+        submittedAt: formatDateTime(submission.createdAt),
+        sections: [
+          {
+            heading: 'Personal Information',
+            items: [
+              { label: 'First name', value: submission.firstName },
+              { label: 'Last name', value: submission.lastName },
+              { label: 'Email', value: submission.email },
+            ],
+          },
+          {
+            heading: 'Address',
+            items: [
+              { label: 'Address line 1', value: submission.addressLine1 },
+              { label: 'Address line 2', value: orDash(submission.addressLine2) },
+              { label: 'City', value: submission.city },
+              { label: 'State', value: submission.state },
+              { label: 'Postal code', value: submission.postalCode },
+              { label: 'Country', value: submission.country },
+            ],
+          },
+          {
+            heading: 'Additional Information',
+            items: [
+              { label: 'Phone', value: orDash(submission.phone) },
+              { label: 'Receive newsletter', value: yesNo(submission.preferences.receiveNewsletter) },
+              { label: 'Receive updates', value: yesNo(submission.preferences.receiveUpdates) },
+              { label: 'Marketing consent', value: yesNo(submission.preferences.marketingConsent) },
+              { label: 'Saved step by step', value: yesNo(submission.sessionId !== null) },
+            ],
+          },
+        ],
+      };
+    }
+    case 'dynamic': {
+      const response = await findDynamicResponse(id);
+      if (!response) return null;
+
+      // Answers are labelled with the version they answered, not the current draft
+      const version = await findDynamicFormVersion(response.formId, response.version);
+      const definition = dynamicFormSchema.safeParse(version?.definition);
+      const answers = definition.success
+        ? getLabelledAnswers(definition.data, response.answers)
+        : Object.entries(response.answers).map(([label, value]) => ({ label, value: JSON.stringify(value) }));
+      const { referrer, ...utm } = response.metadata;
+
+      return {
+        title: `${response.formName} (version ${response.version})`,
+        submittedAt: formatDateTime(response.createdAt),
+        formId: response.formId,
+        sections: [
+          { heading: 'Answers', items: answers },
+          ...(response.score !== null
+            ? [{ heading: 'Quiz', items: [{ label: 'Score', value: `${response.score} / ${response.maxScore}` }] }]
+            : []),
+          {
+            heading: 'Source',
+            items: [
+              // Only web pages are linked, never other URL schemes
+              { label: 'Referrer', value: orDash(referrer), href: referrer && /^https?:\/\//.test(referrer) ? referrer : undefined },
+              ...Object.entries(utm).map(([label, value]) => ({ label, value: orDash(value) })),
+            ],
+          },
+        ],
+      };
+    }
+    case 'files': {
+      const submission = await findFileSubmission(id);
+      if (!submission) return null;
+
+      return {
+        title: submission.fileName,
+        submittedAt: formatDateTime(submission.createdAt),
+        sections: [
+          {
+            heading: 'Submitter',
+            items: [
+              { label: 'Name', value: submission.name },
+              { label: 'Email', value: submission.email },
+            ],
+          },
+          {
+            heading: 'File',
+            items: [
+              { label: 'File', value: submission.fileName, href: submission.filePath, download: true },
+              { label: 'Type', value: submission.fileType },
+              { label: 'Size', value: formatFileSize(submission.fileSize) },
+            ],
+          },
+        ],
+      };
+    }
+  }
+}
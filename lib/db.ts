@@ -7,6 +7,9 @@ const connectionString = process.env.DATABASE_URL;
 // Check if in production or development
 const isDev = process.env.NODE_ENV !== 'production';
 
+// Values that can be passed as query parameters
+export type QueryParam = string | number | boolean | null;
+
 // Initialize connection pool - if in development, use direct connection
 // If in production, use neon serverless connection
 let db: Pool;
@@ -20,11 +23,12 @@ if (isDev) {
   db = new Pool({ connectionString });
 } else {
   // For production, use neon serverless
-  const sql = neon(connectionString);
+  // fullResults keeps the { rows, rowCount } shape that pg returns
+  const sql = neon(connectionString, { fullResults: true });
   
   // Create a Pool-like interface that uses neon serverless under the hood
   db = {
-    query: async (text: string, params?: (string | number | boolean | null)[]) => {
+    query: async (text: string, params?: QueryParam[]) => {
       return await sql(text, params);
     },
     // Add minimal Pool implementation for TypeScript
@@ -32,7 +36,7 @@ if (isDev) {
     on: () => {},
     connect: async () => {
       return {
-        query: async (text: string, params?: (string | number | boolean | null)[]) => {
+        query: async (text: string, params?: QueryParam[]) => {
           return await sql(text, params);
         },
         release: () => {},
@@ -47,7 +51,7 @@ if (isDev) {
  * @param params Query parameters
  * @returns Query result
  */
-export async function query(text: string, params?: (string | number | boolean | null)[]) {
+export async function query(text: string, params?: QueryParam[]) {
   try {
     const start = Date.now();
     const result = await db.query(text, params);
@@ -61,4 +65,12 @@ export async function query(text: string, params?: (string | number | boolean |
   }
 }
 
+/**
+ * Checks whether a query failed because it broke a unique constraint
+ * @param error Error thrown by query
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === '23505';
+}
+
 export default db;
\ No newline at end of file
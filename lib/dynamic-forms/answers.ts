@@ -0,0 +1,64 @@
+import type { DynamicAnswerValues, DynamicFieldValues, DynamicFormValues, DynamicResponseValues } from '@/lib/schemas/form-schemas';
+import { formatCalculatedValue } from './formula';
+import { getAllOptions, resolveOptionSets } from './options';
+
+// One answer of a stored response, labelled for reading
+export interface LabelledAnswer {
+  // Field label, prefixed with the group and entry for answers inside repeatable groups
+  label: string;
+  value: string;
+}
+
+/**
+ * Formats a stored answer for display, showing option labels instead of
+ * their values, e.g. ["us", "ca"] becomes "United States, Canada"
+ * @param field Field the answer belongs to, with option sets resolved
+ * @param answer Stored answer
+ */
+export function formatDynamicAnswer(field: DynamicFieldValues, answer: DynamicAnswerValues | undefined): string {
+  if (answer === undefined || answer === null || answer === '') return '—';
+  if (field.type === 'calculated') return formatCalculatedValue(typeof answer === 'number' ? answer : null);
+  if (typeof answer === 'boolean') return answer ? 'Yes' : 'No';
+
+  const options = getAllOptions(field);
+  const toLabel = (value: string) => options.find(option => option.value === value)?.label ?? value;
+
+  if (Array.isArray(answer)) return answer.length > 0 ? answer.map(toLabel).join(', ') : '—';
+  return typeof answer === 'string' ? toLabel(answer) : String(answer);
+}
+
+/**
+ * Lists the answers of a stored response in the order of the form's fields,
+ * with one answer per field of each repeatable group entry
+ * @param definition Definition of the version the response answered
+ * @param answers Stored answers keyed by field id
+ */
+export function getLabelledAnswers(definition: DynamicFormValues, answers: DynamicResponseValues): LabelledAnswer[] {
+  const { fields } = resolveOptionSets(definition);
+  const labelled: LabelledAnswer[] = [];
+
+  for (const field of fields) {
+    const answer = answers[field.id];
+
+    if (field.type !== 'group') {
+      labelled.push({ label: field.label, value: formatDynamicAnswer(field, answer as DynamicAnswerValues | undefined) });
+      continue;
+    }
+
+    const entries = Array.isArray(answer) ? answer.filter(entry => typeof entry === 'object' && entry !== null) : [];
+    if (entries.length === 0) {
+      labelled.push({ label: field.label, value: '—' });
+    }
+
+    entries.forEach((entry, index) => {
+      for (const child of field.fields || []) {
+        labelled.push({
+          label: `${field.label} ${index + 1}: ${child.label}`,
+          value: formatDynamicAnswer(child, entry[child.id]),
+        });
+      }
+    });
+  }
+
+  return labelled;
+}
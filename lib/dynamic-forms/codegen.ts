@@ -0,0 +1,1149 @@
+import type {
+  DynamicFieldValues,
+  DynamicFormValues,
+  VisibilityCondition
+} from '@/lib/schemas/form-schemas';
+import { compilePattern, describeFieldConstraints, getApplicableConstraints, pluralize } from './constraints';
+import { getRangeBounds, getRatingScale, getRepeatBounds, isMultiValueField } from './field-types';
+import { findFormulaLoops, parseFormula, type FormulaNode } from './formula';
+import { resolveOptionSets, type FieldOption } from './options';
+import { getFormPages } from './sections';
+
+export interface GeneratedFormModule {
+  // Suggested file name, e.g. "ContactUsForm.tsx"
+  fileName: string;
+  componentName: string;
+  code: string;
+}
+
+// A field with the names used for it in the generated code
+interface GeneratedField {
+  field: DynamicFieldValues;
+  // Property name of the field's answer
+  key: string;
+  // Constant holding the field's options, for option fields, keyed by answer for dependent options
+  optionsName?: string;
+  // Key of the field whose answer chooses the options
+  dependsOn?: string;
+  // Fields of a repeatable group
+  children?: GeneratedField[];
+  // Function working out a calculated field
+  calculateName?: string;
+}
+
+// How a field is addressed when rendered at the top level or inside a group entry
+interface RenderContext {
+  // Expression for the path passed to register
+  name: string;
+  // Expression for the field's error
+  error: string;
+  // Expression for an element id, given a suffix such as "-error"
+  id: (suffix?: string) => string;
+  // Expression for the answers the field's visibility rule is checked against
+  answers: string;
+  // Expression for the answer to another field in the same list
+  answerOf: (key: string) => string;
+  // Constant holding the visibility rules of the fields being rendered
+  rulesName: string;
+}
+
+// Digits with optional leading +, spaces, dots, dashes and parentheses, as accepted by the API
+const PHONE_PATTERN = '/^\\+?[0-9\\s().-]{7,20}$/';
+
+// Input types of fields rendered with the Input component
+const inputTypes: Partial<Record<DynamicFieldValues['type'], string>> = {
+  text: 'text',
+  email: 'email',
+  url: 'url',
+  phone: 'tel',
+  number: 'number',
+  date: 'date',
+  time: 'time',
+  datetime: 'datetime-local',
+};
+
+// Class names shared by the generated markup
+const labelClassName = 'block text-sm font-medium text-gray-700';
+const controlClassName = 'w-full rounded-md border border-input p-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+// Split text into words of letters and digits
+const toWords = (text: string) => text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// Turn text into a camelCase identifier, e.g. "First name" becomes "firstName"
+function toCamelCase(text: string, fallback: string): string {
+  const [first, ...rest] = toWords(text);
+  if (!first) return fallback;
+
+  const head = first === first.toUpperCase() ? first.toLowerCase() : first.charAt(0).toLowerCase() + first.slice(1);
+  const identifier = head + rest.map(capitalize).join('');
+
+  return /^[0-9]/.test(identifier) ? fallback + capitalize(identifier) : identifier;
+}
+
+// Pick a name that is not taken yet, adding a numeric suffix when needed
+function claimName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+
+  taken.add(name);
+  return name;
+}
+
+// Quote text as a single-quoted string literal
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`;
+}
+
+// Escape text for use inside a template literal
+const templateText = (text: string) => text.replace(/[\\`]/g, '\\$&').replace(/\$\{/g, '\\${');
+
+// Text as a JSX attribute value, falling back to an expression when quotes or entities would break it
+const attrValue = (text: string) => (/["&\n]/.test(text) ? `{${quote(text)}}` : `"${text}"`);
+
+// Text as JSX children, falling back to an expression when it contains markup characters or quotes
+const jsxText = (text: string) => (/[{}<>&"'\n]/.test(text) ? `{${quote(text)}}` : text);
+
+// An expression as a JSX attribute value, using a plain string for string literals
+const exprAttr = (expression: string) => (/^'[^'\\"&]*'$/.test(expression) ? `"${expression.slice(1, -1)}"` : `{${expression}}`);
+
+// Indent each line of generated code
+const indent = (lines: string[], depth: number) => lines.map(line => (line ? '  '.repeat(depth) + line : line));
+
+const hasVisibilityRule = (field: DynamicFieldValues) => (field.visibleWhen?.conditions.length ?? 0) > 0;
+
+// Kind of answer a field produces, which decides its default value and blank check
+function getAnswerKind(field: DynamicFieldValues): 'list' | 'boolean' | 'number' | 'text' {
+  if (field.type === 'group' || isMultiValueField(field)) return 'list';
+  if (field.type === 'checkbox') return 'boolean';
+  if (field.type === 'number' || field.type === 'range') return 'number';
+  return 'text';
+}
+
+// Default value of a field, as an expression
+function getDefaultValue(field: GeneratedField): string {
+  if (field.field.type === 'range') return String(getRangeBounds(field.field).min);
+
+  switch (getAnswerKind(field.field)) {
+    case 'list':
+      return '[]';
+    case 'boolean':
+      return 'false';
+    case 'number':
+      // Number inputs show NaN as empty
+      return 'NaN';
+    case 'text':
+      return "''";
+  }
+}
+
+// Condition that holds when a required answer is missing
+function getBlankCheck(field: GeneratedField, value: string): string {
+  switch (getAnswerKind(field.field)) {
+    case 'list':
+      return `!${value}?.length`;
+    case 'number':
+      return `${value} === undefined || Number.isNaN(${value})`;
+    default:
+      return `!${value}`;
+  }
+}
+
+// Track the helpers used by the generated visibility rules
+interface HelperUsage {
+  answerText: boolean;
+  answerList: boolean;
+}
+
+// Expression for a visibility condition, mirroring evaluateCondition in visibility.ts
+function conditionToExpression(
+  condition: VisibilityCondition,
+  siblings: GeneratedField[],
+  helpers: HelperUsage
+): string {
+  // Calculated fields are not answers, so conditions on them never see a value
+  const source = siblings.find(sibling => sibling.field.id === condition.fieldId && sibling.field.type !== 'calculated');
+  const answer = source ? `values.${source.key}` : 'undefined';
+  const value = quote(condition.value);
+  const threshold = Number(condition.value);
+
+  if (source && isMultiValueField(source.field)) {
+    helpers.answerList = true;
+    switch (condition.operator) {
+      case 'equals':
+        return `answerList(${answer}).includes(${value})`;
+      case 'notEquals':
+        return `!answerList(${answer}).includes(${value})`;
+      case 'contains':
+        return `answerList(${answer}).some(item => item.toLowerCase().includes(${quote(condition.value.toLowerCase())}))`;
+      case 'greaterThan':
+        return Number.isFinite(threshold) ? `answerList(${answer}).length > ${threshold}` : 'false';
+    }
+  }
+
+  helpers.answerText = true;
+  switch (condition.operator) {
+    case 'equals':
+      return `answerText(${answer}) === ${value}`;
+    case 'notEquals':
+      return `answerText(${answer}) !== ${value}`;
+    case 'contains':
+      return `answerText(${answer}).toLowerCase().includes(${quote(condition.value.toLowerCase())})`;
+    case 'greaterThan':
+      return Number.isFinite(threshold) ? `answerText(${answer}) !== '' && Number(${answer}) > ${threshold}` : 'false';
+  }
+}
+
+// Visibility rules of the fields in a list that have one
+function generateVisibilityRules(
+  rulesName: string,
+  fields: GeneratedField[],
+  helpers: HelperUsage
+): string[] {
+  const conditional = fields.filter(field => hasVisibilityRule(field.field));
+  if (conditional.length === 0) return [];
+
+  const rules = conditional.map(field => {
+    const { combinator, conditions } = field.field.visibleWhen!;
+    const expressions = conditions.map(condition => conditionToExpression(condition, fields, helpers));
+    const body = expressions.length === 1
+      ? expressions[0]
+      : expressions.map(expression => `(${expression})`).join(combinator === 'or' ? ' || ' : ' && ');
+
+    return `  ${field.key}: (values: Answers) => ${body},`;
+  });
+
+  return [`const ${rulesName} = {`, ...rules, '};', ''];
+}
+
+// Helpers used by the generated formulas, besides toNumber and toResult which they all use
+type FormulaHelper = 'numberAnswer' | 'isTruthy' | 'isEqual' | 'numbers' | 'count' | 'minOf' | 'maxOf' | 'roundTo';
+
+// Definitions of the formula helpers, mirroring the functions of formula.ts
+const formulaHelperLines: Record<FormulaHelper, string[]> = {
+  numberAnswer: [
+    '// Number inputs hold NaN while blank',
+    "const numberAnswer = (value: unknown) => (typeof value === 'number' && Number.isNaN(value) ? null : value);",
+  ],
+  isTruthy: [
+    '// Whether a value counts as true: non-zero numbers, non-blank text and lists with a selection',
+    "const isTruthy = (value: unknown) => (Array.isArray(value) ? value.length > 0 : typeof value === 'number' ? value !== 0 && !Number.isNaN(value) : !!value);",
+  ],
+  isEqual: [
+    '// Compare two values, numerically when both are numbers; a list equals a value it contains',
+    'const isEqual = (left: unknown, right: unknown): boolean => {',
+    '  if (Array.isArray(left)) return left.some(item => isEqual(item, right));',
+    '  if (Array.isArray(right)) return isEqual(right, left);',
+    "  if ((typeof left !== 'string' || typeof right !== 'string') && !Number.isNaN(toNumber(left)) && !Number.isNaN(toNumber(right))) {",
+    '    return toNumber(left) === toNumber(right);',
+    '  }',
+    "  return String(left ?? '') === String(right ?? '');",
+    '};',
+  ],
+  numbers: [
+    '// Numbers of the arguments to sum, min and max, with lists of selected values spread out',
+    'const numbers = (...values: unknown[]) => values.flatMap(value => (Array.isArray(value) ? value : [value])).map(toNumber);',
+  ],
+  count: [
+    '// Number of selected values, or 1 for any other answer that is not blank',
+    "const count = (value: unknown) => (Array.isArray(value) ? value.length : value === undefined || value === null || value === '' || value === false ? 0 : 1);",
+  ],
+  // Smallest and largest of the numbers, or 0 when there are none
+  minOf: [
+    'const minOf = (...values: unknown[]) => {',
+    '  const list = numbers(...values);',
+    '  return list.length > 0 ? Math.min(...list) : 0;',
+    '};',
+  ],
+  maxOf: [
+    'const maxOf = (...values: unknown[]) => {',
+    '  const list = numbers(...values);',
+    '  return list.length > 0 ? Math.max(...list) : 0;',
+    '};',
+  ],
+  roundTo: [
+    'const roundTo = (value: unknown, digits: unknown = 0) => {',
+    '  const factor = 10 ** toNumber(digits);',
+    '  return Math.round(toNumber(value) * factor) / factor;',
+    '};',
+  ],
+};
+
+// Formula nodes that always produce a number or a boolean, so need no conversion
+const isNumericNode = (node: FormulaNode) =>
+  node.kind === 'number' ||
+  node.kind === 'call' ||
+  (node.kind === 'unary' && node.operator === '-') ||
+  (node.kind === 'binary' && ['+', '-', '*', '/', '%'].includes(node.operator));
+const isBooleanNode = (node: FormulaNode) =>
+  node.kind === 'boolean' ||
+  (node.kind === 'unary' && node.operator === 'not') ||
+  (node.kind === 'binary' && !isNumericNode(node));
+
+// Expression for a formula, mirroring evaluateNode in formula.ts
+function formulaToExpression(
+  node: FormulaNode,
+  siblings: GeneratedField[],
+  helpers: Set<FormulaHelper>
+): string {
+  const helper = (name: FormulaHelper) => (helpers.add(name), name);
+  const toExpression = (operand: FormulaNode) => formulaToExpression(operand, siblings, helpers);
+  const toNumber = (operand: FormulaNode) =>
+    isNumericNode(operand) ? toExpression(operand) : `toNumber(${toExpression(operand)})`;
+  const toCondition = (operand: FormulaNode) =>
+    isBooleanNode(operand) ? toExpression(operand) : `${helper('isTruthy')}(${toExpression(operand)})`;
+
+  switch (node.kind) {
+    case 'number':
+      return String(node.value);
+    case 'string':
+      return quote(node.value);
+    case 'boolean':
+      return String(node.value);
+
+    case 'field': {
+      // Fields that are not answered alongside the formula, and formulas that cannot be worked out, read as blank
+      const source = siblings.find(sibling => sibling.field.id === node.fieldId);
+      if (!source || source.field.type === 'group') return 'null';
+      if (source.field.type !== 'calculated') {
+        return getAnswerKind(source.field) === 'number' ? `${helper('numberAnswer')}(values.${source.key})` : `values.${source.key}`;
+      }
+      if (!source.calculateName) return 'null';
+
+      const calculation = `${source.calculateName}(values)`;
+      return hasVisibilityRule(source.field) ? `(visibilityRules.${source.key}(values) ? ${calculation} : null)` : calculation;
+    }
+
+    case 'unary':
+      if (node.operator === 'not') return `!${toCondition(node.operand)}`;
+      // Keep negated negatives apart, as -- is the decrement operator
+      return node.operand.kind === 'unary' ? `-(${toNumber(node.operand)})` : `-${toNumber(node.operand)}`;
+
+    case 'conditional':
+      return `(${toCondition(node.condition)} ? ${toExpression(node.then)} : ${toExpression(node.otherwise)})`;
+
+    case 'binary':
+      switch (node.operator) {
+        case 'and':
+          return `(${toCondition(node.left)} && ${toCondition(node.right)})`;
+        case 'or':
+          return `(${toCondition(node.left)} || ${toCondition(node.right)})`;
+        case '==':
+          return `${helper('isEqual')}(${toExpression(node.left)}, ${toExpression(node.right)})`;
+        case '!=':
+          return `!${helper('isEqual')}(${toExpression(node.left)}, ${toExpression(node.right)})`;
+        default:
+          return `(${toNumber(node.left)} ${node.operator} ${toNumber(node.right)})`;
+      }
+
+    case 'call': {
+      const args = node.args.map(toExpression);
+      switch (node.name) {
+        case 'sum':
+          return `${helper('numbers')}(${args.join(', ')}).reduce((total, value) => total + value, 0)`;
+        case 'count':
+          return `${helper('count')}(${args[0]})`;
+        case 'min':
+        case 'max':
+          helper('numbers');
+          return `${helper(node.name === 'min' ? 'minOf' : 'maxOf')}(${args.join(', ')})`;
+        case 'round':
+          return `${helper('roundTo')}(${args.join(', ')})`;
+        default:
+          return `Math.${node.name}(${toNumber(node.args[0])})`;
+      }
+    }
+  }
+}
+
+// Functions working out the calculated fields whose formulas can be worked out
+function generateCalculations(fields: GeneratedField[], helpers: Set<FormulaHelper>): string[] {
+  return fields.flatMap(({ field, calculateName }) => {
+    const parsed = parseFormula(field.formula || '');
+    if (!calculateName || !parsed.success) return [];
+
+    return [
+      `// ${field.label.replace(/\s+/g, ' ')}: ${field.formula!.replace(/\s+/g, ' ')}`,
+      `function ${calculateName}(values: Answers): number | null {`,
+      `  return toResult(${formulaToExpression(parsed.formula, fields, helpers)});`,
+      '}',
+      '',
+    ];
+  });
+}
+
+// Schema for a text-like answer, with the same messages as compile-schema.ts
+function generateTextSchema(field: DynamicFieldValues, required: boolean): string {
+  const constraints = getApplicableConstraints(field) || {};
+  const checks: string[] = [];
+
+  if (field.type === 'email') checks.push(".email('Invalid email address')");
+  if (field.type === 'url') checks.push(".url('Invalid URL')");
+  if (field.type === 'phone') checks.push(`.regex(${PHONE_PATTERN}, 'Invalid phone number')`);
+  if (constraints.minLength !== undefined) {
+    checks.push(`.min(${constraints.minLength}, ${quote(`${field.label} must be at least ${pluralize(constraints.minLength, 'character')}`)})`);
+  }
+  if (constraints.maxLength !== undefined) {
+    checks.push(`.max(${constraints.maxLength}, ${quote(`${field.label} must be at most ${pluralize(constraints.maxLength, 'character')}`)})`);
+  }
+  if (compilePattern(constraints.pattern)) {
+    checks.push(`.regex(new RegExp(${quote(constraints.pattern!)}), ${quote(constraints.patternMessage || `${field.label} is not in the expected format`)})`);
+  } else if (constraints.pattern) {
+    checks.push(`.refine(() => false, ${quote(`${field.label} cannot be checked because its pattern is not valid`)})`);
+  }
+
+  if (required) {
+    return `z.string().trim().min(1, ${quote(`${field.label} is required`)})${checks.join('')}`;
+  }
+
+  // Optional answers may be left blank
+  return checks.length > 0 ? `z.string().trim()${checks.join('')}.or(z.literal(''))` : 'z.string().trim()';
+}
+
+// Schema for a numeric answer
+function generateNumberSchema(field: DynamicFieldValues, required: boolean): string {
+  // Sliders always hold a value within their bounds and steps
+  if (field.type === 'range') {
+    const { min, max } = getRangeBounds(field);
+    return `z.number().min(${min}).max(${max})`;
+  }
+
+  const { min, max, step } = getApplicableConstraints(field) || {};
+  let schema = `z.number({ invalid_type_error: ${quote(required ? `${field.label} is required` : `${field.label} must be a number`)} })`;
+
+  if (min !== undefined) schema += `.min(${min}, ${quote(`${field.label} must be at least ${min}`)})`;
+  if (max !== undefined) schema += `.max(${max}, ${quote(`${field.label} must be at most ${max}`)})`;
+  if (step !== undefined) {
+    const message = quote(`${field.label} must be in steps of ${step}`);
+    const offset = min ?? 0;
+
+    // Steps are counted from the minimum, matching the browser's number input
+    if (step === 1 && Number.isInteger(offset)) {
+      schema += `.int(${quote(`${field.label} must be a whole number`)})`;
+    } else if (offset === 0) {
+      schema += `.multipleOf(${step}, ${message})`;
+    } else {
+      schema += `.refine(value => Number.isInteger(Number(((value - ${offset}) / ${step}).toFixed(9))), ${message})`;
+    }
+  }
+
+  // Empty number inputs give NaN
+  return required ? schema : `${schema}.or(z.nan())`;
+}
+
+// Expression for the options a field offers, following the answer chosen for dependent options
+function getOptionsExpression(generated: GeneratedField, answerOf: (key: string) => string): string {
+  if (!generated.field.dependentOptions) return generated.optionsName!;
+
+  const answer = generated.dependsOn ? `${answerOf(generated.dependsOn)} ?? ''` : "''";
+  return `(${generated.optionsName}[${answer}] ?? [])`;
+}
+
+// Schema for a field's answer, ignoring visibility
+// Dependent options are checked against the other field's answer in generateObjectSchema
+function generateFieldSchema(generated: GeneratedField, required: boolean): string[] {
+  const { field, optionsName } = generated;
+  const requiredMessage = quote(`${field.label} is required`);
+  const isAvailable = `value => ${optionsName}.some(option => option.value === value)`;
+  const isDependent = !!field.dependentOptions;
+
+  if (isMultiValueField(field)) {
+    const constraints = getApplicableConstraints(field) || {};
+    const minSelected = Math.max(constraints.minSelected ?? 0, required ? 1 : 0);
+    let schema = isDependent
+      ? 'z.array(z.string())'
+      : `z.array(z.string().refine(${isAvailable}, 'Select only the available options'))`;
+
+    if (minSelected > 0) {
+      const message = constraints.minSelected ? `Select at least ${pluralize(minSelected, 'option')}` : `${field.label} is required`;
+      schema += `.min(${minSelected}, ${quote(message)})`;
+    }
+    if (constraints.maxSelected !== undefined) {
+      schema += `.max(${constraints.maxSelected}, ${quote(`Select at most ${pluralize(constraints.maxSelected, 'option')}`)})`;
+    }
+    return [schema];
+  }
+
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+    case 'email':
+    case 'url':
+    case 'phone':
+    case 'hidden':
+      return [generateTextSchema(field, required)];
+
+    case 'number':
+    case 'range':
+      return [generateNumberSchema(field, required)];
+
+    case 'date':
+    case 'time':
+    case 'datetime':
+    case 'rating':
+      return [required ? `z.string().min(1, ${requiredMessage})` : 'z.string()'];
+
+    case 'checkbox':
+      return [required ? `z.boolean().refine(value => value, ${requiredMessage})` : 'z.boolean()'];
+
+    case 'radio':
+    case 'select':
+      if (isDependent) {
+        return [required ? `z.string().min(1, ${requiredMessage})` : 'z.string()'];
+      }
+      return [
+        required
+          ? `z.string().min(1, ${requiredMessage}).refine(${isAvailable}, 'Select one of the available options')`
+          : `z.string().refine(value => !value || ${optionsName}.some(option => option.value === value), 'Select one of the available options')`,
+      ];
+
+    case 'group': {
+      const constraints = getApplicableConstraints(field) || {};
+      const { min, max } = getRepeatBounds({ ...field, required });
+      const entry = generateObjectSchema(generated.children || [], `${generated.key}EntryVisibilityRules`);
+      let bounds = '';
+
+      if (min > 0) {
+        const message = constraints.minRepeats ? `Add at least ${pluralize(min, 'entry', 'entries')}` : `${field.label} is required`;
+        bounds += `.min(${min}, ${quote(message)})`;
+      }
+      bounds += `.max(${max}, ${quote(`Add at most ${pluralize(max, 'entry', 'entries')}`)})`;
+
+      return [`z.array(${entry[0]}`, ...entry.slice(1, -1), `${entry[entry.length - 1]})${bounds}`];
+    }
+
+    default:
+      return ['z.string()'];
+  }
+}
+
+// Object schema for a list of fields; fields with a visibility rule are only required while shown
+function generateObjectSchema(fields: GeneratedField[], rulesName: string): string[] {
+  // Calculated fields are worked out from the answers rather than answered
+  const properties = fields.filter(generated => generated.field.type !== 'calculated').flatMap(generated => {
+    const conditional = hasVisibilityRule(generated.field);
+    const schema = generateFieldSchema(generated, generated.field.required && !conditional);
+    const optional = conditional ? '.optional()' : '';
+
+    return [
+      `  ${generated.key}: ${schema[0]}`,
+      ...indent(schema.slice(1), 1),
+    ].map((line, index, lines) => (index === lines.length - 1 ? `${line}${optional},` : line));
+  });
+
+  const requiredWhenShown = fields.filter(generated => hasVisibilityRule(generated.field) && generated.field.required);
+  const dependent = fields.filter(generated => generated.field.dependentOptions);
+  if (requiredWhenShown.length === 0 && dependent.length === 0) {
+    return ['z.object({', ...properties, '})'];
+  }
+
+  const addIssue = (generated: GeneratedField, message: string) =>
+    `    ctx.addIssue({ code: z.ZodIssueCode.custom, message: ${quote(message)}, path: [${quote(generated.key)}] });`;
+
+  const requiredChecks = requiredWhenShown.flatMap(generated => [
+    `  if (${rulesName}.${generated.key}(values) && ${getBlankCheck(generated, `values.${generated.key}`)}) {`,
+    addIssue(generated, `${generated.field.label} is required`),
+    '  }',
+  ]);
+
+  const dependentChecks = dependent.flatMap(generated => {
+    const value = `values.${generated.key}`;
+    const options = getOptionsExpression(generated, key => `values.${key}`);
+    const isMulti = isMultiValueField(generated.field);
+
+    return [
+      isMulti
+        ? `  if (${value}?.some(value => !${options}.some(option => option.value === value))) {`
+        : `  if (${value} && !${options}.some(option => option.value === ${value})) {`,
+      addIssue(generated, isMulti ? 'Select only the available options' : 'Select one of the available options'),
+      '  }',
+    ];
+  });
+
+  return [
+    'z.object({',
+    ...properties,
+    '}).superRefine((values, ctx) => {',
+    ...(requiredChecks.length > 0 ? ['  // Fields with a visibility rule are only required while they are shown', ...requiredChecks] : []),
+    ...(dependentChecks.length > 0 ? ['  // Dependent options only accept the values offered for the answer they depend on', ...dependentChecks] : []),
+    '})',
+  ];
+}
+
+// Label markup shared by the fields not rendered with the Input component
+function generateLabel(field: DynamicFieldValues, tag: 'label' | 'legend', htmlFor?: string): string[] {
+  const open = tag === 'label' ? `<label htmlFor=${htmlFor} className="${labelClassName}">` : `<legend className="${labelClassName}">`;
+
+  return [
+    open,
+    `  ${jsxText(field.label)}${field.required ? '<span className="text-red-500 ml-1" aria-hidden="true">*</span>' : ''}`,
+    ...(field.required ? ['  <span className="sr-only">(Required)</span>'] : []),
+    `</${tag}>`,
+  ];
+}
+
+// Markup for one field
+function generateFieldMarkup(generated: GeneratedField, context: RenderContext): string[] {
+  const { field, key, optionsName } = generated;
+  const { name, error } = context;
+  const options = optionsName && getOptionsExpression(generated, context.answerOf);
+  const idAttr = (suffix?: string) => exprAttr(context.id(suffix));
+  const describedBy = `aria-describedby={${error} ? ${context.id('-error')} : undefined}`;
+  const formError = `<FormError message={${error}} id=${idAttr('-error')} />`;
+  const inputType = inputTypes[field.type];
+  let markup: string[];
+
+  if (inputType) {
+    const constraints = field.type === 'number' ? getApplicableConstraints(field) || {} : {};
+    const helperText = describeFieldConstraints(field);
+
+    markup = [
+      '<Input',
+      `  label=${attrValue(field.label)}`,
+      `  type="${inputType}"`,
+      ...(constraints.min !== undefined ? [`  min={${constraints.min}}`] : []),
+      ...(constraints.max !== undefined ? [`  max={${constraints.max}}`] : []),
+      ...(constraints.step !== undefined ? [`  step={${constraints.step}}`] : []),
+      `  {...register(${name}${field.type === 'number' ? ', { valueAsNumber: true }' : ''})}`,
+      `  error={${error}}`,
+      ...(helperText ? [`  helperText=${attrValue(helperText)}`] : []),
+      ...(field.required ? ['  required', '  aria-required="true"'] : []),
+      `  aria-invalid={!!${error}}`,
+      '/>',
+    ];
+  } else if (field.type === 'group') {
+    markup = generateGroupMarkup(generated, context);
+  } else if (field.type === 'hidden') {
+    markup = [`<input type="hidden" {...register(${name})} />`];
+  } else if (field.type === 'calculated') {
+    markup = [
+      '<div className="space-y-2">',
+      `  <span id=${idAttr('-label')} className="${labelClassName}">${jsxText(field.label)}</span>`,
+      `  <output id=${idAttr()} className="block w-full rounded-md border border-gray-200 bg-gray-50 p-2 text-sm" aria-labelledby=${idAttr('-label')}>`,
+      `    {formatCalculated(${generated.calculateName ? `${generated.calculateName}(${context.answers})` : 'null'})}`,
+      '  </output>',
+      '</div>',
+    ];
+  } else if (field.type === 'textarea' || field.type === 'select' || field.type === 'multiselect' || field.type === 'range') {
+    const control = {
+      textarea: [
+        '<textarea',
+        `  id=${idAttr()}`,
+        '  rows={5}',
+        `  className="${controlClassName} min-h-[100px]"`,
+        `  {...register(${name})}`,
+        `  aria-invalid={!!${error}}`,
+        `  ${describedBy}`,
+        '/>',
+      ],
+      select: [
+        '<select',
+        `  id=${idAttr()}`,
+        `  className="${controlClassName}"`,
+        `  {...register(${name})}`,
+        `  aria-invalid={!!${error}}`,
+        `  ${describedBy}`,
+        '>',
+        '  <option value="">Select an option</option>',
+        `  {${options}.map(option => (`,
+        '    <option key={option.value} value={option.value}>{option.label}</option>',
+        '  ))}',
+        '</select>',
+      ],
+      multiselect: [
+        '<select',
+        `  id=${idAttr()}`,
+        '  multiple',
+        `  className="${controlClassName}"`,
+        `  {...register(${name})}`,
+        `  aria-invalid={!!${error}}`,
+        `  ${describedBy}`,
+        '>',
+        `  {${options}.map(option => (`,
+        '    <option key={option.value} value={option.value}>{option.label}</option>',
+        '  ))}',
+        '</select>',
+      ],
+      range: (() => {
+        const { min, max, step } = getRangeBounds(field);
+        return [
+          '<input',
+          `  id=${idAttr()}`,
+          '  type="range"',
+          `  min={${min}}`,
+          `  max={${max}}`,
+          `  step={${step}}`,
+          '  className="w-full"',
+          `  {...register(${name}, { valueAsNumber: true })}`,
+          `  aria-invalid={!!${error}}`,
+          `  ${describedBy}`,
+          '/>',
+        ];
+      })(),
+    }[field.type];
+
+    markup = [
+      '<div className="space-y-2">',
+      ...indent(generateLabel(field, 'label', idAttr()), 1),
+      ...indent(control, 1),
+      `  ${formError}`,
+      '</div>',
+    ];
+  } else if (field.type === 'checkbox' && !optionsName) {
+    markup = [
+      '<div className="space-y-2">',
+      '  <div className="flex items-center gap-2">',
+      '    <input',
+      `      id=${idAttr()}`,
+      '      type="checkbox"',
+      '      className="h-4 w-4 rounded border-gray-300"',
+      `      {...register(${name})}`,
+      `      aria-invalid={!!${error}}`,
+      `      ${describedBy}`,
+      '    />',
+      ...indent(generateLabel(field, 'label', idAttr()), 2),
+      '  </div>',
+      `  ${formError}`,
+      '</div>',
+    ];
+  } else {
+    // Radio buttons, checkbox groups and star ratings are groups of inputs
+    const isRating = field.type === 'rating';
+    const choices = isRating
+      ? `[${Array.from({ length: getRatingScale(field) }, (_, index) => index + 1).join(', ')}]`
+      : options;
+    const item = isRating ? 'star' : 'option';
+    const value = isRating ? 'String(star)' : 'option.value';
+    const text = isRating ? "{star} {star === 1 ? 'star' : 'stars'}" : '{option.label}';
+
+    markup = [
+      `<fieldset className="space-y-2" aria-invalid={!!${error}} ${describedBy}>`,
+      ...indent(generateLabel(field, 'legend'), 1),
+      `  {${choices}.map(${item} => (`,
+      `    <label key={${value}} className="flex items-center gap-2 text-sm text-gray-700">`,
+      `      <input type="${field.type === 'checkbox' ? 'checkbox' : 'radio'}" value={${value}} {...register(${name})} />`,
+      `      ${text}`,
+      '    </label>',
+      '  ))}',
+      `  ${formError}`,
+      '</fieldset>',
+    ];
+  }
+
+  if (!hasVisibilityRule(field)) return markup;
+
+  return [
+    `{${context.rulesName}.${key}(${context.answers}) && (`,
+    ...indent(markup, 1),
+    ')}',
+  ];
+}
+
+// Markup for a repeatable group, one fieldset per entry
+function generateGroupMarkup(generated: GeneratedField, context: RenderContext): string[] {
+  const { field, key } = generated;
+  const entries = `${key}Entries`;
+  const { min, max } = getRepeatBounds(field);
+  const label = templateText(field.label);
+
+  const children = (generated.children || []).flatMap(child => generateFieldMarkup(child, {
+    name: `\`${key}.\${index}.${child.key}\``,
+    error: `errors.${key}?.[index]?.${child.key}?.message`,
+    id: (suffix = '') => `\`${key}-\${index}-${child.key}${suffix}\``,
+    answers: `values.${key}?.[index] ?? {}`,
+    answerOf: siblingKey => `values.${key}?.[index]?.${siblingKey}`,
+    rulesName: `${key}EntryVisibilityRules`,
+  }));
+
+  return [
+    '<fieldset className="space-y-4 rounded-md border border-gray-200 p-4">',
+    ...indent(generateLabel(field, 'legend'), 1),
+    `  {${entries}.map((entry, index) => (`,
+    '    <fieldset key={entry.id} className="space-y-4 rounded-md border border-gray-100 p-4">',
+    `      <legend className="text-sm font-medium text-gray-600">{\`${label} \${index + 1}\`}</legend>`,
+    ...indent(children, 3),
+    '      <Button',
+    '        type="button"',
+    '        variant="outline"',
+    '        size="sm"',
+    `        onClick={() => remove${capitalize(key)}(index)}`,
+    ...(min > 0 ? [`        disabled={${entries}.length <= ${min}}`] : []),
+    `        aria-label={\`Remove ${label} \${index + 1}\`}`,
+    '      >',
+    '        Remove',
+    '      </Button>',
+    '    </fieldset>',
+    '  ))}',
+    `  <FormError message={${context.error.replace(/\?\.message$/, '?.root?.message')} ?? ${context.error}} id=${exprAttr(context.id('-error'))} />`,
+    '  <Button',
+    '    type="button"',
+    '    variant="outline"',
+    '    size="sm"',
+    `    onClick={() => append${capitalize(key)}({ ...${key}EntryDefaults })}`,
+    `    disabled={${entries}.length >= ${max}}`,
+    '  >',
+    `    Add ${jsxText(field.label)}`,
+    '  </Button>',
+    '</fieldset>',
+  ];
+}
+
+// Constant holding a list of options
+function generateOptionsConstant(name: string, options: FieldOption[]): string[] {
+  return [
+    `const ${name} = [`,
+    ...options.map(option => `  { label: ${quote(option.label)}, value: ${quote(option.value)} },`),
+    '];',
+    '',
+  ];
+}
+
+// Constant holding lists of options keyed by the answer they are offered for
+function generateOptionsByAnswerConstant(name: string, optionsByValue: Record<string, FieldOption[]>): string[] {
+  return [
+    `const ${name}: Record<string, { label: string; value: string }[]> = {`,
+    ...Object.entries(optionsByValue).flatMap(([value, options]) => [
+      `  ${quote(value)}: [`,
+      ...options.map(option => `    { label: ${quote(option.label)}, value: ${quote(option.value)} },`),
+      '  ],',
+    ]),
+    '};',
+    '',
+  ];
+}
+
+/**
+ * Generates a TypeScript module for a dynamic form: a Zod schema written
+ * like those in lib/schemas/form-schemas.ts and a react-hook-form component
+ * built from the Input and Button components. Visibility rules, option
+ * sets, dependent options, sections, repeatable groups, calculated and
+ * hidden fields are carried over.
+ * @param definition Form definition created with the form builder
+ * @returns File name, component name and source code of the module
+ */
+export function generateFormModule(definition: DynamicFormValues): GeneratedFormModule {
+  const resolved = resolveOptionSets(definition);
+  const formName = resolved.formName.trim() || 'Form';
+  // The form's name on one line for comments, without repeating a trailing "form"
+  const formTitle = formName.replace(/\s+/g, ' ');
+  const formDescription = /\bform$/i.test(formTitle) ? formTitle : `${formTitle} form`;
+
+  const pascalName = toWords(formName).map(capitalize).join('');
+  const componentBase = /^[A-Za-z]/.test(pascalName) ? pascalName : `Form${pascalName}`;
+  const componentName = componentBase.endsWith('Form') ? componentBase : `${componentBase}Form`;
+  const schemaName = `${componentName.charAt(0).toLowerCase()}${componentName.slice(1)}Schema`;
+  const valuesName = `${componentName}Values`;
+
+  // Name every field and options list up front, so names stay unique across the module
+  const taken = new Set<string>(['values', 'errors', 'register', 'control', 'watch']);
+  const optionSetNames = new Map<string, string>();
+  const optionConstants: string[] = [];
+
+  const nameOptions = (field: DynamicFieldValues, key: string): string | undefined => {
+    if (!isMultiValueField(field) && field.type !== 'radio' && field.type !== 'select') return undefined;
+
+    if (field.dependentOptions) {
+      const name = claimName(`${key}OptionsByAnswer`, taken);
+      optionConstants.push(...generateOptionsByAnswerConstant(name, field.dependentOptions.optionsByValue));
+      return name;
+    }
+
+    const optionSet = (resolved.optionSets || []).find(set => set.id === field.optionSetId);
+    if (optionSet) {
+      if (!optionSetNames.has(optionSet.id)) {
+        const name = claimName(`${toCamelCase(optionSet.name, 'optionSet')}Options`, taken);
+        optionSetNames.set(optionSet.id, name);
+        optionConstants.push(...generateOptionsConstant(name, optionSet.options));
+      }
+      return optionSetNames.get(optionSet.id);
+    }
+
+    const name = claimName(`${key}Options`, taken);
+    optionConstants.push(...generateOptionsConstant(name, field.options || []));
+    return name;
+  };
+
+  const formulaLoops = findFormulaLoops(resolved.fields);
+  const fieldKeys = new Set<string>();
+  const fields: GeneratedField[] = resolved.fields.map(field => {
+    const key = claimName(toCamelCase(field.label, 'field'), fieldKeys);
+    taken.add(key);
+
+    const childKeys = new Set<string>();
+    const children = field.type === 'group'
+      ? (field.fields || []).map(child => {
+          const childKey = claimName(toCamelCase(child.label, 'field'), childKeys);
+          return { field: child, key: childKey, optionsName: nameOptions(child, `${key}${capitalize(childKey)}`) };
+        })
+      : undefined;
+
+    // Formulas that cannot be worked out get no function and always show a dash
+    const calculable = field.type === 'calculated' && parseFormula(field.formula || '').success && !formulaLoops.has(field.id);
+    const calculateName = calculable ? claimName(`calculate${capitalize(key)}`, taken) : undefined;
+
+    return { field, key, optionsName: nameOptions(field, key), children, calculateName };
+  });
+
+  // Dependent options follow a field in the same list
+  const linkDependentOptions = (list: GeneratedField[]) => list.forEach(generated => {
+    const parentFieldId = generated.field.dependentOptions?.parentFieldId;
+    generated.dependsOn = list.find(sibling => sibling.field.id === parentFieldId)?.key;
+    linkDependentOptions(generated.children || []);
+  });
+  linkDependentOptions(fields);
+  const groups = fields.filter(generated => generated.field.type === 'group');
+  const allFields = fields.flatMap(generated => [generated, ...(generated.children || [])]);
+  const hasVisibility = allFields.some(generated => hasVisibilityRule(generated.field));
+  const hasCalculations = fields.some(generated => generated.field.type === 'calculated');
+  const prefillParams = [...new Set(fields.flatMap(generated => generated.field.prefillParam || []))];
+  const hasFormulas = fields.some(generated => generated.calculateName);
+  // Visibility rules, dependent options and calculated fields follow the current answers
+  const watchesAnswers = hasVisibility || hasFormulas || allFields.some(generated => generated.field.dependentOptions);
+
+  // Visibility rules, with the helpers they use
+  const helpers: HelperUsage = { answerText: false, answerList: false };
+  const rules = [
+    ...generateVisibilityRules('visibilityRules', fields, helpers),
+    ...groups.flatMap(group => generateVisibilityRules(`${group.key}EntryVisibilityRules`, group.children || [], helpers)),
+  ];
+  // Calculated fields, with the helpers their formulas use
+  const formulaHelpers = new Set<FormulaHelper>();
+  const calculations = generateCalculations(fields, formulaHelpers);
+  const answerLines = hasVisibility || hasFormulas
+    ? [
+        `// Answers checked by the ${hasVisibility ? 'visibility rules' : 'formulas'}${hasVisibility && hasFormulas ? ' and formulas' : ''}`,
+        'type Answers = Record<string, unknown>;',
+        '',
+      ]
+    : [];
+  const formulaLines = hasCalculations
+    ? [
+        ...(hasFormulas ? [
+          '// Read an answer as a number: blanks count as 0, true as 1, and lists are not numbers',
+          'const toNumber = (value: unknown): number => {',
+          "  if (value === undefined || value === null || value === '') return 0;",
+          "  if (typeof value === 'boolean') return value ? 1 : 0;",
+          '  return Array.isArray(value) ? NaN : Number(value);',
+          '};',
+          '',
+          ...(Object.keys(formulaHelperLines) as FormulaHelper[])
+            .filter(helper => formulaHelpers.has(helper))
+            .flatMap(helper => [...formulaHelperLines[helper], '']),
+          '// Result of a formula: a finite number without floating point noise, or null',
+          'const toResult = (value: unknown) => {',
+          '  const number = toNumber(value);',
+          '  return Number.isFinite(number) ? Math.round(number * 1e9) / 1e9 : null;',
+          '};',
+          '',
+        ] : []),
+        "const formatCalculated = (value: number | null) => (value === null ? '—' : value.toLocaleString('en-US', { maximumFractionDigits: 2 }));",
+        '',
+        ...(hasFormulas ? ['// Calculated fields, worked out from the answers as they change', ...calculations] : []),
+      ]
+    : [];
+  const helperLines = hasVisibility
+    ? [
+        ...(helpers.answerText ? [
+          '// Normalise an answer to a string for comparison',
+          "const answerText = (answer: unknown) => (answer === undefined || answer === null ? '' : String(answer));",
+          '',
+        ] : []),
+        ...(helpers.answerList ? [
+          '// Normalise a multiple choice answer to its selected values',
+          "const answerList = (answer: unknown) => (Array.isArray(answer) ? answer.map(item => (item === undefined || item === null ? '' : String(item))) : []);",
+          '',
+        ] : []),
+        '// Fields shown only while their conditions hold',
+      ]
+    : [];
+
+  const schema = generateObjectSchema(fields, 'visibilityRules');
+
+  // Default answers, with the minimum number of entries for groups
+  const entryDefaults = groups.flatMap(group => [
+    `const ${group.key}EntryDefaults: NonNullable<${valuesName}['${group.key}']>[number] = {`,
+    ...(group.children || []).map(child => `  ${child.key}: ${getDefaultValue(child)},`),
+    '};',
+    '',
+  ]);
+  const defaultValues = fields.filter(generated => generated.field.type !== 'calculated').map(generated => {
+    if (generated.field.type !== 'group') return `  ${generated.key}: ${getDefaultValue(generated)},`;
+
+    const { min } = getRepeatBounds(generated.field);
+    return `  ${generated.key}: [${Array.from({ length: min }, () => `{ ...${generated.key}EntryDefaults }`).join(', ')}],`;
+  });
+
+  const fieldArrays = groups.map(group =>
+    `const { fields: ${group.key}Entries, append: append${capitalize(group.key)}, remove: remove${capitalize(group.key)} } = useFieldArray({ control, name: '${group.key}' });`
+  );
+
+  // Fields grouped by section, each section in its own fieldset
+  const topLevelContext = (generated: GeneratedField): RenderContext => ({
+    name: quote(generated.key),
+    error: `errors.${generated.key}?.message`,
+    id: (suffix = '') => quote(`${generated.key}${suffix}`),
+    answers: 'values',
+    answerOf: siblingKey => `values.${siblingKey}`,
+    rulesName: 'visibilityRules',
+  });
+  const renderFields = (list: DynamicFieldValues[]) => list.flatMap((field, index) => {
+    const generated = fields.find(item => item.field === field)!;
+    return [...(index > 0 ? [''] : []), ...generateFieldMarkup(generated, topLevelContext(generated))];
+  });
+  const pages = getFormPages(resolved);
+  const body = pages.flatMap(({ section, fields: pageFields }) => {
+    if (!section) return renderFields(pageFields);
+
+    return [
+      '<fieldset className="space-y-6 border-t border-gray-200 pt-6">',
+      `  <legend className="text-lg font-medium text-gray-800">${jsxText(section.title)}</legend>`,
+      ...(section.description ? [`  <p className="text-sm text-gray-500">${jsxText(section.description)}</p>`] : []),
+      ...indent(renderFields(pageFields), 1),
+      '</fieldset>',
+      '',
+    ];
+  });
+
+  const formControls = [
+    'register',
+    ...(groups.length > 0 ? ['control'] : []),
+    'handleSubmit',
+    'reset',
+    ...(watchesAnswers ? ['watch'] : []),
+    'formState: { errors },',
+  ];
+
+  const lines = [
+    "'use client';",
+    '',
+    `import { useState, useRef } from 'react';`,
+    `import { ${groups.length > 0 ? 'useForm, useFieldArray' : 'useForm'} } from 'react-hook-form';`,
+    "import { zodResolver } from '@hookform/resolvers/zod';",
+    "import { z } from 'zod';",
+    "import { Input } from '@/components/ui/Input';",
+    "import { Button } from '@/components/ui/Button';",
+    "import { FormError } from '@/components/ui/FormError';",
+    '',
+    ...(optionConstants.length > 0 ? ['// Options offered by the choice fields', ...optionConstants] : []),
+    ...answerLines,
+    ...formulaLines,
+    ...helperLines,
+    ...rules,
+    `// ${formDescription} schema`,
+    `export const ${schemaName} = ${schema[0]}`,
+    ...schema.slice(1, -1),
+    `${schema[schema.length - 1]};`,
+    '',
+    `export type ${valuesName} = z.infer<typeof ${schemaName}>;`,
+    '',
+    ...entryDefaults,
+    `interface ${componentName}Props {`,
+    '  // Receives the validated answers; throw an error to show it to the respondent',
+    ...(hasCalculations ? ['  // Calculated fields are not included, so work them out again where they are needed'] : []),
+    `  onSubmit: (data: ${valuesName}) => Promise<void> | void;`,
+    ...(prefillParams.length > 0 ? [
+      `  // Answers to start with, e.g. read from the query parameters ${prefillParams.join(', ')}`,
+      `  prefill?: Partial<${valuesName}>;`,
+    ] : []),
+    '}',
+    '',
+    '/**',
+    ` * ${formDescription.replace(/\*\//g, '*\\/')} component`,
+    ' * - ARIA live region for status messages',
+    ' * - Errors linked to the fields they belong to',
+    ' * - Focus returns to the heading after submitting',
+    ' */',
+    `export default function ${componentName}({ ${prefillParams.length > 0 ? 'onSubmit, prefill' : 'onSubmit'} }: ${componentName}Props) {`,
+    '  const [isSubmitting, setIsSubmitting] = useState(false);',
+    '  const [submitSuccess, setSubmitSuccess] = useState(false);',
+    '  const [submitError, setSubmitError] = useState<string | null>(null);',
+    '  const formStartRef = useRef<HTMLHeadingElement>(null);',
+    '',
+    '  const {',
+    ...formControls.map(control => `    ${control}${control.endsWith(',') ? '' : ','}`),
+    `  } = useForm<${valuesName}>({`,
+    `    resolver: zodResolver(${schemaName}),`,
+    ...(hasVisibility ? ['    // Hidden fields drop their answers, like they do in the form builder', '    shouldUnregister: true,'] : []),
+    '    defaultValues: {',
+    ...indent(defaultValues, 2),
+    ...(prefillParams.length > 0 ? ['      ...prefill,'] : []),
+    '    },',
+    '  });',
+    ...(watchesAnswers ? ['  const values = watch();'] : []),
+    ...(fieldArrays.length > 0 ? ['', ...indent(fieldArrays, 1)] : []),
+    '',
+    `  const submit = async (data: ${valuesName}) => {`,
+    '    setIsSubmitting(true);',
+    '    setSubmitError(null);',
+    '',
+    '    try {',
+    '      await onSubmit(data);',
+    '      reset();',
+    '      setSubmitSuccess(true);',
+    '',
+    '      // Return focus to the top of the form',
+    '      setTimeout(() => {',
+    '        formStartRef.current?.focus();',
+    '      }, 100);',
+    '',
+    '      // Hide success message after 5 seconds',
+    '      setTimeout(() => {',
+    '        setSubmitSuccess(false);',
+    '      }, 5000);',
+    '    } catch (error) {',
+    "      setSubmitError(error instanceof Error ? error.message : 'An unexpected error occurred');",
+    '    } finally {',
+    '      setIsSubmitting(false);',
+    '    }',
+    '  };',
+    '',
+    '  return (',
+    '    <div className="max-w-2xl mx-auto">',
+    '      {/* Status announcements for screen readers */}',
+    '      <div aria-live="assertive" className="sr-only">',
+    "        {submitSuccess && 'Form submitted successfully.'}",
+    '        {submitError && `Error submitting form: ${submitError}`}',
+    "        {isSubmitting && 'Submitting form, please wait...'}",
+    '      </div>',
+    '',
+    '      <h2',
+    '        className="text-2xl font-semibold text-gray-800 mb-6"',
+    '        ref={formStartRef}',
+    '        tabIndex={-1}',
+    '        id="form-heading"',
+    '      >',
+    `        {${quote(formName)}}`,
+    '      </h2>',
+    '',
+    '      {submitSuccess && (',
+    '        <div className="mb-6 p-4 bg-green-50 border border-green-100 text-green-700 rounded-lg" role="alert">',
+    '          Thank you! Your answers have been submitted.',
+    '        </div>',
+    '      )}',
+    '',
+    '      <FormError message={submitError || undefined} className="mb-6" />',
+    '',
+    '      <form onSubmit={handleSubmit(submit)} className="space-y-6" aria-labelledby="form-heading" noValidate>',
+    ...indent(body, 4),
+    '',
+    '        <div className="flex justify-end">',
+    '          <Button type="submit" disabled={isSubmitting} aria-disabled={isSubmitting}>',
+    "            {isSubmitting ? 'Submitting...' : 'Submit'}",
+    '          </Button>',
+    '        </div>',
+    '      </form>',
+    '    </div>',
+    '  );',
+    '}',
+    '',
+  ];
+
+  return {
+    fileName: `${componentName}.tsx`,
+    componentName,
+    code: lines.join('\n'),
+  };
+}
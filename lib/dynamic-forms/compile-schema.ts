@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import type {
+  DynamicFieldValues,
+  DynamicFormValues,
+  DynamicResponseValues
+} from '@/lib/schemas/form-schemas';
+import { getVisibleFieldIds } from './visibility';
+import {
+  compilePattern,
+  getApplicableConstraints,
+  pluralize
+} from './constraints';
+import { resolveDependentOptions, resolveOptionSets } from './options';
+import { computeCalculatedValues } from './formula';
+import {
+  getRangeBounds,
+  getRatingScale,
+  getRepeatBounds,
+  isMultiValueField
+} from './field-types';
+
+// Formats browsers use for date and time inputs
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+// Digits with optional leading +, spaces, dots, dashes and parentheses
+const PHONE_PATTERN = /^\+?[0-9\s().-]{7,20}$/;
+
+// Values a browser sends for a field that was left blank
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Wrap a field schema so blank values become null and are only rejected for required fields
+function withPresence(field: DynamicFieldValues, schema: z.ZodTypeAny): z.ZodTypeAny {
+  const requiredMessage = `${field.label} is required`;
+
+  return z.preprocess(
+    value => (isEmptyValue(value) ? null : value),
+    field.required
+      ? z.custom(value => value !== null, requiredMessage).pipe(schema)
+      : schema.nullable()
+  );
+}
+
+// Longest answer a pattern is run against when the field sets no maximum length
+const DEFAULT_PATTERN_MAX_LENGTH = 2000;
+
+// Apply length and pattern constraints to a text answer
+function applyTextConstraints(field: DynamicFieldValues, schema: z.ZodString): z.ZodTypeAny {
+  const constraints = getApplicableConstraints(field) || {};
+  const pattern = compilePattern(constraints.pattern);
+  const maxLength = constraints.maxLength ?? (pattern ? DEFAULT_PATTERN_MAX_LENGTH : undefined);
+
+  if (constraints.minLength !== undefined) {
+    schema = schema.min(constraints.minLength, `${field.label} must be at least ${pluralize(constraints.minLength, 'character')}`);
+  }
+  if (maxLength !== undefined) {
+    schema = schema.max(maxLength, `${field.label} must be at most ${pluralize(maxLength, 'character')}`);
+  }
+  if (!constraints.pattern) return schema;
+
+  // A pattern that cannot be run still rejects every answer, rather than letting any answer through
+  if (!pattern) {
+    return schema.refine(() => false, `${field.label} cannot be checked because its pattern is not valid`);
+  }
+
+  // Zod runs every check, so answers that are too long are kept away from the pattern here
+  return schema.refine(
+    value => value.length > maxLength! || pattern.test(value),
+    constraints.patternMessage || `${field.label} is not in the expected format`
+  );
+}
+
+// Apply range and step constraints to a numeric answer
+function applyNumberConstraints(
+  field: DynamicFieldValues,
+  schema: z.ZodNumber,
+  { min, max, step }: { min?: number; max?: number; step?: number }
+): z.ZodTypeAny {
+  if (min !== undefined) {
+    schema = schema.min(min, `${field.label} must be at least ${min}`);
+  }
+  if (max !== undefined) {
+    schema = schema.max(max, `${field.label} must be at most ${max}`);
+  }
+  if (step === undefined) return schema;
+
+  // Steps are counted from the minimum, matching the browser's number input
+  return schema.refine(value => {
+    const steps = (value - (min ?? 0)) / step;
+    return Math.abs(steps - Math.round(steps)) < 1e-9;
+  }, `${field.label} must be in steps of ${step}`);
+}
+
+// Schema for a date or time string in the format the browser submits
+function dateTimeString(field: DynamicFieldValues, pattern: RegExp, description: string): z.ZodTypeAny {
+  return z.string().refine(
+    // Times alone have no calendar part to check
+    value => pattern.test(value) && (pattern === TIME_PATTERN || !Number.isNaN(Date.parse(value))),
+    `${field.label} must be a valid ${description}`
+  );
+}
+
+// Schema for checkbox groups and multi-selects, answered with the list of selected values
+function compileMultiValueSchema(field: DynamicFieldValues): z.ZodTypeAny {
+  const constraints = getApplicableConstraints(field) || {};
+  const optionValues = (field.options || []).map(option => option.value);
+  const minSelected = Math.max(constraints.minSelected ?? 0, field.required ? 1 : 0);
+
+  let schema = z.array(
+    z.string().refine(
+      value => optionValues.includes(value),
+      'Select only the available options'
+    )
+  );
+
+  if (minSelected > 0) {
+    schema = schema.min(
+      minSelected,
+      constraints.minSelected ? `Select at least ${pluralize(minSelected, 'option')}` : `${field.label} is required`
+    );
+  }
+  if (constraints.maxSelected !== undefined) {
+    schema = schema.max(constraints.maxSelected, `Select at most ${pluralize(constraints.maxSelected, 'option')}`);
+  }
+
+  // A single selection can arrive as a string and an unchecked group as false
+  return z.preprocess(
+    value => (Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : []),
+    schema
+  );
+}
+
+/**
+ * Builds the Zod schema for the answer to a single dynamic field
+ * @param field Field definition from the form builder
+ * @returns Schema validating and normalising that field's value
+ */
+export function compileFieldSchema(field: DynamicFieldValues): z.ZodTypeAny {
+  const optionValues = (field.options || []).map(option => option.value);
+
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+    case 'hidden':
+      return withPresence(field, applyTextConstraints(field, z.string().trim()));
+
+    case 'email':
+      return withPresence(
+        field,
+        applyTextConstraints(field, z.string().trim().email('Invalid email address'))
+      );
+
+    case 'url':
+      return withPresence(
+        field,
+        applyTextConstraints(field, z.string().trim().url('Invalid URL'))
+      );
+
+    case 'phone':
+      return withPresence(
+        field,
+        applyTextConstraints(field, z.string().trim().regex(PHONE_PATTERN, 'Invalid phone number'))
+      );
+
+    case 'date':
+      return withPresence(field, dateTimeString(field, DATE_PATTERN, 'date'));
+
+    case 'time':
+      return withPresence(field, dateTimeString(field, TIME_PATTERN, 'time'));
+
+    case 'datetime':
+      return withPresence(field, dateTimeString(field, DATETIME_PATTERN, 'date and time'));
+
+    case 'number':
+      return withPresence(
+        field,
+        applyNumberConstraints(
+          field,
+          z.coerce.number({ invalid_type_error: `${field.label} must be a number` }),
+          getApplicableConstraints(field) || {}
+        )
+      );
+
+    case 'range':
+      return withPresence(
+        field,
+        applyNumberConstraints(
+          field,
+          z.coerce.number({ invalid_type_error: `${field.label} must be a number` }),
+          getRangeBounds(field)
+        )
+      );
+
+    case 'rating':
+      return withPresence(
+        field,
+        z.coerce.number()
+          .int(`${field.label} must be a whole number of stars`)
+          .min(1, `${field.label} must be at least 1 star`)
+          .max(getRatingScale(field), `${field.label} must be at most ${pluralize(getRatingScale(field), 'star')}`)
+      );
+
+    case 'checkbox':
+    case 'multiselect':
+      if (isMultiValueField(field)) {
+        return compileMultiValueSchema(field);
+      }
+      return field.required
+        ? z.literal(true, { errorMap: () => ({ message: `${field.label} is required` }) })
+        : z.boolean().default(false);
+
+    case 'radio':
+    case 'select':
+      return withPresence(
+        field,
+        z.string().refine(
+          value => optionValues.includes(value),
+          'Select one of the available options'
+        )
+      );
+
+    case 'group':
+      return compileGroupSchema(field);
+
+    case 'calculated':
+      // The submitted value is never trusted; compileFieldListSchema works it out from the other answers
+      return z.unknown().transform(() => null);
+  }
+}
+
+// Schema for a repeatable group, answered with one set of answers per entry
+function compileGroupSchema(field: DynamicFieldValues): z.ZodTypeAny {
+  const constraints = getApplicableConstraints(field) || {};
+  const { min, max } = getRepeatBounds(field);
+
+  let schema = z.array(compileFieldListSchema(field.fields || []));
+
+  if (min > 0) {
+    schema = schema.min(
+      min,
+      constraints.minRepeats ? `Add at least ${pluralize(min, 'entry', 'entries')}` : `${field.label} is required`
+    );
+  }
+  schema = schema.max(max, `Add at most ${pluralize(max, 'entry', 'entries')}`);
+
+  return z.preprocess(value => (Array.isArray(value) ? value : []), schema);
+}
+
+// Schema for a list of fields answered together, skipping the hidden ones
+function compileFieldListSchema(
+  fields: DynamicFieldValues[]
+): z.ZodType<DynamicResponseValues, z.ZodTypeDef, unknown> {
+  const fieldSchemas = new Map(
+    fields.map(field => [field.id, compileFieldSchema(field)])
+  );
+  const calculatedIds = new Set(fields.filter(field => field.type === 'calculated').map(field => field.id));
+
+  return z.record(z.string(), z.unknown()).transform((submitted, ctx) => {
+    // Values sent for calculated fields are dropped before visibility is worked out,
+    // so they cannot change which fields are shown and required
+    const values = Object.fromEntries(Object.entries(submitted).filter(([id]) => !calculatedIds.has(id)));
+    const visibleIds = getVisibleFieldIds({ fields }, values);
+    const visibleValues = Object.fromEntries(Object.entries(values).filter(([id]) => visibleIds.has(id)));
+    const output: DynamicResponseValues = {};
+
+    for (const field of fields) {
+      if (!visibleIds.has(field.id) || field.type === 'calculated') continue;
+
+      // Dependent options only accept the values offered for the other field's answer
+      const schema = field.dependentOptions
+        ? compileFieldSchema(resolveDependentOptions(field, visibleValues))
+        : fieldSchemas.get(field.id)!;
+      const result = schema.safeParse(values[field.id]);
+
+      // Report every issue against the field itself so the renderer can show it,
+      // keeping the entry and child field of issues inside repeatable groups
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: issue.message,
+            path: field.type === 'group' ? [field.id, ...issue.path] : [field.id],
+          });
+        }
+        continue;
+      }
+
+      output[field.id] = result.data;
+    }
+
+    // Calculated fields are recomputed from the validated answers, replacing whatever was submitted
+    const calculatedValues = computeCalculatedValues(fields.filter(field => visibleIds.has(field.id)), output);
+    return { ...output, ...calculatedValues };
+  });
+}
+
+/**
+ * Compiles a dynamic form definition into a Zod schema for its responses.
+ * The same schema is used by the renderer through zodResolver and by the
+ * responses API route, so both sides apply identical rules.
+ * Fields hidden by their visibility rules are skipped entirely: they are
+ * never required and their answers are dropped from the output.
+ * Calculated fields are worked out from the validated answers, so any
+ * value submitted for them is ignored.
+ * @param definition Form definition created with the form builder
+ * @returns Schema that validates a response keyed by field id
+ */
+export function compileDynamicFormSchema(
+  definition: DynamicFormValues
+): z.ZodType<DynamicResponseValues, z.ZodTypeDef, unknown> {
+  return compileFieldListSchema(resolveOptionSets(definition).fields);
+}
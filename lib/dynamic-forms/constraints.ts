@@ -0,0 +1,152 @@
+import type { DynamicFieldValues, FieldConstraints } from '@/lib/schemas/form-schemas';
+
+// Constraints that apply to each field type
+export const constraintKeysByType: Record<DynamicFieldValues['type'], Array<keyof FieldConstraints>> = {
+  text: ['minLength', 'maxLength', 'pattern', 'patternMessage'],
+  textarea: ['minLength', 'maxLength', 'pattern', 'patternMessage'],
+  email: ['minLength', 'maxLength', 'pattern', 'patternMessage'],
+  url: ['minLength', 'maxLength', 'pattern', 'patternMessage'],
+  phone: ['minLength', 'maxLength', 'pattern', 'patternMessage'],
+  number: ['min', 'max', 'step'],
+  range: ['min', 'max', 'step'],
+  rating: ['max'],
+  checkbox: ['minSelected', 'maxSelected'],
+  multiselect: ['minSelected', 'maxSelected'],
+  radio: [],
+  select: [],
+  date: [],
+  time: [],
+  datetime: [],
+  group: ['minRepeats', 'maxRepeats'],
+  calculated: [],
+  hidden: ['minLength', 'maxLength', 'pattern', 'patternMessage'],
+};
+
+/**
+ * Keeps only the constraints that apply to the field's type, dropping
+ * empty values left behind by the builder
+ * @param field Field definition
+ * @returns Applicable constraints, or undefined when there are none
+ */
+export function getApplicableConstraints(field: DynamicFieldValues): FieldConstraints | undefined {
+  if (!field.validation) return undefined;
+
+  const constraints: FieldConstraints = {};
+
+  for (const key of constraintKeysByType[field.type]) {
+    const value = field.validation[key];
+
+    if (value !== undefined && value !== '' && !Number.isNaN(value)) {
+      Object.assign(constraints, { [key]: value });
+    }
+  }
+
+  return Object.keys(constraints).length > 0 ? constraints : undefined;
+}
+
+// Quantifiers that repeat the item before them more than once
+const REPEAT_QUANTIFIER = /^(?:[*+]|\{\d*,\d*\}|\{\d+\})/;
+
+/**
+ * Checks whether a pattern repeats a group that contains a repetition or
+ * alternatives, such as (a+)+, (\w*\s?)* or (a|ab)*. Such patterns can take
+ * exponentially long to reject an answer, so they are refused rather than run
+ * against responses. Character classes cover most uses of repeated
+ * alternatives, e.g. [ab]* instead of (a|b)*.
+ */
+export function hasUnsafeRepetition(pattern: string): boolean {
+  // Whether each open group contains a repeated item or alternatives
+  const groups: boolean[] = [];
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '\\') {
+      index++;
+    } else if (char === '[') {
+      // Skip the character class, whose contents are never quantifiers
+      index++;
+      if (pattern[index] === '^') index++;
+      if (pattern[index] === ']') index++;
+      while (index < pattern.length && pattern[index] !== ']') {
+        if (pattern[index] === '\\') index++;
+        index++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const isAmbiguous = groups.pop() ?? false;
+      const isRepeated = REPEAT_QUANTIFIER.test(pattern.slice(index + 1));
+      if (isAmbiguous && isRepeated) return true;
+      if (isAmbiguous && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && (char === '|' || REPEAT_QUANTIFIER.test(pattern.slice(index)))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Compiles a constraint pattern, returning null for invalid expressions and
+ * for patterns with unsafe repetition, which are never run
+ */
+export function compilePattern(pattern: string | undefined): RegExp | null {
+  if (!pattern || hasUnsafeRepetition(pattern)) return null;
+
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Formats a count with a singular or plural noun, e.g. "1 option" or "3 options"
+ */
+export function pluralize(count: number, noun: string, plural = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : plural}`;
+}
+
+// Describe a lower and upper bound, e.g. "between 2 and 5 characters"
+function describeRange(min: number | undefined, max: number | undefined, noun?: string, plural?: string): string | null {
+  const format = (count: number) => (noun ? pluralize(count, noun, plural) : String(count));
+
+  if (min !== undefined && max !== undefined) return `between ${min} and ${format(max)}`;
+  if (min !== undefined) return `at least ${format(min)}`;
+  if (max !== undefined) return `at most ${format(max)}`;
+  return null;
+}
+
+/**
+ * Builds helper text describing a field's constraints for respondents
+ * @param field Field definition
+ * @returns Helper text, or undefined when the field has no constraints
+ */
+export function describeFieldConstraints(field: DynamicFieldValues): string | undefined {
+  const constraints = getApplicableConstraints(field);
+  if (!constraints) return undefined;
+
+  const parts: string[] = [];
+
+  const length = describeRange(constraints.minLength, constraints.maxLength, 'character');
+  if (length) parts.push(`Must be ${length}`);
+
+  // Range sliders and ratings cannot go out of bounds, so only numbers describe them
+  if (field.type === 'number') {
+    const range = describeRange(constraints.min, constraints.max);
+    if (range) parts.push(`Must be ${range}`);
+
+    if (constraints.step !== undefined) parts.push(`In steps of ${constraints.step}`);
+  }
+
+  const selected = describeRange(constraints.minSelected, constraints.maxSelected, 'option');
+  if (selected) parts.push(`Select ${selected}`);
+
+  const repeats = describeRange(constraints.minRepeats, constraints.maxRepeats, 'entry', 'entries');
+  if (repeats) parts.push(`Add ${repeats}`);
+
+  if (constraints.patternMessage) parts.push(constraints.patternMessage);
+
+  return parts.length > 0 ? `${parts.join('. ')}.` : undefined;
+}
@@ -0,0 +1,87 @@
+import type { DynamicFieldValues } from '@/lib/schemas/form-schemas';
+
+export type DynamicFieldType = DynamicFieldValues['type'];
+
+// Names shown for each field type in the builder
+export const fieldTypeLabels: Record<DynamicFieldType, string> = {
+  text: 'Text',
+  textarea: 'Long Text',
+  email: 'Email',
+  url: 'URL',
+  phone: 'Phone',
+  number: 'Number',
+  range: 'Range Slider',
+  rating: 'Star Rating',
+  date: 'Date',
+  time: 'Time',
+  datetime: 'Date and Time',
+  checkbox: 'Checkbox',
+  radio: 'Radio',
+  select: 'Select',
+  multiselect: 'Multi-Select',
+  group: 'Repeatable Group',
+  calculated: 'Calculated',
+  hidden: 'Hidden',
+};
+
+// Field types whose answers are chosen from a list of options
+export const optionFieldTypes: DynamicFieldType[] = ['select', 'radio', 'checkbox', 'multiselect'];
+
+// Field types whose options can depend on another field's answer, and the types they can depend on
+export const dependentOptionFieldTypes: DynamicFieldType[] = ['select', 'radio', 'multiselect'];
+export const parentOptionFieldTypes: DynamicFieldType[] = ['select', 'radio'];
+
+// Default bounds used by range sliders without explicit constraints
+const DEFAULT_RANGE = { min: 0, max: 100, step: 1 };
+
+// Most entries a repeatable group accepts when no maximum is set
+const DEFAULT_MAX_REPEATS = 20;
+
+// Default and maximum number of stars for rating fields
+const DEFAULT_RATING_SCALE = 5;
+const MAX_RATING_SCALE = 10;
+
+/**
+ * Whether a checkbox field is a group of options rather than a single checkbox
+ */
+export function isCheckboxGroup(field: DynamicFieldValues): boolean {
+  return field.type === 'checkbox' && (field.options || []).length > 0;
+}
+
+/**
+ * Whether a field is answered with a list of selected option values
+ */
+export function isMultiValueField(field: DynamicFieldValues): boolean {
+  return field.type === 'multiselect' || isCheckboxGroup(field);
+}
+
+/**
+ * Resolves the bounds of a range slider, falling back to 0-100 in steps of 1
+ */
+export function getRangeBounds(field: DynamicFieldValues): { min: number; max: number; step: number } {
+  return {
+    min: field.validation?.min ?? DEFAULT_RANGE.min,
+    max: field.validation?.max ?? DEFAULT_RANGE.max,
+    step: field.validation?.step ?? DEFAULT_RANGE.step,
+  };
+}
+
+/**
+ * Resolves the number of stars offered by a rating field
+ */
+export function getRatingScale(field: DynamicFieldValues): number {
+  const scale = Math.round(field.validation?.max ?? DEFAULT_RATING_SCALE);
+  return Math.min(Math.max(scale, 1), MAX_RATING_SCALE);
+}
+
+/**
+ * Resolves how many entries a repeatable group needs and allows
+ * Required groups need at least one entry.
+ */
+export function getRepeatBounds(field: DynamicFieldValues): { min: number; max: number } {
+  const min = Math.max(field.validation?.minRepeats ?? 0, field.required ? 1 : 0);
+  return {
+    min,
+    max: Math.max(field.validation?.maxRepeats ?? DEFAULT_MAX_REPEATS, min),
+  };
+}
@@ -0,0 +1,527 @@
+import type { DynamicFieldValues } from '@/lib/schemas/form-schemas';
+
+/**
+ * Formulas of calculated fields.
+ *
+ * A formula is a small expression language over the answers to other fields:
+ * - Field references in braces, e.g. {quantity} * {unit_price}
+ * - Numbers, 'strings' or "strings", true and false
+ * - Arithmetic + - * / %, comparisons == != < <= > >=, and, or, not
+ * - Conditionals, either cond ? a : b or if(cond, a, b)
+ * - Functions sum, count, min, max, round, floor, ceil and abs
+ *
+ * Formulas are parsed into a tree and interpreted, never passed to eval,
+ * so a form definition cannot run arbitrary code in the renderer or on the server.
+ */
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'field'; fieldId: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: FormulaNode }
+  | { kind: 'binary'; operator: FormulaBinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'conditional'; condition: FormulaNode; then: FormulaNode; otherwise: FormulaNode }
+  | { kind: 'call'; name: FormulaCallName; args: FormulaNode[] };
+
+export type FormulaBinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | 'and' | 'or';
+
+// Values a formula works with: answers are numbers, text, booleans or lists of selected values
+export type FormulaValue = number | string | boolean | string[] | null;
+
+export type FormulaParseResult =
+  | { success: true; formula: FormulaNode; references: string[] }
+  | { success: false; error: string };
+
+// Functions a formula can call, with the number of arguments each accepts
+export const formulaFunctions = {
+  if: { minArgs: 3, maxArgs: 3 },
+  sum: { minArgs: 1, maxArgs: Infinity },
+  count: { minArgs: 1, maxArgs: 1 },
+  min: { minArgs: 1, maxArgs: Infinity },
+  max: { minArgs: 1, maxArgs: Infinity },
+  round: { minArgs: 1, maxArgs: 2 },
+  floor: { minArgs: 1, maxArgs: 1 },
+  ceil: { minArgs: 1, maxArgs: 1 },
+  abs: { minArgs: 1, maxArgs: 1 },
+} as const;
+
+export type FormulaFunctionName = keyof typeof formulaFunctions;
+
+// Functions kept as calls once parsed; if() becomes a conditional
+export type FormulaCallName = Exclude<FormulaFunctionName, 'if'>;
+
+// Longest formula accepted and deepest nesting, keeping evaluation cheap
+const MAX_FORMULA_LENGTH = 2000;
+const MAX_DEPTH = 50;
+
+// Operators by precedence, from loosest to tightest binding
+const binaryPrecedence: FormulaBinaryOperator[][] = [
+  ['or'],
+  ['and'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'field'; value: string; position: number }
+  | { kind: 'word'; value: string; position: number }
+  | { kind: 'symbol'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+// Raised while parsing and turned into a failed parse result
+class FormulaSyntaxError extends Error {}
+
+// Symbols, longest first so <= is not read as <
+const SYMBOLS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ','];
+
+// Symbols accepted as another spelling of an operator
+const symbolAliases: Record<string, string> = { '&&': 'and', '||': 'or', '!': 'not' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) throw new FormulaSyntaxError(`Text starting at position ${index + 1} is missing its closing quote`);
+      tokens.push({ kind: 'string', value: source.slice(index + 1, end), position: index });
+      index = end + 1;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = source.indexOf('}', index + 1);
+      if (end === -1) throw new FormulaSyntaxError(`Field reference at position ${index + 1} is missing its closing brace`);
+      const fieldId = source.slice(index + 1, end).trim();
+      if (!fieldId) throw new FormulaSyntaxError(`Field reference at position ${index + 1} is empty`);
+      tokens.push({ kind: 'field', value: fieldId, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const word = /^[A-Za-z_]\w*/.exec(source.slice(index));
+    if (word) {
+      tokens.push({ kind: 'word', value: word[0].toLowerCase(), position: index });
+      index += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, index));
+    if (!symbol) throw new FormulaSyntaxError(`Unexpected "${char}" at position ${index + 1}`);
+    tokens.push({ kind: 'symbol', value: symbolAliases[symbol] ?? symbol, position: index });
+    index += symbol.length;
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+// Recursive descent parser over the tokens of one formula
+function parseTokens(tokens: Token[]): FormulaNode {
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (token: Token, value: string) =>
+    (token.kind === 'symbol' || token.kind === 'word') && token.value === value;
+  const describe = (token: Token) => (token.kind === 'end' ? 'the end of the formula' : `position ${token.position + 1}`);
+
+  const expect = (value: string) => {
+    const token = peek();
+    if (!isOperator(token, value)) throw new FormulaSyntaxError(`Expected "${value}" at ${describe(token)}`);
+    index++;
+  };
+
+  const parseConditional = (): FormulaNode => {
+    if (++depth > MAX_DEPTH) throw new FormulaSyntaxError('The formula is nested too deeply');
+
+    const condition = parseBinary(0);
+    let node = condition;
+    if (isOperator(peek(), '?')) {
+      index++;
+      const then = parseConditional();
+      expect(':');
+      const otherwise = parseConditional();
+      node = { kind: 'conditional', condition, then, otherwise };
+    }
+
+    depth--;
+    return node;
+  };
+
+  const parseBinary = (level: number): FormulaNode => {
+    if (level === binaryPrecedence.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    for (;;) {
+      const token = peek();
+      const operator = binaryPrecedence[level].find(candidate => isOperator(token, candidate));
+      if (!operator) return left;
+      index++;
+      left = { kind: 'binary', operator, left, right: parseBinary(level + 1) };
+    }
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const token = peek();
+    if (isOperator(token, '-') || isOperator(token, 'not')) {
+      index++;
+      if (++depth > MAX_DEPTH) throw new FormulaSyntaxError('The formula is nested too deeply');
+      const operand = parseUnary();
+      depth--;
+      return { kind: 'unary', operator: token.kind === 'symbol' && token.value === '-' ? '-' : 'not', operand };
+    }
+    if (isOperator(token, '+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    index++;
+
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'number', value: token.value };
+      case 'string':
+        return { kind: 'string', value: token.value };
+      case 'field':
+        return { kind: 'field', fieldId: token.value };
+      case 'word': {
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'boolean', value: token.value === 'true' };
+        }
+        if (!(token.value in formulaFunctions)) {
+          throw new FormulaSyntaxError(`Unknown name "${token.value}" at position ${token.position + 1}; put field ids in braces, e.g. {${token.value}}`);
+        }
+
+        const name = token.value as FormulaFunctionName;
+        const args: FormulaNode[] = [];
+        expect('(');
+        if (!isOperator(peek(), ')')) {
+          args.push(parseConditional());
+          while (isOperator(peek(), ',')) {
+            index++;
+            args.push(parseConditional());
+          }
+        }
+        expect(')');
+
+        const { minArgs, maxArgs } = formulaFunctions[name];
+        if (args.length < minArgs || args.length > maxArgs) {
+          const expected = minArgs === maxArgs ? `${minArgs}` : maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs} or ${maxArgs}`;
+          throw new FormulaSyntaxError(`${name}() takes ${expected} argument${expected === '1' ? '' : 's'}`);
+        }
+
+        return name === 'if'
+          ? { kind: 'conditional', condition: args[0], then: args[1], otherwise: args[2] }
+          : { kind: 'call', name, args };
+      }
+      case 'symbol':
+        if (token.value === '(') {
+          const node = parseConditional();
+          expect(')');
+          return node;
+        }
+        throw new FormulaSyntaxError(`Unexpected "${token.value}" at position ${token.position + 1}`);
+      case 'end':
+        throw new FormulaSyntaxError('The formula ends unexpectedly');
+    }
+  };
+
+  const node = parseConditional();
+  const rest = peek();
+  if (rest.kind !== 'end') throw new FormulaSyntaxError(`Unexpected text at ${describe(rest)}`);
+  return node;
+}
+
+// Collect the ids of the fields a formula reads
+function collectReferences(node: FormulaNode, references: Set<string>): Set<string> {
+  switch (node.kind) {
+    case 'field':
+      references.add(node.fieldId);
+      break;
+    case 'unary':
+      collectReferences(node.operand, references);
+      break;
+    case 'binary':
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case 'conditional':
+      collectReferences(node.condition, references);
+      collectReferences(node.then, references);
+      collectReferences(node.otherwise, references);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, references));
+      break;
+  }
+  return references;
+}
+
+/**
+ * Parses the formula of a calculated field
+ * @param source Formula as written in the builder
+ * @returns The parsed formula and the ids of the fields it reads, or a description of the mistake
+ */
+export function parseFormula(source: string): FormulaParseResult {
+  if (!source.trim()) return { success: false, error: 'The formula is empty' };
+  if (source.length > MAX_FORMULA_LENGTH) {
+    return { success: false, error: `The formula is longer than ${MAX_FORMULA_LENGTH} characters` };
+  }
+
+  try {
+    const formula = parseTokens(tokenize(source));
+    return { success: true, formula, references: [...collectReferences(formula, new Set())] };
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return { success: false, error: error.message };
+    throw error;
+  }
+}
+
+/**
+ * Finds the calculated fields whose formulas depend on their own value,
+ * directly or through other calculated fields
+ * @param fields Fields answered together
+ * @returns Ids of the calculated fields caught in a loop
+ */
+export function findFormulaLoops(fields: DynamicFieldValues[]): Set<string> {
+  const references = new Map<string, string[]>();
+  for (const field of fields) {
+    const parsed = field.type === 'calculated' ? parseFormula(field.formula || '') : null;
+    if (parsed?.success) references.set(field.id, parsed.references);
+  }
+
+  const loops = new Set<string>();
+  for (const fieldId of references.keys()) {
+    const stack = [...references.get(fieldId)!];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const reference = stack.pop()!;
+      if (reference === fieldId) {
+        loops.add(fieldId);
+        break;
+      }
+      if (seen.has(reference)) continue;
+      seen.add(reference);
+      stack.push(...(references.get(reference) || []));
+    }
+  }
+
+  return loops;
+}
+
+/**
+ * Converts a value to a number: blanks count as 0, true as 1 and lists
+ * cannot be used directly, so sum() or count() must be used on them
+ */
+export function toFormulaNumber(value: FormulaValue): number {
+  if (value === null || value === '') return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (Array.isArray(value)) return NaN;
+  return Number(value);
+}
+
+/**
+ * Whether a value counts as true in conditions: non-zero numbers,
+ * non-blank text and lists with a selection
+ */
+export function isFormulaTruthy(value: FormulaValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  return !!value;
+}
+
+/**
+ * Compares two values, numerically when both are numbers; a list equals
+ * a value when it contains it, as in visibility rules
+ */
+export function formulaEquals(left: FormulaValue, right: FormulaValue): boolean {
+  if (Array.isArray(left)) return left.some(item => formulaEquals(item, right));
+  if (Array.isArray(right)) return formulaEquals(right, left);
+
+  const leftNumber = toFormulaNumber(left);
+  const rightNumber = toFormulaNumber(right);
+  if (typeof left !== 'string' || typeof right !== 'string') {
+    if (!Number.isNaN(leftNumber) && !Number.isNaN(rightNumber)) return leftNumber === rightNumber;
+  }
+  return String(left ?? '') === String(right ?? '');
+}
+
+/**
+ * Numbers of the arguments to sum, min and max, with lists of selected values spread out
+ */
+export function toFormulaNumbers(values: FormulaValue[]): number[] {
+  return values.flatMap(value => (Array.isArray(value) ? value : [value])).map(toFormulaNumber);
+}
+
+// Read an answer as a formula value
+function toFormulaValue(answer: unknown): FormulaValue {
+  if (Array.isArray(answer)) return answer.filter((item): item is string => typeof item === 'string');
+  // Number inputs hold NaN while blank
+  if (typeof answer === 'number' && Number.isNaN(answer)) return null;
+  if (typeof answer === 'number' || typeof answer === 'string' || typeof answer === 'boolean') return answer;
+  return null;
+}
+
+// Apply an arithmetic or comparison operator
+function applyOperator(operator: Exclude<FormulaBinaryOperator, 'and' | 'or'>, left: FormulaValue, right: FormulaValue): FormulaValue {
+  switch (operator) {
+    case '==': return formulaEquals(left, right);
+    case '!=': return !formulaEquals(left, right);
+    case '+': return toFormulaNumber(left) + toFormulaNumber(right);
+    case '-': return toFormulaNumber(left) - toFormulaNumber(right);
+    case '*': return toFormulaNumber(left) * toFormulaNumber(right);
+    case '/': return toFormulaNumber(left) / toFormulaNumber(right);
+    case '%': return toFormulaNumber(left) % toFormulaNumber(right);
+    case '<': return toFormulaNumber(left) < toFormulaNumber(right);
+    case '<=': return toFormulaNumber(left) <= toFormulaNumber(right);
+    case '>': return toFormulaNumber(left) > toFormulaNumber(right);
+    case '>=': return toFormulaNumber(left) >= toFormulaNumber(right);
+  }
+}
+
+// Call one of the formula functions other than if, which is parsed as a conditional
+function callFunction(name: FormulaCallName, args: FormulaValue[]): FormulaValue {
+  switch (name) {
+    case 'sum':
+      return toFormulaNumbers(args).reduce((total, value) => total + value, 0);
+    case 'count': {
+      const [value] = args;
+      if (Array.isArray(value)) return value.length;
+      return value === null || value === '' || value === false ? 0 : 1;
+    }
+    case 'min':
+    case 'max': {
+      const numbers = toFormulaNumbers(args);
+      if (numbers.length === 0) return 0;
+      return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+    }
+    case 'round': {
+      const factor = 10 ** toFormulaNumber(args[1] ?? 0);
+      return Math.round(toFormulaNumber(args[0]) * factor) / factor;
+    }
+    case 'floor':
+      return Math.floor(toFormulaNumber(args[0]));
+    case 'ceil':
+      return Math.ceil(toFormulaNumber(args[0]));
+    case 'abs':
+      return Math.abs(toFormulaNumber(args[0]));
+  }
+}
+
+function evaluateNode(node: FormulaNode, lookup: (fieldId: string) => FormulaValue): FormulaValue {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'field':
+      return lookup(node.fieldId);
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, lookup);
+      return node.operator === '-' ? -toFormulaNumber(operand) : !isFormulaTruthy(operand);
+    }
+
+    case 'conditional':
+      return isFormulaTruthy(evaluateNode(node.condition, lookup))
+        ? evaluateNode(node.then, lookup)
+        : evaluateNode(node.otherwise, lookup);
+
+    case 'binary': {
+      // and/or only evaluate their right side when it decides the result
+      if (node.operator === 'and' || node.operator === 'or') {
+        const left = isFormulaTruthy(evaluateNode(node.left, lookup));
+        if (node.operator === 'and' ? !left : left) return left;
+        return isFormulaTruthy(evaluateNode(node.right, lookup));
+      }
+      return applyOperator(node.operator, evaluateNode(node.left, lookup), evaluateNode(node.right, lookup));
+    }
+
+    case 'call':
+      return callFunction(node.name, node.args.map(arg => evaluateNode(arg, lookup)));
+  }
+}
+
+/**
+ * Turns the result of a formula into the value stored for a calculated field:
+ * a finite number, with floating point noise such as 0.1 + 0.2 rounded away,
+ * or null when the formula cannot be worked out, e.g. after dividing by zero
+ */
+export function toCalculatedValue(value: FormulaValue): number | null {
+  const number = toFormulaNumber(value);
+  if (!Number.isFinite(number)) return null;
+  return Math.round(number * 1e9) / 1e9;
+}
+
+/**
+ * Works out the value of every calculated field in a list of fields.
+ * Calculated fields can read each other; a field caught in a loop of
+ * references, or with a formula that does not parse, has no value.
+ * @param fields Fields answered together, e.g. the visible fields of a form
+ * @param answers Answers keyed by field id
+ * @returns Values of the calculated fields, keyed by field id
+ */
+export function computeCalculatedValues(
+  fields: DynamicFieldValues[],
+  answers: Record<string, unknown>
+): Record<string, number | null> {
+  const calculated = new Map(
+    fields.filter(field => field.type === 'calculated').map(field => [field.id, field])
+  );
+  const loops = findFormulaLoops(fields);
+  const values: Record<string, number | null> = {};
+
+  const calculate = (field: DynamicFieldValues): number | null => {
+    if (field.id in values) return values[field.id];
+
+    const parsed = parseFormula(field.formula || '');
+    if (!parsed.success || loops.has(field.id)) return (values[field.id] = null);
+
+    const result = evaluateNode(parsed.formula, fieldId => {
+      const other = calculated.get(fieldId);
+      return other ? calculate(other) : toFormulaValue(answers[fieldId]);
+    });
+
+    return (values[field.id] = toCalculatedValue(result));
+  };
+
+  calculated.forEach(calculate);
+  return values;
+}
+
+/**
+ * Formats the value of a calculated field for display, e.g. 1234.5 becomes "1,234.5"
+ */
+export function formatCalculatedValue(value: number | null): string {
+  return value === null ? '—' : value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
@@ -0,0 +1,572 @@
+import { z } from 'zod';
+import {
+  dynamicDependentOptionsSchema,
+  dynamicFieldSchema,
+  dynamicOptionSetSchema,
+  dynamicQuizSchema,
+  dynamicSectionSchema,
+  prefillParamSchema,
+  visibilityRuleSchema,
+  type DynamicDependentOptionsValues,
+  type DynamicFieldValues,
+  type DynamicFormValues,
+  type FieldConstraints,
+  type VisibilityRule
+} from '@/lib/schemas/form-schemas';
+import { getApplicableConstraints } from './constraints';
+import { getAllOptions, resolveOptionSets, type FieldOption } from './options';
+import {
+  fieldTypeLabels,
+  getRangeBounds,
+  getRatingScale,
+  getRepeatBounds,
+  isCheckboxGroup,
+  type DynamicFieldType
+} from './field-types';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Vendor keyword carrying builder details that JSON Schema has no keyword for
+export const FORM_UI_KEYWORD = 'x-form-ui';
+
+export type JsonSchema = Record<string, unknown>;
+
+// Builder details stored on each property under the vendor keyword
+interface FieldUiHints {
+  widget: DynamicFieldType;
+  visibleWhen?: VisibilityRule;
+  requiredWhenVisible?: boolean;
+  step?: number;
+  patternMessage?: string;
+  sectionId?: string;
+  optionSetId?: string;
+  dependentOptions?: DynamicDependentOptionsValues;
+  formula?: string;
+  // Query parameter the answer is prefilled from
+  prefillParam?: string;
+  // Quiz scoring of the options, keyed by option value
+  optionScores?: Record<string, OptionScore>;
+  explanation?: string;
+}
+
+// Quiz scoring of a single option
+const optionScoreSchema = z.object({
+  points: z.number().optional(),
+  correct: z.boolean().optional(),
+});
+
+type OptionScore = z.infer<typeof optionScoreSchema>;
+
+export type JsonSchemaImportResult =
+  | { success: true; definition: DynamicFormValues; unsupported: string[] }
+  | { success: false; error: string };
+
+// Formats for string fields, in both directions
+const formatsByType: Partial<Record<DynamicFieldType, string>> = {
+  email: 'email',
+  url: 'uri',
+  date: 'date',
+  time: 'time',
+  datetime: 'date-time',
+};
+
+const typesByFormat: Record<string, DynamicFieldType> = Object.fromEntries(
+  Object.entries(formatsByType).map(([type, format]) => [format, type as DynamicFieldType])
+);
+
+// Field types that can be stored as each kind of JSON value
+const widgetsByJsonType: Record<string, DynamicFieldType[]> = {
+  string: ['text', 'textarea', 'email', 'url', 'phone', 'date', 'time', 'datetime', 'radio', 'select', 'hidden'],
+  number: ['number', 'range', 'rating', 'calculated'],
+  integer: ['number', 'range', 'rating'],
+  boolean: ['checkbox'],
+  array: ['checkbox', 'multiselect', 'group'],
+};
+
+// Keywords the importer understands, anything else is reported
+const supportedFormKeywords = new Set([
+  '$schema', '$id', 'title', 'type', 'properties', 'required', 'additionalProperties', FORM_UI_KEYWORD,
+]);
+
+const supportedFieldKeywords = new Set([
+  'type', 'title', 'format', 'default', 'const', 'enum', 'oneOf',
+  'minLength', 'maxLength', 'pattern', 'minimum', 'maximum', 'multipleOf',
+  'items', 'uniqueItems', 'minItems', 'maxItems', 'readOnly', FORM_UI_KEYWORD,
+]);
+
+function isObject(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Copy only the keywords whose values are set
+function definedOnly(schema: JsonSchema): JsonSchema {
+  return Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined));
+}
+
+// Options as labelled constants, allowing null for unanswered optional fields
+function optionsToJsonSchema(field: DynamicFieldValues, nullable: boolean): JsonSchema {
+  const options = field.options || [];
+  if (options.length === 0) return {};
+
+  return {
+    oneOf: [
+      ...options.map(option => ({ const: option.value, title: option.label })),
+      ...(nullable ? [{ const: null }] : []),
+    ],
+  };
+}
+
+// Quiz scoring of the options that have any, or undefined when none do
+function getOptionScores(options: FieldOption[]): Record<string, OptionScore> | undefined {
+  const scored = options.filter(option => option.points !== undefined || option.correct);
+  if (scored.length === 0) return undefined;
+
+  return Object.fromEntries(
+    scored.map(option => [option.value, definedOnly({ points: option.points, correct: option.correct })])
+  );
+}
+
+// JSON Schema for the answer a single field produces
+// Dependent options are listed in full, with the lists for each answer kept as a hint
+function fieldToJsonSchema(definitionField: DynamicFieldValues): JsonSchema {
+  const field = definitionField.dependentOptions
+    ? { ...definitionField, options: getAllOptions(definitionField) }
+    : definitionField;
+  const constraints: FieldConstraints = getApplicableConstraints(field) || {};
+  // Optional fields are submitted as null when left blank
+  const nullable = !field.required;
+  const jsonType = (type: string) => (nullable ? [type, 'null'] : type);
+  const ui: FieldUiHints = { widget: field.type };
+  let schema: JsonSchema;
+
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+    case 'email':
+    case 'url':
+    case 'phone':
+    case 'date':
+    case 'time':
+    case 'datetime':
+    case 'hidden':
+      schema = {
+        type: jsonType('string'),
+        format: formatsByType[field.type],
+        minLength: constraints.minLength,
+        maxLength: constraints.maxLength,
+        pattern: constraints.pattern,
+      };
+      ui.patternMessage = constraints.patternMessage;
+      break;
+
+    case 'number':
+    case 'range': {
+      const { min, max, step } = field.type === 'range'
+        ? getRangeBounds(field)
+        : { min: constraints.min, max: constraints.max, step: constraints.step };
+
+      schema = { type: jsonType('number'), minimum: min, maximum: max };
+
+      // multipleOf counts from zero while steps count from the minimum
+      if (step !== undefined && Number.isInteger((min ?? 0) / step)) {
+        schema.multipleOf = step;
+      } else {
+        ui.step = step;
+      }
+      break;
+    }
+
+    case 'rating':
+      schema = { type: jsonType('integer'), minimum: 1, maximum: getRatingScale(field) };
+      break;
+
+    case 'checkbox':
+    case 'multiselect':
+      if (field.type === 'checkbox' && !isCheckboxGroup(field)) {
+        schema = field.required ? { type: 'boolean', const: true } : { type: 'boolean' };
+        break;
+      }
+
+      // Unanswered groups are submitted as an empty list
+      schema = {
+        type: 'array',
+        items: { type: 'string', ...optionsToJsonSchema(field, false) },
+        uniqueItems: true,
+        minItems: Math.max(constraints.minSelected ?? 0, field.required ? 1 : 0) || undefined,
+        maxItems: constraints.maxSelected,
+      };
+      break;
+
+    case 'radio':
+    case 'select':
+      schema = { type: jsonType('string'), ...optionsToJsonSchema(field, nullable) };
+      break;
+
+    case 'group': {
+      const { min, max } = getRepeatBounds(field);
+
+      // Each entry is an object answering the group's fields
+      schema = {
+        type: 'array',
+        items: fieldsToJsonSchema(field.fields || []),
+        minItems: min || undefined,
+        maxItems: max,
+      };
+      break;
+    }
+
+    case 'calculated':
+      // Worked out from other answers, and null when the formula has no result
+      schema = { type: ['number', 'null'], readOnly: true };
+      ui.formula = field.formula;
+      break;
+  }
+
+  ui.sectionId = field.sectionId;
+  ui.optionSetId = field.optionSetId;
+  ui.dependentOptions = field.dependentOptions;
+  // Dependent options keep their scoring in their own lists
+  ui.optionScores = field.dependentOptions ? undefined : getOptionScores(field.options || []);
+  ui.explanation = field.explanation;
+  ui.prefillParam = field.prefillParam;
+
+  if (field.visibleWhen && field.visibleWhen.conditions.length > 0) {
+    ui.visibleWhen = field.visibleWhen;
+    ui.requiredWhenVisible = field.required || undefined;
+  }
+
+  return definedOnly({
+    title: field.label,
+    ...schema,
+    default: field.value ?? undefined,
+    [FORM_UI_KEYWORD]: definedOnly({ ...ui }),
+  });
+}
+
+/**
+ * Exports a builder definition as a JSON Schema (draft 2020-12) describing
+ * the responses the form produces. Builder details with no JSON Schema
+ * equivalent, such as visibility rules, are kept under the x-form-ui keyword.
+ * @param definition Form definition
+ * @returns JSON Schema document
+ */
+export function exportJsonSchema(definition: DynamicFormValues): JsonSchema {
+  const formUi = definedOnly({
+    sections: definition.sections?.length ? definition.sections : undefined,
+    optionSets: definition.optionSets?.length ? definition.optionSets : undefined,
+    quiz: definition.quiz,
+  });
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: definition.formName,
+    // Options are written out on every property so the schema stands on its own
+    ...fieldsToJsonSchema(resolveOptionSets(definition).fields),
+    ...(Object.keys(formUi).length > 0 && { [FORM_UI_KEYWORD]: formUi }),
+  };
+}
+
+// JSON Schema for an object answering a list of fields
+function fieldsToJsonSchema(fields: DynamicFieldValues[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const field of fields) {
+    properties[field.id] = fieldToJsonSchema(field);
+
+    // Hidden fields are left out of responses, so only always-visible fields can be required
+    const conditional = !!field.visibleWhen && field.visibleWhen.conditions.length > 0;
+    if (field.required && !conditional) required.push(field.id);
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required,
+    additionalProperties: false,
+  };
+}
+
+// Resolve the single non-null JSON type of a property
+function resolveJsonType(schema: JsonSchema): string | null {
+  const types = (Array.isArray(schema.type) ? schema.type : [schema.type])
+    .filter(type => typeof type === 'string' && type !== 'null');
+
+  if (types.length === 1) return types[0] as string;
+  if (types.length === 0 && (Array.isArray(schema.enum) || Array.isArray(schema.oneOf))) return 'string';
+  return null;
+}
+
+// Read options from oneOf constants or an enum, reporting subschemas that are not constants
+function readOptions(schema: JsonSchema, path: string, unsupported: string[]) {
+  if (Array.isArray(schema.oneOf)) {
+    return schema.oneOf.flatMap((option, index) => {
+      if (!isObject(option) || !('const' in option)) {
+        unsupported.push(`${path}/oneOf/${index}: only constant options are supported`);
+        return [];
+      }
+      if (option.const === null) return [];
+
+      const value = String(option.const);
+      return [{ value, label: typeof option.title === 'string' ? option.title : value }];
+    });
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return schema.enum
+      .filter(value => value !== null)
+      .map(value => ({ value: String(value), label: String(value) }));
+  }
+
+  return null;
+}
+
+function readNumber(schema: JsonSchema, keyword: string): number | undefined {
+  return typeof schema[keyword] === 'number' ? schema[keyword] : undefined;
+}
+
+// Convert one property back into a field, or null when it cannot be represented
+function jsonSchemaToField(
+  id: string,
+  schema: unknown,
+  required: boolean,
+  unsupported: string[],
+  parentPath: string
+): DynamicFieldValues | null {
+  const path = `${parentPath}/properties/${id}`;
+  const isGroupChild = parentPath !== '';
+
+  if (!isObject(schema)) {
+    unsupported.push(`${path}: property schemas must be objects`);
+    return null;
+  }
+
+  for (const keyword of Object.keys(schema)) {
+    if (!supportedFieldKeywords.has(keyword)) {
+      unsupported.push(`${path}: "${keyword}" is not supported`);
+    }
+  }
+
+  const jsonType = resolveJsonType(schema);
+  if (!jsonType || !(jsonType in widgetsByJsonType)) {
+    unsupported.push(`${path}: type ${JSON.stringify(schema.type ?? null)} cannot be represented as a field`);
+    return null;
+  }
+
+  const ui = isObject(schema[FORM_UI_KEYWORD]) ? schema[FORM_UI_KEYWORD] : {};
+  const items = isObject(schema.items) ? schema.items : {};
+  const options = readOptions(jsonType === 'array' ? items : schema, jsonType === 'array' ? `${path}/items` : path, unsupported);
+
+  // Infer the widget from the schema, then let a compatible hint override it
+  let type: DynamicFieldType;
+  let children: DynamicFieldValues[] | undefined;
+  if (jsonType === 'array' && isObject(items.properties)) {
+    // Arrays of objects are repeatable groups, which cannot be nested
+    if (isGroupChild) {
+      unsupported.push(`${path}: repeatable groups cannot be nested`);
+      return null;
+    }
+    type = 'group';
+    children = jsonSchemaToFields(items, `${path}/items`, unsupported);
+  } else if (jsonType === 'array') {
+    if (!options) {
+      unsupported.push(`${path}: arrays are only supported with a fixed list of options`);
+      return null;
+    }
+    type = 'multiselect';
+  } else if (jsonType === 'boolean') {
+    type = 'checkbox';
+  } else if (jsonType === 'number' || jsonType === 'integer') {
+    type = 'number';
+  } else if (options) {
+    type = 'select';
+  } else if (typeof schema.format === 'string' && schema.format in typesByFormat) {
+    type = typesByFormat[schema.format];
+  } else {
+    if (typeof schema.format === 'string') {
+      unsupported.push(`${path}: format "${schema.format}" is not supported`);
+    }
+    type = 'text';
+  }
+
+  if (typeof ui.widget === 'string') {
+    const widget = ui.widget as DynamicFieldType;
+    const hasOptions = !!options && options.length > 0;
+
+    if (!(widget in fieldTypeLabels) || !widgetsByJsonType[jsonType].includes(widget)) {
+      unsupported.push(`${path}: widget "${ui.widget}" cannot be used for ${jsonType} values`);
+    } else if ((widget === 'group') !== (type === 'group')) {
+      unsupported.push(`${path}: widget "${ui.widget}" does not match the property's items`);
+    } else if ((widget === 'radio' || widget === 'select') !== (type === 'select')) {
+      unsupported.push(`${path}: widget "${ui.widget}" does not match the property's options`);
+    } else if (widget !== 'checkbox' || jsonType === 'boolean' || hasOptions) {
+      type = widget;
+    }
+  }
+
+  if ((type === 'calculated' || type === 'hidden') && isGroupChild) {
+    unsupported.push(`${path}: ${type} fields cannot be repeated inside a group`);
+    return null;
+  }
+
+  const isRequired = required || ui.requiredWhenVisible === true || (jsonType === 'boolean' && schema.const === true);
+  const minItems = readNumber(schema, 'minItems');
+
+  const validation: FieldConstraints = {
+    minLength: readNumber(schema, 'minLength'),
+    maxLength: readNumber(schema, 'maxLength'),
+    pattern: typeof schema.pattern === 'string' ? schema.pattern : undefined,
+    patternMessage: typeof ui.patternMessage === 'string' ? ui.patternMessage : undefined,
+    min: readNumber(schema, 'minimum'),
+    max: readNumber(schema, 'maximum'),
+    step: readNumber(ui, 'step') ?? readNumber(schema, 'multipleOf') ?? (jsonType === 'integer' && type === 'number' ? 1 : undefined),
+    // Required lists already need one selection or entry
+    minSelected: isRequired && minItems === 1 ? undefined : minItems,
+    maxSelected: readNumber(schema, 'maxItems'),
+    minRepeats: isRequired && minItems === 1 ? undefined : minItems,
+    maxRepeats: readNumber(schema, 'maxItems'),
+  };
+
+  const visibleWhen = visibilityRuleSchema.safeParse(ui.visibleWhen);
+  if (ui.visibleWhen !== undefined && !visibleWhen.success) {
+    unsupported.push(`${path}/${FORM_UI_KEYWORD}/visibleWhen: invalid visibility rule`);
+  }
+
+  const dependentOptions = dynamicDependentOptionsSchema.safeParse(ui.dependentOptions);
+  if (ui.dependentOptions !== undefined && !dependentOptions.success) {
+    unsupported.push(`${path}/${FORM_UI_KEYWORD}/dependentOptions: invalid dependent options`);
+  }
+  const optionScores = z.record(z.string(), optionScoreSchema).safeParse(ui.optionScores ?? {});
+  if (!optionScores.success) {
+    unsupported.push(`${path}/${FORM_UI_KEYWORD}/optionScores: invalid quiz scoring was ignored`);
+  }
+  const scoredOptions = options && optionScores.success
+    ? options.map(option => ({ ...option, ...optionScores.data[option.value] }))
+    : options;
+
+  // Fields with dependent options take them from the hint rather than the full list
+  const hasDependentOptions = dependentOptions.success && !!options && (type === 'select' || type === 'radio' || type === 'multiselect');
+
+  const field = dynamicFieldSchema.safeParse({
+    id,
+    label: typeof schema.title === 'string' ? schema.title : id,
+    type,
+    required: isRequired,
+    options: hasDependentOptions ? [] : scoredOptions ?? undefined,
+    value: ['string', 'number', 'boolean'].includes(typeof schema.default) ? schema.default : undefined,
+    visibleWhen: visibleWhen.success ? visibleWhen.data : undefined,
+    validation: definedOnly(validation),
+    sectionId: typeof ui.sectionId === 'string' && !isGroupChild ? ui.sectionId : undefined,
+    optionSetId: typeof ui.optionSetId === 'string' && options && !hasDependentOptions ? ui.optionSetId : undefined,
+    dependentOptions: hasDependentOptions ? dependentOptions.data : undefined,
+    explanation: typeof ui.explanation === 'string' ? ui.explanation : undefined,
+    formula: type === 'calculated' && typeof ui.formula === 'string' ? ui.formula : undefined,
+    prefillParam: typeof ui.prefillParam === 'string' && !isGroupChild && prefillParamSchema.safeParse(ui.prefillParam).success
+      ? ui.prefillParam
+      : undefined,
+    fields: children,
+  });
+
+  if (!field.success) {
+    unsupported.push(`${path}: constraints could not be converted`);
+    return null;
+  }
+
+  return { ...field.data, validation: getApplicableConstraints(field.data) };
+}
+
+// Convert the properties of an object schema into fields
+function jsonSchemaToFields(schema: JsonSchema, parentPath: string, unsupported: string[]): DynamicFieldValues[] {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = Array.isArray(schema.required) ? schema.required : [];
+
+  const fields = Object.entries(properties)
+    .map(([id, property]) => jsonSchemaToField(id, property, required.includes(id), unsupported, parentPath))
+    .filter((field): field is DynamicFieldValues => field !== null);
+
+  // Drop visibility conditions and dependent options that point at fields which were not imported
+  const fieldIds = new Set(fields.map(field => field.id));
+
+  return fields.map(field => {
+    const { dependentOptions } = field;
+    if (dependentOptions && !fieldIds.has(dependentOptions.parentFieldId)) {
+      unsupported.push(`${parentPath}/properties/${field.id}: options depending on unknown field "${dependentOptions.parentFieldId}" were combined into one list`);
+      field = { ...field, options: getAllOptions(field), dependentOptions: undefined };
+    }
+
+    if (!field.visibleWhen) return field;
+
+    const conditions = field.visibleWhen.conditions.filter(condition => {
+      if (fieldIds.has(condition.fieldId)) return true;
+      unsupported.push(`${parentPath}/properties/${field.id}: visibility condition on unknown field "${condition.fieldId}" was removed`);
+      return false;
+    });
+
+    return { ...field, visibleWhen: { ...field.visibleWhen, conditions } };
+  });
+}
+
+/**
+ * Imports a JSON Schema describing an object into a builder definition.
+ * Each top-level property becomes a field; keywords that cannot be represented
+ * are skipped and listed so they can be reported to the user.
+ * @param input Parsed JSON Schema document
+ * @returns The definition and unsupported constructs, or an error when the schema is not an object schema
+ */
+export function importJsonSchema(input: unknown): JsonSchemaImportResult {
+  if (!isObject(input) || !isObject(input.properties)) {
+    return { success: false, error: 'The schema must describe an object with properties.' };
+  }
+
+  const unsupported: string[] = [];
+
+  if (typeof input.$schema === 'string' && input.$schema !== JSON_SCHEMA_DIALECT) {
+    unsupported.push(`/$schema: "${input.$schema}" is read as draft 2020-12`);
+  }
+
+  for (const keyword of Object.keys(input)) {
+    if (!supportedFormKeywords.has(keyword)) {
+      unsupported.push(`/: "${keyword}" is not supported`);
+    }
+  }
+
+  const formUi = isObject(input[FORM_UI_KEYWORD]) ? input[FORM_UI_KEYWORD] : {};
+  const sections = z.array(dynamicSectionSchema).safeParse(formUi.sections ?? []);
+  if (!sections.success) {
+    unsupported.push(`/${FORM_UI_KEYWORD}/sections: invalid sections were ignored`);
+  }
+
+  const optionSets = z.array(dynamicOptionSetSchema).safeParse(formUi.optionSets ?? []);
+  if (!optionSets.success) {
+    unsupported.push(`/${FORM_UI_KEYWORD}/optionSets: invalid option sets were ignored`);
+  }
+
+  const quiz = dynamicQuizSchema.optional().safeParse(formUi.quiz);
+  if (!quiz.success) {
+    unsupported.push(`/${FORM_UI_KEYWORD}/quiz: invalid quiz settings were ignored`);
+  }
+
+  // Fields referencing a known option set take their options from it again
+  const optionSetIds = new Set(optionSets.success ? optionSets.data.map(optionSet => optionSet.id) : []);
+  const linkOptionSet = <F extends Pick<DynamicFieldValues, 'optionSetId' | 'options'>>(field: F): F => {
+    if (!field.optionSetId) return field;
+    return optionSetIds.has(field.optionSetId)
+      ? { ...field, options: [] }
+      : { ...field, optionSetId: undefined };
+  };
+
+  return {
+    success: true,
+    definition: {
+      formName: typeof input.title === 'string' ? input.title : '',
+      fields: jsonSchemaToFields(input, '', unsupported).map(field => ({
+        ...linkOptionSet(field),
+        fields: field.fields?.map(linkOptionSet),
+      })),
+      ...(sections.success && sections.data.length > 0 && { sections: sections.data }),
+      ...(optionSets.success && optionSets.data.length > 0 && { optionSets: optionSets.data }),
+      ...(quiz.success && quiz.data && { quiz: quiz.data }),
+    },
+    unsupported,
+  };
+}
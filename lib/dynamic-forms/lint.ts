@@ -0,0 +1,274 @@
+import type { DynamicFieldValues, DynamicFormValues } from '@/lib/schemas/form-schemas';
+import { compilePattern, getApplicableConstraints, hasUnsafeRepetition } from './constraints';
+import { dependentOptionFieldTypes, optionFieldTypes, parentOptionFieldTypes } from './field-types';
+import { findDuplicateOptionValues, getAllOptions, resolveOptionSets, type FieldOption } from './options';
+import { isQuizQuestion } from './quiz';
+import { findFormulaLoops, parseFormula } from './formula';
+
+export interface DynamicFormLintIssue {
+  // Top-level field the problem belongs to, so the builder can link to it
+  fieldId?: string;
+  message: string;
+}
+
+// Lower and upper constraints that must not cross, with the names shown in messages
+const constraintPairs = [
+  ['minLength', 'maxLength', 'length'],
+  ['min', 'max', 'value'],
+  ['minSelected', 'maxSelected', 'number of selections'],
+  ['minRepeats', 'maxRepeats', 'number of entries'],
+] as const;
+
+// Normalise a label for comparisons, so "Name" and " name " count as the same
+const normaliseLabel = (label: string) => label.trim().toLowerCase();
+
+// Find the values that appear more than once
+function findDuplicates(values: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  for (const value of values) {
+    if (seen.has(value)) duplicates.add(value);
+    seen.add(value);
+  }
+
+  return [...duplicates];
+}
+
+// Check the ids and labels of fields answered together
+function lintFieldList(
+  fields: DynamicFieldValues[],
+  scope: string,
+  issueFieldId: (field: DynamicFieldValues) => string | undefined
+): DynamicFormLintIssue[] {
+  const issues: DynamicFormLintIssue[] = [];
+
+  for (const id of findDuplicates(fields.map(field => field.id))) {
+    const field = fields.find(f => f.id === id)!;
+    issues.push({ fieldId: issueFieldId(field), message: `${scope} has more than one field with the id "${id}"` });
+  }
+
+  const labels = fields.map(field => normaliseLabel(field.label)).filter(Boolean);
+  for (const label of findDuplicates(labels)) {
+    const field = fields.find(f => normaliseLabel(f.label) === label)!;
+    issues.push({
+      fieldId: issueFieldId(field),
+      message: `${scope} has more than one field labelled "${field.label.trim()}"; respondents cannot tell them apart`,
+    });
+  }
+
+  // Visibility rules can only depend on other fields answered together with this one
+  const fieldIds = new Set(fields.map(field => field.id));
+  for (const field of fields) {
+    for (const condition of field.visibleWhen?.conditions || []) {
+      if (condition.fieldId === field.id) {
+        issues.push({ fieldId: issueFieldId(field), message: `Field "${field.label}" has a visibility condition on itself` });
+      } else if (!fieldIds.has(condition.fieldId)) {
+        issues.push({
+          fieldId: issueFieldId(field),
+          message: `Field "${field.label}" has a visibility condition on a field that does not exist`,
+        });
+      } else if (fields.some(f => f.id === condition.fieldId && f.type === 'calculated')) {
+        issues.push({
+          fieldId: issueFieldId(field),
+          message: `Field "${field.label}" has a visibility condition on a calculated field; conditions can only use answers`,
+        });
+      }
+    }
+  }
+
+  // Dependent options can only follow a select or radio field answered together with this one
+  const fieldsById = new Map(fields.map(field => [field.id, field]));
+  for (const field of fields) {
+    const parentFieldId = field.dependentOptions?.parentFieldId;
+    if (!parentFieldId) continue;
+
+    const parent = fieldsById.get(parentFieldId);
+    let message: string | null = null;
+
+    if (parentFieldId === field.id) {
+      message = `Field "${field.label}" has options that depend on its own answer`;
+    } else if (!parent) {
+      message = `Field "${field.label}" has options that depend on a field that does not exist`;
+    } else if (!parentOptionFieldTypes.includes(parent.type)) {
+      message = `Field "${field.label}" has options that depend on "${parent.label}", which is not a select or radio field`;
+    } else {
+      // Follow the chain of parents to find loops such as A depends on B depends on A
+      const seen = new Set([field.id]);
+      for (let current: DynamicFieldValues | undefined = parent; current?.dependentOptions; current = fieldsById.get(current.dependentOptions.parentFieldId)) {
+        if (seen.has(current.id)) {
+          message = `Field "${field.label}" has options that depend on each other in a loop`;
+          break;
+        }
+        seen.add(current.id);
+      }
+    }
+
+    if (message) issues.push({ fieldId: issueFieldId(field), message });
+  }
+
+  // Formulas can only read the other fields answered together with a calculated field
+  for (const field of fields) {
+    if (field.type !== 'calculated') continue;
+
+    const parsed = parseFormula(field.formula || '');
+    if (!parsed.success) {
+      issues.push({ fieldId: issueFieldId(field), message: `Field "${field.label}" has a formula problem: ${parsed.error}` });
+      continue;
+    }
+
+    for (const reference of parsed.references) {
+      const source = fieldsById.get(reference);
+      if (!source) {
+        issues.push({ fieldId: issueFieldId(field), message: `Field "${field.label}" has a formula that uses {${reference}}, which is not a field` });
+      } else if (source.type === 'group') {
+        issues.push({ fieldId: issueFieldId(field), message: `Field "${field.label}" has a formula that uses the repeatable group "${source.label}"` });
+      }
+    }
+  }
+
+  for (const fieldId of findFormulaLoops(fields)) {
+    const field = fieldsById.get(fieldId)!;
+    issues.push({ fieldId: issueFieldId(field), message: `Field "${field.label}" has a formula that depends on its own value` });
+  }
+
+  return issues;
+}
+
+// Check the labels and values of a list of options
+function lintOptions(options: FieldOption[], subject: string, fieldId: string): DynamicFormLintIssue[] {
+  const issues: DynamicFormLintIssue[] = [];
+
+  if (options.some(option => !option.label.trim())) {
+    issues.push({ fieldId, message: `${subject} has an option with a blank label` });
+  }
+  if (options.some(option => !option.value.trim())) {
+    issues.push({ fieldId, message: `${subject} has an option with a blank stored value` });
+  }
+  for (const value of findDuplicateOptionValues(options)) {
+    if (value.trim()) {
+      issues.push({ fieldId, message: `${subject} has more than one option with the stored value "${value}"` });
+    }
+  }
+  for (const label of findDuplicates(options.map(option => normaliseLabel(option.label)).filter(Boolean))) {
+    issues.push({ fieldId, message: `${subject} has more than one option labelled "${label}"` });
+  }
+
+  return issues;
+}
+
+// Check the settings of a single field
+function lintField(field: DynamicFieldValues, fieldId: string): DynamicFormLintIssue[] {
+  const issues: DynamicFormLintIssue[] = [];
+  const name = field.label.trim() ? `Field "${field.label.trim()}"` : 'A field';
+
+  if (!field.label.trim()) {
+    issues.push({ fieldId, message: 'A field has a blank label' });
+  }
+
+  if (field.dependentOptions) {
+    const lists = Object.entries(field.dependentOptions.optionsByValue);
+
+    if (!dependentOptionFieldTypes.includes(field.type)) {
+      issues.push({ fieldId, message: `${name} cannot have options that depend on another field` });
+    }
+    if (getAllOptions(field).length === 0) {
+      issues.push({ fieldId, message: `${name} has no options for any answer to the field it depends on` });
+    }
+    for (const [parentValue, options] of lists) {
+      issues.push(...lintOptions(options, `${name} for the answer "${parentValue}"`, fieldId));
+    }
+  } else if (optionFieldTypes.includes(field.type)) {
+    const options = field.options || [];
+
+    // A checkbox without options is a single checkbox, every other option field needs choices
+    if (options.length === 0 && field.type !== 'checkbox') {
+      issues.push({ fieldId, message: `${name} has no options to choose from` });
+    }
+    issues.push(...lintOptions(options, name, fieldId));
+  }
+
+  const constraints = getApplicableConstraints(field) || {};
+
+  for (const [minKey, maxKey, noun] of constraintPairs) {
+    const min = constraints[minKey];
+    const max = constraints[maxKey];
+    if (min !== undefined && max !== undefined && min > max) {
+      issues.push({ fieldId, message: `${name} has a minimum ${noun} greater than its maximum` });
+    }
+  }
+
+  if (constraints.pattern && hasUnsafeRepetition(constraints.pattern)) {
+    issues.push({
+      fieldId,
+      message: `${name} has a pattern that repeats a group with repetition or alternatives, which can take too long to check an answer`,
+    });
+  } else if (constraints.pattern && !compilePattern(constraints.pattern)) {
+    issues.push({ fieldId, message: `${name} has a pattern that is not a valid regular expression` });
+  }
+
+  // Option fields cannot require more selections than they offer
+  const optionCount = (field.options || []).length;
+  if (optionCount > 0 && constraints.minSelected !== undefined && constraints.minSelected > optionCount) {
+    issues.push({ fieldId, message: `${name} requires more selections than it has options` });
+  }
+
+  // Hidden fields are never shown, so only a prefill parameter can answer them
+  if (field.type === 'hidden' && !field.prefillParam) {
+    issues.push({ fieldId, message: `${name} is hidden but has no query parameter to prefill it from` });
+  }
+
+  if (field.type === 'group') {
+    const children = field.fields || [];
+
+    if (children.length === 0) {
+      issues.push({ fieldId, message: `${name} is a repeatable group without any fields` });
+    }
+
+    issues.push(
+      ...lintFieldList(children, name, () => fieldId),
+      ...children.flatMap(child => lintField(child, fieldId)),
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a form definition for mistakes the schema allows but respondents
+ * would trip over, such as duplicate labels or option fields without options.
+ * The builder runs it before saving and the API refuses definitions that fail it.
+ * @param definition Form definition created with the form builder
+ * @returns Problems found, empty when the definition can be saved
+ */
+export function lintDynamicForm(definition: DynamicFormValues): DynamicFormLintIssue[] {
+  const issues: DynamicFormLintIssue[] = [];
+
+  if (!definition.formName.trim()) {
+    issues.push({ message: 'The form needs a name' });
+  }
+
+  if (definition.fields.length === 0) {
+    issues.push({ message: 'The form needs at least one field' });
+  }
+
+  for (const optionSet of definition.optionSets || []) {
+    if (optionSet.options.length === 0) {
+      issues.push({ message: `Option set "${optionSet.name}" has no options` });
+    }
+  }
+
+  // Fields using an option set are checked with the set's options
+  const { fields } = resolveOptionSets(definition);
+
+  issues.push(
+    ...lintFieldList(fields, 'The form', field => field.id),
+    ...fields.flatMap(field => lintField(field, field.id)),
+  );
+
+  if (definition.quiz && !fields.some(isQuizQuestion)) {
+    issues.push({ message: 'The quiz has no scored questions; give options points or mark the correct ones' });
+  }
+
+  return issues;
+}
@@ -0,0 +1,121 @@
+import type { DynamicFieldValues, DynamicFormValues } from '@/lib/schemas/form-schemas';
+
+export interface FieldOption {
+  label: string;
+  value: string;
+  // Quiz scoring, see quiz.ts
+  points?: number;
+  correct?: boolean;
+}
+
+/**
+ * Suggests a stored value for an option label, e.g. "Not sure?" becomes "not_sure"
+ */
+export function toOptionValue(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Gives options without a value one derived from their label, adding a
+ * numeric suffix when the derived value is already taken
+ * @param options Options as entered in the builder
+ * @returns Options that all have a value
+ */
+export function assignOptionValues(options: FieldOption[]): FieldOption[] {
+  const taken = new Set(options.map(option => option.value).filter(Boolean));
+
+  return options.map(option => {
+    if (option.value) return option;
+
+    const base = toOptionValue(option.label) || 'option';
+    let value = base;
+    for (let suffix = 2; taken.has(value); suffix++) {
+      value = `${base}_${suffix}`;
+    }
+
+    taken.add(value);
+    return { ...option, value };
+  });
+}
+
+/**
+ * Finds the values used by more than one option
+ */
+export function findDuplicateOptionValues(options: FieldOption[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  for (const { value } of options) {
+    if (seen.has(value)) duplicates.add(value);
+    seen.add(value);
+  }
+
+  return duplicates;
+}
+
+/**
+ * Replaces the options of fields that reference an option set with the
+ * set's options, including fields inside repeatable groups
+ * @param definition Form definition
+ * @returns Definition whose fields carry their own options
+ */
+export function resolveOptionSets<T extends Pick<DynamicFormValues, 'fields' | 'optionSets'>>(definition: T): T {
+  const optionSets = new Map((definition.optionSets || []).map(optionSet => [optionSet.id, optionSet.options]));
+  if (optionSets.size === 0) return definition;
+
+  const resolve = <F extends { optionSetId?: string; options?: FieldOption[] }>(field: F): F =>
+    field.optionSetId && optionSets.has(field.optionSetId)
+      ? { ...field, options: optionSets.get(field.optionSetId) }
+      : field;
+
+  return {
+    ...definition,
+    fields: definition.fields.map(field => ({
+      ...resolve(field),
+      fields: field.fields?.map(resolve),
+    })),
+  };
+}
+
+/**
+ * Gives a field whose options depend on another field's answer the options
+ * offered for that answer. No options are offered until the other field is answered.
+ * @param field Field definition
+ * @param answers Answers to the fields in the same list, keyed by field id
+ * @returns Field carrying the options to offer
+ */
+export function resolveDependentOptions<F extends Pick<DynamicFieldValues, 'dependentOptions' | 'options'>>(
+  field: F,
+  answers: Record<string, unknown>
+): F {
+  if (!field.dependentOptions) return field;
+
+  const { parentFieldId, optionsByValue } = field.dependentOptions;
+  const parentAnswer = answers[parentFieldId];
+  const options = typeof parentAnswer === 'string' && Object.prototype.hasOwnProperty.call(optionsByValue, parentAnswer)
+    ? optionsByValue[parentAnswer]
+    : [];
+
+  return { ...field, options };
+}
+
+/**
+ * Lists every option a field can offer, combining the lists of a field
+ * whose options depend on another field's answer
+ */
+export function getAllOptions(field: Pick<DynamicFieldValues, 'dependentOptions' | 'options'>): FieldOption[] {
+  if (!field.dependentOptions) return field.options || [];
+
+  const options = new Map<string, FieldOption>();
+  for (const list of Object.values(field.dependentOptions.optionsByValue)) {
+    for (const option of list) {
+      if (!options.has(option.value)) options.set(option.value, option);
+    }
+  }
+
+  return [...options.values()];
+}
@@ -0,0 +1,91 @@
+import {
+  dynamicResponseMetadataSchema,
+  type DynamicAnswerValues,
+  type DynamicFieldValues,
+  type DynamicFormValues,
+  type DynamicResponseMetadataValues,
+  type DynamicResponseValues
+} from '@/lib/schemas/form-schemas';
+import { compileFieldSchema } from './compile-schema';
+import { isMultiValueField } from './field-types';
+import { getAllOptions, resolveOptionSets } from './options';
+
+// Query parameters of a page, as Next.js passes them to pages
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+// Standard campaign parameters recorded with every response
+export const UTM_PARAMETERS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+// Every value of a query parameter, which can be repeated
+const getParamValues = (searchParams: SearchParams, name: string): string[] => {
+  const value = searchParams[name];
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// Read the values of a query parameter as the answer a field's input holds
+function toPrefillAnswer(field: DynamicFieldValues, values: string[]): DynamicAnswerValues {
+  if (isMultiValueField(field)) {
+    // Lists repeat the parameter or separate their values with commas
+    return values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+  }
+  if (field.type === 'checkbox') {
+    return ['true', '1', 'yes', 'on'].includes(values[0].trim().toLowerCase());
+  }
+  return values[0];
+}
+
+/**
+ * Reads the answers prefilled by the query parameters of a form's URL.
+ * Each value is checked with the field's compiled schema and left out when
+ * invalid, so respondents never start with an answer they cannot submit;
+ * prefilled answers are validated again with the rest of the response.
+ * @param definition Form definition with fields that name a prefill parameter
+ * @param searchParams Query parameters of the form's URL
+ * @returns Prefilled answers keyed by field id
+ */
+export function getPrefillValues(definition: DynamicFormValues, searchParams: SearchParams): DynamicResponseValues {
+  const { fields } = resolveOptionSets(definition);
+  const prefill: DynamicResponseValues = {};
+
+  for (const field of fields) {
+    if (!field.prefillParam || field.type === 'group' || field.type === 'calculated') continue;
+
+    const values = getParamValues(searchParams, field.prefillParam);
+    if (values.length === 0) continue;
+
+    // Dependent options follow another answer, so any of their options is accepted here
+    const schema = compileFieldSchema(
+      field.dependentOptions ? { ...field, options: getAllOptions(field), dependentOptions: undefined } : field
+    );
+    const answer = toPrefillAnswer(field, values);
+    if (schema.safeParse(answer).success) {
+      prefill[field.id] = answer;
+    }
+  }
+
+  return prefill;
+}
+
+/**
+ * Captures where a response came from: the UTM parameters of the form's URL
+ * and the page that linked to it. Values that are too long or malformed are left out.
+ * @param searchParams Query parameters of the form's URL
+ * @param referrer Referer header of the request for the form page
+ * @returns Metadata stored with the response
+ */
+export function getResponseMetadata(searchParams: SearchParams, referrer: string | null): DynamicResponseMetadataValues {
+  const metadata: DynamicResponseMetadataValues = {};
+  const candidates: [keyof DynamicResponseMetadataValues, string | undefined][] = [
+    ...UTM_PARAMETERS.map((name): [typeof name, string | undefined] => [name, getParamValues(searchParams, name)[0]]),
+    ['referrer', referrer || undefined],
+  ];
+
+  for (const [key, value] of candidates) {
+    if (value !== undefined && dynamicResponseMetadataSchema.shape[key].safeParse(value).success) {
+      metadata[key] = value;
+    }
+  }
+
+  return metadata;
+}
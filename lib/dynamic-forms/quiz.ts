@@ -0,0 +1,140 @@
+import type { DynamicFieldValues, DynamicFormValues, DynamicResponseValues } from '@/lib/schemas/form-schemas';
+import { optionFieldTypes } from './field-types';
+import { getAllOptions, resolveDependentOptions, resolveOptionSets, type FieldOption } from './options';
+import { getVisibleFieldIds } from './visibility';
+
+// Result of a single quiz question, shown to respondents when the quiz shares results
+export interface QuizQuestionResult {
+  fieldId: string;
+  label: string;
+  points: number;
+  maxPoints: number;
+  // Whether the answer earned full marks
+  correct: boolean;
+  // Labels of the answers that earn full marks
+  correctAnswers: string[];
+  explanation?: string;
+}
+
+export interface QuizResult {
+  score: number;
+  maxScore: number;
+  questions: QuizQuestionResult[];
+}
+
+// Whether options award points, rather than only marking the correct answers
+const hasPoints = (options: FieldOption[]) => options.some(option => option.points !== undefined);
+
+/**
+ * Whether a field is scored as a quiz question: a top-level option field
+ * with at least one option that awards points or is marked correct
+ */
+export function isQuizQuestion(field: DynamicFieldValues): boolean {
+  return optionFieldTypes.includes(field.type) &&
+    getAllOptions(field).some(option => option.points !== undefined || option.correct);
+}
+
+// Score one question against the options offered for the respondent's answers
+function scoreQuestion(field: DynamicFieldValues, answer: unknown): QuizQuestionResult {
+  const options = field.options || [];
+  const selected = new Set(
+    (Array.isArray(answer) ? answer : [answer]).filter((value): value is string => typeof value === 'string')
+  );
+  const isMultiple = field.type === 'multiselect' || field.type === 'checkbox';
+
+  let points: number;
+  let maxPoints: number;
+  let correctOptions: FieldOption[];
+
+  if (hasPoints(options)) {
+    // Points add up across selected options; a question never scores below zero
+    const optionPoints = (option: FieldOption) => option.points ?? 0;
+    const earned = options.filter(option => selected.has(option.value)).reduce((sum, option) => sum + optionPoints(option), 0);
+    points = Math.max(earned, 0);
+
+    if (isMultiple) {
+      correctOptions = options.filter(option => optionPoints(option) > 0);
+      maxPoints = correctOptions.reduce((sum, option) => sum + optionPoints(option), 0);
+    } else {
+      maxPoints = Math.max(0, ...options.map(optionPoints));
+      correctOptions = maxPoints > 0 ? options.filter(option => optionPoints(option) === maxPoints) : [];
+    }
+  } else {
+    // Questions with correct answers are worth one point, and multiple choice
+    // questions only earn it when exactly the correct options are selected
+    correctOptions = options.filter(option => option.correct);
+    maxPoints = correctOptions.length > 0 ? 1 : 0;
+
+    const isRight = isMultiple
+      ? selected.size === correctOptions.length && correctOptions.every(option => selected.has(option.value))
+      : correctOptions.some(option => selected.has(option.value));
+    points = isRight ? maxPoints : 0;
+  }
+
+  return {
+    fieldId: field.id,
+    label: field.label,
+    points,
+    maxPoints,
+    correct: maxPoints > 0 && points >= maxPoints,
+    correctAnswers: correctOptions.map(option => option.label),
+    explanation: field.explanation || undefined,
+  };
+}
+
+/**
+ * Scores a validated response to a quiz. Only visible top-level option fields
+ * with scored options count; answers to other fields are ignored.
+ * @param definition Form definition with quiz scoring
+ * @param answers Response validated with the compiled schema
+ * @returns Total score and the result of each question
+ */
+export function scoreQuiz(definition: DynamicFormValues, answers: DynamicResponseValues): QuizResult {
+  const { fields } = resolveOptionSets(definition);
+  const visibleIds = getVisibleFieldIds({ fields }, answers);
+
+  const questions = fields
+    .filter(field => visibleIds.has(field.id) && isQuizQuestion(field))
+    .map(field => scoreQuestion(resolveDependentOptions(field, answers), answers[field.id]));
+
+  return {
+    score: questions.reduce((sum, question) => sum + question.points, 0),
+    maxScore: questions.reduce((sum, question) => sum + question.maxPoints, 0),
+    questions,
+  };
+}
+
+// Drop the scoring of a list of options
+const withoutScoring = (options: FieldOption[]) => options.map(({ label, value }) => ({ label, value }));
+
+// Drop the scoring and explanation of a field
+function fieldWithoutAnswers<F extends DynamicFieldValues>(field: F): F {
+  return {
+    ...field,
+    options: field.options && withoutScoring(field.options),
+    dependentOptions: field.dependentOptions && {
+      ...field.dependentOptions,
+      optionsByValue: Object.fromEntries(
+        Object.entries(field.dependentOptions.optionsByValue).map(([answer, options]) => [answer, withoutScoring(options)])
+      ),
+    },
+    explanation: undefined,
+  };
+}
+
+/**
+ * Removes the correct answers, points and explanations from a definition,
+ * so it can be sent to respondents without giving the answers away
+ * @param definition Form definition with quiz scoring
+ * @returns Definition the public form page can render
+ */
+export function stripQuizAnswers(definition: DynamicFormValues): DynamicFormValues {
+  return {
+    ...definition,
+    fields: definition.fields.map(field => ({
+      ...fieldWithoutAnswers(field),
+      fields: field.fields?.map(fieldWithoutAnswers),
+    })),
+    optionSets: definition.optionSets?.map(optionSet => ({ ...optionSet, options: withoutScoring(optionSet.options) })),
+  };
+}
@@ -0,0 +1,47 @@
+import type {
+  DynamicFieldValues,
+  DynamicFormValues,
+  DynamicSectionValues
+} from '@/lib/schemas/form-schemas';
+
+export interface DynamicFormPage {
+  // Null for forms that are not split into sections
+  section: DynamicSectionValues | null;
+  fields: DynamicFieldValues[];
+}
+
+/**
+ * Resolves the section a field is shown in
+ * Fields without a section, or whose section was removed, belong to the first section.
+ * @returns The section id, or undefined when the form has no sections
+ */
+export function resolveFieldSectionId(
+  definition: Pick<DynamicFormValues, 'sections'>,
+  field: DynamicFieldValues
+): string | undefined {
+  const sections = definition.sections || [];
+  if (sections.length === 0) return undefined;
+
+  return sections.some(section => section.id === field.sectionId)
+    ? field.sectionId
+    : sections[0].id;
+}
+
+/**
+ * Splits a form into pages, one per section in section order
+ * Fields keep their order within each page. Forms without sections are a single page.
+ * @param definition Form definition
+ * @returns Pages with their fields
+ */
+export function getFormPages(definition: DynamicFormValues): DynamicFormPage[] {
+  const sections = definition.sections || [];
+
+  if (sections.length === 0) {
+    return [{ section: null, fields: definition.fields }];
+  }
+
+  return sections.map(section => ({
+    section,
+    fields: definition.fields.filter(field => resolveFieldSectionId(definition, field) === section.id),
+  }));
+}
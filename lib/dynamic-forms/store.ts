@@ -0,0 +1,61 @@
+import { findDynamicForm, findPublishedDynamicForm } from '@/lib/repositories/dynamic-forms';
+import { dynamicFormSchema, type DynamicFormValues } from '@/lib/schemas/form-schemas';
+
+export interface PublishedDynamicForm {
+  formId: number;
+  version: number;
+  definition: DynamicFormValues;
+}
+
+/**
+ * Parses a form id from a route parameter
+ * @returns The numeric id, or null when the parameter is not a valid id
+ */
+export function parseFormId(id: string): number | null {
+  const formId = Number(id);
+  return Number.isInteger(formId) && formId > 0 ? formId : null;
+}
+
+/**
+ * Loads the currently published version of a dynamic form
+ * @param formId Form id
+ * @returns The published definition, or null when the form does not exist or is unpublished
+ */
+export async function getPublishedForm(formId: number): Promise<PublishedDynamicForm | null> {
+  const published = await findPublishedDynamicForm(formId);
+  const definition = dynamicFormSchema.safeParse(published?.definition);
+
+  if (!published || !definition.success) return null;
+
+  return {
+    formId,
+    version: published.version,
+    definition: definition.data,
+  };
+}
+
+export interface DynamicFormDraft {
+  id: number;
+  definition: DynamicFormValues;
+  publishedVersion: number | null;
+  hasUnpublishedChanges: boolean;
+}
+
+/**
+ * Loads the editable draft of a dynamic form
+ * @param formId Form id
+ * @returns The draft with its publishing state, or null when the form does not exist
+ */
+export async function getDraftForm(formId: number): Promise<DynamicFormDraft | null> {
+  const form = await findDynamicForm(formId);
+  const definition = dynamicFormSchema.safeParse(form?.definition);
+
+  if (!form || !definition.success) return null;
+
+  return {
+    id: form.id,
+    definition: definition.data,
+    publishedVersion: form.publishedVersion,
+    hasUnpublishedChanges: form.hasUnpublishedChanges,
+  };
+}
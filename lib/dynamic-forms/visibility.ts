@@ -0,0 +1,116 @@
+import type {
+  DynamicFieldValues,
+  DynamicFormValues,
+  VisibilityCondition
+} from '@/lib/schemas/form-schemas';
+
+// Human readable operator names for the builder and announcements
+export const visibilityOperatorLabels: Record<VisibilityCondition['operator'], string> = {
+  equals: 'equals',
+  notEquals: 'does not equal',
+  contains: 'contains',
+  greaterThan: 'is greater than',
+};
+
+// Normalise an answer to a string for comparison
+function answerToString(answer: unknown): string {
+  if (answer === undefined || answer === null) return '';
+  return String(answer);
+}
+
+/**
+ * Evaluates a single visibility condition against the current answers
+ * @param condition Condition referencing another field
+ * @param values Answers keyed by field id
+ * @returns Whether the condition holds
+ */
+export function evaluateCondition(
+  condition: VisibilityCondition,
+  values: Record<string, unknown>
+): boolean {
+  const answer = values[condition.fieldId];
+
+  // Checkbox groups match when any checked option matches, and compare their count
+  if (Array.isArray(answer)) {
+    if (condition.operator === 'greaterThan') {
+      return answer.length > Number(condition.value);
+    }
+
+    const matches = condition.operator === 'contains'
+      ? answer.some(item => answerToString(item).toLowerCase().includes(condition.value.toLowerCase()))
+      : answer.some(item => answerToString(item) === condition.value);
+
+    return condition.operator === 'notEquals' ? !matches : matches;
+  }
+
+  switch (condition.operator) {
+    case 'equals':
+      return answerToString(answer) === condition.value;
+
+    case 'notEquals':
+      return answerToString(answer) !== condition.value;
+
+    case 'contains':
+      return answerToString(answer)
+        .toLowerCase()
+        .includes(condition.value.toLowerCase());
+
+    case 'greaterThan': {
+      if (answer === undefined || answer === null || answer === '') return false;
+      const actual = Number(answer);
+      const expected = Number(condition.value);
+      return Number.isFinite(actual) && Number.isFinite(expected) && actual > expected;
+    }
+  }
+}
+
+/**
+ * Checks whether a field should be shown for the given answers
+ * Fields without a rule, or with an empty rule, are always visible.
+ */
+export function isFieldVisible(
+  field: DynamicFieldValues,
+  values: Record<string, unknown>
+): boolean {
+  const rule = field.visibleWhen;
+  if (!rule || rule.conditions.length === 0) return true;
+
+  return rule.combinator === 'or'
+    ? rule.conditions.some(condition => evaluateCondition(condition, values))
+    : rule.conditions.every(condition => evaluateCondition(condition, values));
+}
+
+/**
+ * Resolves which fields of a form are visible for the given answers.
+ * Answers to hidden fields are ignored, so a field that depends on a hidden
+ * field is evaluated as if that field had been left blank.
+ * @param definition Form definition, or a repeatable group's fields
+ * @param values Answers keyed by field id
+ * @returns Ids of the visible fields
+ */
+export function getVisibleFieldIds(
+  definition: Pick<DynamicFormValues, 'fields'>,
+  values: Record<string, unknown>
+): Set<string> {
+  let visibleIds = new Set(definition.fields.map(field => field.id));
+
+  // Repeat until stable, as hiding one field can hide the fields depending on it
+  for (let pass = 0; pass <= definition.fields.length; pass++) {
+    const effectiveValues = Object.fromEntries(
+      Object.entries(values).filter(([id]) => visibleIds.has(id))
+    );
+    const nextIds = new Set(
+      definition.fields
+        .filter(field => isFieldVisible(field, effectiveValues))
+        .map(field => field.id)
+    );
+
+    if (nextIds.size === visibleIds.size && [...nextIds].every(id => visibleIds.has(id))) {
+      return nextIds;
+    }
+
+    visibleIds = nextIds;
+  }
+
+  return visibleIds;
+}
@@ -0,0 +1,107 @@
+import { writeXlsx } from './xlsx';
+
+// Formats an export can be downloaded in
+export const exportFormats = {
+  csv: { label: 'CSV', contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { label: 'NDJSON', contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  xlsx: {
+    label: 'Excel',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx'
+  },
+} as const;
+
+export type ExportFormat = keyof typeof exportFormats;
+
+// A cell of an export; null leaves the cell empty
+export type ExportValue = string | number | boolean | Date | null;
+
+// A column of an export, reading its value from each exported row
+export interface ExportColumn<T> {
+  // Name of the value in NDJSON and in the fields query parameter
+  key: string;
+  // Header of the column in CSV and XLSX
+  label: string;
+  value: (row: T) => ExportValue;
+}
+
+// Text starting with these characters is run as a formula when a CSV file is opened in a spreadsheet
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: ExportValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'string') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV with a header row, starting with a byte order mark so spreadsheets read it as UTF-8
+async function* writeCsv(headers: string[], rows: AsyncIterable<ExportValue[]>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const toLine = (values: ExportValue[]) => `${values.map(toCsvCell).join(',')}\r\n`;
+
+  yield encoder.encode(`\uFEFF${toLine(headers)}`);
+  for await (const values of rows) {
+    yield encoder.encode(toLine(values));
+  }
+}
+
+// One JSON object per line, keyed by column key
+async function* writeNdjson(keys: string[], rows: AsyncIterable<ExportValue[]>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  for await (const values of rows) {
+    const record = Object.fromEntries(keys.map((key, index) => [key, values[index]]));
+    yield encoder.encode(`${JSON.stringify(record)}\n`);
+  }
+}
+
+/**
+ * Writes rows in an export format as they are read. The stream pulls the next
+ * rows only when the client has taken the previous ones, so exports of any
+ * size use little memory, and reading stops when the download is cancelled.
+ * @param format Format to write
+ * @param columns Columns to write, in order
+ * @param rows Rows to export
+ * @param title Title of the export, used as the XLSX worksheet name
+ */
+export function createExportStream<T>(
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  rows: AsyncIterable<T>,
+  title: string
+): ReadableStream<Uint8Array> {
+  async function* values() {
+    for await (const row of rows) {
+      yield columns.map(column => column.value(row));
+    }
+  }
+
+  const chunks = format === 'xlsx'
+    ? writeXlsx(columns.map(column => column.label), values(), title)
+    : format === 'csv'
+      ? writeCsv(columns.map(column => column.label), values())
+      : writeNdjson(columns.map(column => column.key), values());
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        // Headers are already sent, so the download is cut short
+        console.error('Error writing export:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
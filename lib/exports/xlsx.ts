@@ -0,0 +1,151 @@
+import type { ExportValue } from './formats';
+import { writeZip } from './zip';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const CONTENT_TYPES = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const PACKAGE_RELATIONSHIPS = `${XML_DECLARATION}<Relationships xmlns="${RELATIONSHIPS_NS}">`
+  + `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIPS}/officeDocument" Target="xl/workbook.xml"/>`
+  + '</Relationships>';
+
+const WORKBOOK_RELATIONSHIPS = `${XML_DECLARATION}<Relationships xmlns="${RELATIONSHIPS_NS}">`
+  + `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIPS}/worksheet" Target="worksheets/sheet1.xml"/>`
+  + `<Relationship Id="rId2" Type="${DOCUMENT_RELATIONSHIPS}/styles" Target="styles.xml"/>`
+  + '</Relationships>';
+
+// Cell styles: 0 is the default, 1 the bold header and 2 a date and time
+const HEADER_STYLE = 1;
+const DATE_STYLE = 2;
+
+const STYLES = `${XML_DECLARATION}<styleSheet xmlns="${SPREADSHEET_NS}">`
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="3">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '</cellXfs>'
+  + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+  + '</styleSheet>';
+
+// Spreadsheet applications refuse cells holding more characters than this
+const MAX_CELL_LENGTH = 32767;
+
+// Characters XML 1.0 cannot hold
+const INVALID_XML_CHARS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+// Days between the spreadsheet epoch, 30 December 1899, and the Unix epoch
+const UNIX_EPOCH_SERIAL = 25569;
+
+const escapeXml = (text: string) => text
+  .replace(INVALID_XML_CHARS, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Makes a valid worksheet name: at most 31 characters, without the characters
+ * spreadsheet applications reserve
+ */
+function toSheetName(name: string): string {
+  const sheetName = name
+    .replace(/[[\]:*?/\\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^'+|'+$/g, '')
+    .trim()
+    .slice(0, 31)
+    .trim();
+  return sheetName || 'Sheet1';
+}
+
+// Column letters of a cell reference, e.g. 0 is "A" and 27 is "AB"
+function toColumnName(index: number): string {
+  let name = '';
+  for (let column = index + 1; column > 0; column = Math.floor((column - 1) / 26)) {
+    name = String.fromCharCode(65 + ((column - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function toCell(reference: string, value: ExportValue, style?: number): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  if (value === null) return '';
+  if (value instanceof Date) {
+    // Dates are stored as days since the spreadsheet epoch, in UTC
+    return `<c r="${reference}" s="${DATE_STYLE}"><v>${value.getTime() / 86400000 + UNIX_EPOCH_SERIAL}</v></c>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}" t="b"${styleAttribute}><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  // Inline strings are never evaluated as formulas
+  const text = escapeXml(String(value).slice(0, MAX_CELL_LENGTH));
+  return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function toRow(rowNumber: number, values: ExportValue[], style?: number): string {
+  const cells = values.map((value, index) => toCell(`${toColumnName(index)}${rowNumber}`, value, style)).join('');
+  return `<row r="${rowNumber}">${cells}</row>`;
+}
+
+// The worksheet, written one row at a time below a frozen header row
+async function* writeWorksheet(headers: string[], rows: AsyncIterable<ExportValue[]>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  yield encoder.encode(
+    `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}">`
+    + '<sheetViews><sheetView workbookViewId="0">'
+    + '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+    + '</sheetView></sheetViews>'
+    + `<sheetData>${toRow(1, headers, HEADER_STYLE)}`
+  );
+
+  let rowNumber = 1;
+  for await (const values of rows) {
+    rowNumber += 1;
+    yield encoder.encode(toRow(rowNumber, values));
+  }
+
+  yield encoder.encode('</sheetData></worksheet>');
+}
+
+/**
+ * Writes an XLSX workbook with a single worksheet while its rows are read.
+ * Numbers, booleans and dates are written as typed cells, so they can be
+ * sorted and summed; everything else is text.
+ * @param headers Column headers, written in bold as the first row
+ * @param rows Values of each row, in the order of the headers
+ * @param sheetName Name of the worksheet
+ */
+export function writeXlsx(headers: string[], rows: AsyncIterable<ExportValue[]>, sheetName: string): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const workbook = `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${DOCUMENT_RELATIONSHIPS}">`
+    + `<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>`
+    + '</workbook>';
+
+  return writeZip([
+    { name: '[Content_Types].xml', data: [encoder.encode(CONTENT_TYPES)] },
+    { name: '_rels/.rels', data: [encoder.encode(PACKAGE_RELATIONSHIPS)] },
+    { name: 'xl/workbook.xml', data: [encoder.encode(workbook)] },
+    { name: 'xl/_rels/workbook.xml.rels', data: [encoder.encode(WORKBOOK_RELATIONSHIPS)] },
+    { name: 'xl/styles.xml', data: [encoder.encode(STYLES)] },
+    { name: 'xl/worksheets/sheet1.xml', data: writeWorksheet(headers, rows) },
+  ]);
+}
@@ -0,0 +1,121 @@
+// A file of a zip archive, whose contents are read while the archive is written
+export interface ZipEntry {
+  name: string;
+  data: Iterable<Uint8Array> | AsyncIterable<Uint8Array>;
+}
+
+// Sizes and offsets are 32-bit, as ZIP64 is not supported
+const MAX_ARCHIVE_SIZE = 0xffffffff;
+
+// Sizes and checksum follow the data (bit 3), and names are UTF-8 (bit 11)
+const ENTRY_FLAGS = 0x0808;
+
+const ZIP_VERSION = 20;
+
+// Lookup table of the CRC-32 used by zip, one entry per byte value
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+// Continue a CRC-32 checksum over the next chunk of an entry
+function crc32(chunk: Uint8Array, checksum: number): number {
+  let crc = ~checksum;
+  for (const byte of chunk) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+// Date and time in the MS-DOS format of zip headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Writes a zip archive while its entries are read, so that no entry has to be
+ * held in memory. Entries are stored uncompressed, with their size and checksum
+ * in a data descriptor after the data and in the central directory at the end.
+ * @param entries Files of the archive, in order
+ * @param modifiedAt Modification time recorded for every entry
+ * @throws When the archive grows beyond the 4 GB a zip without ZIP64 can hold
+ */
+export async function* writeZip(entries: ZipEntry[], modifiedAt = new Date()): AsyncGenerator<Uint8Array> {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const headerOffset = offset;
+
+    // Local file header; checksum and sizes are left zero until the data descriptor
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ENTRY_FLAGS, 6);
+    header.writeUInt16LE(0, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt16LE(name.length, 26);
+    yield header;
+    yield name;
+    offset += header.length + name.length;
+
+    let checksum = 0;
+    let size = 0;
+    for await (const chunk of entry.data) {
+      size += chunk.length;
+      if (offset + size > MAX_ARCHIVE_SIZE) {
+        throw new Error('The archive is larger than a zip file can hold');
+      }
+      checksum = crc32(chunk, checksum);
+      yield chunk;
+    }
+    offset += size;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(checksum, 4);
+    descriptor.writeUInt32LE(size, 8);
+    descriptor.writeUInt32LE(size, 12);
+    yield descriptor;
+    offset += descriptor.length;
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(ZIP_VERSION, 4);
+    record.writeUInt16LE(ZIP_VERSION, 6);
+    record.writeUInt16LE(ENTRY_FLAGS, 8);
+    record.writeUInt16LE(0, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(checksum, 16);
+    record.writeUInt32LE(size, 20);
+    record.writeUInt32LE(size, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(headerOffset, 42);
+    centralDirectory.push(record, name);
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  if (offset + directory.length > MAX_ARCHIVE_SIZE) {
+    throw new Error('The archive is larger than a zip file can hold');
+  }
+
+  // End of central directory record
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield directory;
+  yield end;
+}
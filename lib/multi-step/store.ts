@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { findMultiStepSession } from '@/lib/repositories/multistep-submissions';
+import {
+  multiStepStepSchemas,
+  type MultiStepFormValues,
+  type MultiStepStepName
+} from '@/lib/schemas/form-schemas';
+
+export interface MultiStepSession {
+  id: string;
+  // Validated data of each saved step
+  steps: Partial<MultiStepFormValues>;
+  completedSteps: MultiStepStepName[];
+  createdAt: Date;
+  updatedAt: Date;
+  // Set once the session has been finalized into a submission
+  completedAt: Date | null;
+}
+
+// Step names in the order the wizard shows them
+export const multiStepStepNames = Object.keys(multiStepStepSchemas) as MultiStepStepName[];
+
+/**
+ * Parses a session id from a route parameter
+ * @returns The id, or null when the parameter is not a valid session id
+ */
+export function parseSessionId(id: string): string | null {
+  return z.string().uuid().safeParse(id).success ? id : null;
+}
+
+/**
+ * Loads a multi-step session with the data of its saved steps.
+ * Stored steps that no longer match their schema are treated as not saved.
+ * @param sessionId Session id
+ * @returns The session, or null when it does not exist
+ */
+export async function getMultiStepSession(sessionId: string): Promise<MultiStepSession | null> {
+  const stored = await findMultiStepSession(sessionId);
+
+  if (!stored) return null;
+
+  const completedSteps: MultiStepStepName[] = [];
+  let steps: Partial<MultiStepFormValues> = {};
+
+  for (const step of multiStepStepNames) {
+    const data = multiStepStepSchemas[step].safeParse(stored.steps[step]);
+    if (data.success) {
+      completedSteps.push(step);
+      steps = { ...steps, ...data.data };
+    }
+  }
+
+  return {
+    id: stored.id,
+    steps,
+    completedSteps,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    completedAt: stored.completedAt,
+  };
+}
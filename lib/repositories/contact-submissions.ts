@@ -0,0 +1,145 @@
+import { query } from '@/lib/db';
+import type { ContactFormValues } from '@/lib/schemas/form-schemas';
+import {
+  andWhere,
+  buildFilterClause,
+  buildOrderBy,
+  buildSetClause,
+  readInBatches,
+  type ListOptions,
+  type SubmissionFilters
+} from './sql';
+
+export interface ContactSubmission extends ContactFormValues {
+  id: number;
+  createdAt: Date;
+}
+
+// Columns a list can be sorted by
+export type ContactSubmissionSortColumn = 'createdAt' | 'name' | 'email' | 'subject';
+
+// A row of contact_submissions as the database returns it
+interface ContactSubmissionRow {
+  id: number;
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+  created_at: Date;
+}
+
+// Columns returned by every query
+const SELECT_COLUMNS = 'id, name, email, subject, message, created_at';
+
+// Column of each editable value
+const editableColumns: Record<keyof ContactFormValues, string> = {
+  name: 'name',
+  email: 'email',
+  subject: 'subject',
+  message: 'message',
+};
+
+// Column of each sortable value
+const sortColumns: Record<ContactSubmissionSortColumn, string> = {
+  createdAt: 'created_at',
+  name: 'name',
+  email: 'email',
+  subject: 'subject',
+};
+
+const toContactSubmission = (row: ContactSubmissionRow): ContactSubmission => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  subject: row.subject,
+  message: row.message,
+  createdAt: row.created_at,
+});
+
+/**
+ * Saves a contact form submission
+ * @param values Validated contact form values
+ * @returns The saved submission
+ */
+export async function insertContactSubmission(values: ContactFormValues): Promise<ContactSubmission> {
+  const result = await query(
+    `INSERT INTO contact_submissions (name, email, subject, message) VALUES ($1, $2, $3, $4) RETURNING ${SELECT_COLUMNS}`,
+    [values.name, values.email, values.subject, values.message]
+  );
+  return toContactSubmission(result.rows[0]);
+}
+
+/**
+ * Loads a contact form submission
+ * @returns The submission, or null when it does not exist
+ */
+export async function findContactSubmission(id: number): Promise<ContactSubmission | null> {
+  const result = await query(`SELECT ${SELECT_COLUMNS} FROM contact_submissions WHERE id = $1`, [id]);
+  return result.rows[0] ? toContactSubmission(result.rows[0]) : null;
+}
+
+/**
+ * Loads one page of contact form submissions, newest first unless sorted otherwise
+ */
+export async function listContactSubmissions({
+  limit,
+  offset,
+  filters,
+  sort
+}: ListOptions<ContactSubmissionSortColumn>): Promise<ContactSubmission[]> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' }, 3);
+  const result = await query(
+    `SELECT ${SELECT_COLUMNS} FROM contact_submissions ${where.clause} ${buildOrderBy(sort, sortColumns)} LIMIT $1 OFFSET $2`,
+    [limit, offset, ...where.params]
+  );
+  return result.rows.map(toContactSubmission);
+}
+
+// Count the contact form submissions that match the filters
+export async function countContactSubmissions(filters?: SubmissionFilters): Promise<number> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' });
+  const result = await query(`SELECT COUNT(*)::int AS total FROM contact_submissions ${where.clause}`, where.params);
+  return result.rows[0].total;
+}
+
+/**
+ * Reads every contact form submission that matches the filters, oldest first, one batch at a time
+ */
+export function streamContactSubmissions(filters?: SubmissionFilters): AsyncGenerator<ContactSubmission> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' }, 3);
+
+  return readInBatches(async (afterId, limit) => {
+    const result = await query(
+      `SELECT ${SELECT_COLUMNS} FROM contact_submissions ${andWhere(where.clause, 'id > $1')} ORDER BY id LIMIT $2`,
+      [afterId, limit, ...where.params]
+    );
+    return result.rows.map(toContactSubmission);
+  });
+}
+
+/**
+ * Changes the given values of a contact form submission
+ * @returns The updated submission, or null when it does not exist
+ */
+export async function updateContactSubmission(
+  id: number,
+  values: Partial<ContactFormValues>
+): Promise<ContactSubmission | null> {
+  const set = buildSetClause(editableColumns, values, 2);
+  if (!set) return findContactSubmission(id);
+
+  const result = await query(
+    `UPDATE contact_submissions SET ${set.clause} WHERE id = $1 RETURNING ${SELECT_COLUMNS}`,
+    [id, ...set.params]
+  );
+  return result.rows[0] ? toContactSubmission(result.rows[0]) : null;
+}
+
+/**
+ * Deletes a contact form submission
+ * @returns Whether the submission existed
+ */
+export async function deleteContactSubmission(id: number): Promise<boolean> {
+  const result = await query('DELETE FROM contact_submissions WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,259 @@
+import { isUniqueViolation, query } from '@/lib/db';
+import type { DynamicFormValues } from '@/lib/schemas/form-schemas';
+import type { ListOptions } from './sql';
+
+// A dynamic form as stored; the definition is validated when it is read
+export interface DynamicFormRecord {
+  id: number;
+  // Editable draft of the form
+  definition: DynamicFormValues;
+  publishedVersion: number | null;
+  // Whether the draft differs from the published version
+  hasUnpublishedChanges: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A dynamic form as listed, without its definition
+export interface DynamicFormSummary {
+  id: number;
+  formName: string;
+  fieldCount: number;
+  publishedVersion: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An immutable published version of a dynamic form
+export interface DynamicFormVersionRecord {
+  formId: number;
+  version: number;
+  definition: DynamicFormValues;
+}
+
+export interface DynamicFormVersionSummary {
+  version: number;
+  publishedAt: Date;
+  responseCount: number;
+}
+
+// A row of dynamic_submissions, with the draft compared to the published version
+interface DynamicFormRow {
+  id: number;
+  form_data: DynamicFormValues;
+  published_version: number | null;
+  has_unpublished_changes: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const toDynamicFormRecord = (row: DynamicFormRow): DynamicFormRecord => ({
+  id: row.id,
+  definition: row.form_data,
+  publishedVersion: row.published_version,
+  hasUnpublishedChanges: row.has_unpublished_changes,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Saves a new, unpublished dynamic form
+ * @param definition Validated form definition, saved as the draft
+ * @returns The new form's id
+ */
+export async function insertDynamicForm(definition: DynamicFormValues): Promise<number> {
+  const result = await query(
+    'INSERT INTO dynamic_submissions (form_data) VALUES ($1) RETURNING id',
+    [JSON.stringify(definition)]
+  );
+  return result.rows[0].id;
+}
+
+/**
+ * Loads a dynamic form with its draft and publishing state
+ * @returns The form, or null when it does not exist
+ */
+export async function findDynamicForm(id: number): Promise<DynamicFormRecord | null> {
+  const result = await query(
+    `SELECT f.id, f.form_data, f.published_version, f.created_at, f.updated_at,
+            v.form_data IS DISTINCT FROM f.form_data AS has_unpublished_changes
+       FROM dynamic_submissions f
+       LEFT JOIN dynamic_form_versions v ON v.form_id = f.id AND v.version = f.published_version
+      WHERE f.id = $1`,
+    [id]
+  );
+  return result.rows[0] ? toDynamicFormRecord(result.rows[0]) : null;
+}
+
+/**
+ * Loads the currently published version of a dynamic form
+ * @returns The version, or null when the form does not exist or is unpublished
+ */
+export async function findPublishedDynamicForm(id: number): Promise<DynamicFormVersionRecord | null> {
+  const result = await query(
+    `SELECT v.form_id, v.version, v.form_data
+       FROM dynamic_submissions f
+       JOIN dynamic_form_versions v ON v.form_id = f.id AND v.version = f.published_version
+      WHERE f.id = $1`,
+    [id]
+  );
+  const row = result.rows[0];
+
+  return row ? { formId: row.form_id, version: row.version, definition: row.form_data } : null;
+}
+
+/**
+ * Loads a published version of a dynamic form
+ * @returns The version, or null when the form or version does not exist
+ */
+export async function findDynamicFormVersion(id: number, version: number): Promise<DynamicFormVersionRecord | null> {
+  const result = await query(
+    'SELECT form_id, version, form_data FROM dynamic_form_versions WHERE form_id = $1 AND version = $2',
+    [id, version]
+  );
+  const row = result.rows[0];
+
+  return row ? { formId: row.form_id, version: row.version, definition: row.form_data } : null;
+}
+
+/**
+ * Loads one page of dynamic forms, most recently updated first
+ */
+export async function listDynamicForms({ limit, offset }: ListOptions): Promise<DynamicFormSummary[]> {
+  const result = await query(
+    `SELECT id, form_data->>'formName' AS form_name,
+            jsonb_array_length(form_data->'fields') AS field_count,
+            published_version, created_at, updated_at
+       FROM dynamic_submissions
+      ORDER BY updated_at DESC, id DESC
+      LIMIT $1 OFFSET $2`,
+    [limit, offset]
+  );
+  return result.rows.map(row => ({
+    id: row.id,
+    formName: row.form_name,
+    fieldCount: row.field_count,
+    publishedVersion: row.published_version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }));
+}
+
+// Count every dynamic form
+export async function countDynamicForms(): Promise<number> {
+  const result = await query('SELECT COUNT(*)::int AS total FROM dynamic_submissions');
+  return result.rows[0].total;
+}
+
+/**
+ * Replaces the draft of a dynamic form. Published versions are never modified.
+ * @returns Whether the form exists
+ */
+export async function updateDynamicFormDraft(id: number, definition: DynamicFormValues): Promise<boolean> {
+  const result = await query(
+    'UPDATE dynamic_submissions SET form_data = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+    [JSON.stringify(definition), id]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Deletes a dynamic form along with its versions and responses
+ * @returns Whether the form existed
+ */
+export async function deleteDynamicForm(id: number): Promise<boolean> {
+  const result = await query('DELETE FROM dynamic_submissions WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Times a publish is retried when another publish of the same form takes its version number
+const PUBLISH_ATTEMPTS = 3;
+
+/**
+ * Snapshots a draft of a dynamic form as its next version and makes that
+ * version live. Concurrent publishes can compute the same next version; the
+ * unique (form_id, version) constraint rejects all but one, and the others
+ * try again with the following number.
+ * @param definition Draft to publish, as loaded and checked by the caller, so
+ *   a draft saved in the meantime is not published unchecked
+ * @returns The new version number, or null when the form does not exist
+ */
+export async function publishDynamicForm(id: number, definition: DynamicFormValues): Promise<number | null> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await query(
+        `WITH next_version AS (
+           SELECT COALESCE(MAX(version), 0) + 1 AS version
+             FROM dynamic_form_versions
+            WHERE form_id = $1
+         ), inserted AS (
+           INSERT INTO dynamic_form_versions (form_id, version, form_data)
+           SELECT f.id, next_version.version, $2::jsonb
+             FROM dynamic_submissions f, next_version
+            WHERE f.id = $1
+           RETURNING version
+         )
+         UPDATE dynamic_submissions
+            SET published_version = inserted.version
+           FROM inserted
+          WHERE dynamic_submissions.id = $1
+         RETURNING inserted.version`,
+        [id, JSON.stringify(definition)]
+      );
+      return result.rows[0]?.version ?? null;
+    } catch (error) {
+      if (!isUniqueViolation(error) || attempt >= PUBLISH_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Makes a previously published version live again and restores its
+ * definition as the draft
+ * @returns The version, or null when the form or version does not exist
+ */
+export async function rollbackDynamicForm(id: number, version: number): Promise<number | null> {
+  const result = await query(
+    `UPDATE dynamic_submissions f
+        SET published_version = v.version,
+            form_data = v.form_data,
+            updated_at = CURRENT_TIMESTAMP
+       FROM dynamic_form_versions v
+      WHERE f.id = $1 AND v.form_id = f.id AND v.version = $2
+     RETURNING v.version`,
+    [id, version]
+  );
+  return result.rows[0]?.version ?? null;
+}
+
+/**
+ * Loads every published version of a dynamic form, newest first, with the
+ * number of responses collected against it
+ */
+export async function listDynamicFormVersions(id: number): Promise<DynamicFormVersionSummary[]> {
+  const result = await query(
+    `SELECT v.version, v.published_at, COUNT(r.id)::int AS response_count
+       FROM dynamic_form_versions v
+       LEFT JOIN dynamic_responses r ON r.form_id = v.form_id AND r.version = v.version
+      WHERE v.form_id = $1
+      GROUP BY v.version, v.published_at
+      ORDER BY v.version DESC`,
+    [id]
+  );
+  return result.rows.map(row => ({
+    version: row.version,
+    publishedAt: row.published_at,
+    responseCount: row.response_count,
+  }));
+}
+
+/**
+ * Loads the definition of every published version of a dynamic form, newest first
+ */
+export async function listDynamicFormVersionDefinitions(id: number): Promise<DynamicFormVersionRecord[]> {
+  const result = await query(
+    'SELECT form_id, version, form_data FROM dynamic_form_versions WHERE form_id = $1 ORDER BY version DESC',
+    [id]
+  );
+  return result.rows.map(row => ({ formId: row.form_id, version: row.version, definition: row.form_data }));
+}
@@ -0,0 +1,186 @@
+import { query } from '@/lib/db';
+import type { DynamicResponseMetadataValues, DynamicResponseValues } from '@/lib/schemas/form-schemas';
+import {
+  andWhere,
+  buildFilterClause,
+  buildOrderBy,
+  readInBatches,
+  type ListOptions,
+  type SubmissionFilters
+} from './sql';
+
+// A response to a published dynamic form, recorded against the version it answered
+export interface NewDynamicResponse {
+  formId: number;
+  version: number;
+  answers: DynamicResponseValues;
+  metadata: DynamicResponseMetadataValues;
+  // Set for quizzes, which are scored on submission
+  score: number | null;
+  maxScore: number | null;
+}
+
+export interface DynamicResponse extends NewDynamicResponse {
+  id: number;
+  // Name of the form in the version the response answered
+  formName: string;
+  createdAt: Date;
+}
+
+// Columns a list can be sorted by
+export type DynamicResponseSortColumn = 'createdAt' | 'formName' | 'score';
+
+// Responses to one form, or to every form when no form is given
+export interface DynamicResponseListOptions extends ListOptions<DynamicResponseSortColumn> {
+  formId?: number;
+}
+
+// A row of dynamic_responses as the database returns it
+interface DynamicResponseRow {
+  id: number;
+  form_id: number;
+  version: number;
+  form_name: string;
+  response_data: DynamicResponseValues;
+  metadata: DynamicResponseMetadataValues | null;
+  // NUMERIC columns are returned as strings
+  score: string | null;
+  max_score: string | null;
+  created_at: Date;
+}
+
+// Columns returned by every query, from responses r joined to the versions v they answered
+const SELECT_COLUMNS = `r.id, r.form_id, r.version, v.form_data->>'formName' AS form_name,
+  r.response_data, r.metadata, r.score, r.max_score, r.created_at`;
+
+const FROM_RESPONSES = `dynamic_responses r
+  JOIN dynamic_form_versions v ON v.form_id = r.form_id AND v.version = r.version`;
+
+// Column of each sortable value
+const sortColumns: Record<DynamicResponseSortColumn, string> = {
+  createdAt: 'r.created_at',
+  formName: "v.form_data->>'formName'",
+  score: 'r.score',
+};
+
+// Responses have no email column, so the email filter matches any text answer,
+// including those inside group entries, but never the field ids they are keyed by
+const filterColumns = {
+  email: (pattern: string) => `EXISTS (
+    SELECT 1 FROM jsonb_path_query(r.response_data, '$.**') AS answer
+     WHERE jsonb_typeof(answer) = 'string' AND answer #>> '{}' ILIKE ${pattern}
+  )`,
+  createdAt: 'r.created_at',
+};
+
+const toDynamicResponse = (row: DynamicResponseRow): DynamicResponse => ({
+  id: row.id,
+  formId: row.form_id,
+  version: row.version,
+  formName: row.form_name,
+  answers: row.response_data,
+  metadata: row.metadata ?? {},
+  score: row.score === null ? null : Number(row.score),
+  maxScore: row.max_score === null ? null : Number(row.max_score),
+  createdAt: row.created_at,
+});
+
+// The submission filters, narrowed to one form when a form is given
+function responseFilter(formId: number | undefined, filters: SubmissionFilters | undefined, firstParam = 1) {
+  const where = buildFilterClause(filters, filterColumns, firstParam);
+  if (formId === undefined) return where;
+
+  return {
+    clause: andWhere(where.clause, `r.form_id = $${firstParam + where.params.length}`),
+    params: [...where.params, formId],
+  };
+}
+
+/**
+ * Saves a response to a dynamic form. Responses are never changed afterwards,
+ * so they always match the version they were validated against.
+ * @returns The saved response
+ */
+export async function insertDynamicResponse(values: NewDynamicResponse): Promise<DynamicResponse> {
+  const result = await query(
+    `WITH r AS (
+       INSERT INTO dynamic_responses (form_id, version, response_data, metadata, score, max_score)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *
+     )
+     SELECT ${SELECT_COLUMNS}
+       FROM r JOIN dynamic_form_versions v ON v.form_id = r.form_id AND v.version = r.version`,
+    [
+      values.formId,
+      values.version,
+      JSON.stringify(values.answers),
+      JSON.stringify(values.metadata),
+      values.score,
+      values.maxScore
+    ]
+  );
+  return toDynamicResponse(result.rows[0]);
+}
+
+/**
+ * Loads a response to a dynamic form
+ * @returns The response, or null when it does not exist
+ */
+export async function findDynamicResponse(id: number): Promise<DynamicResponse | null> {
+  const result = await query(`SELECT ${SELECT_COLUMNS} FROM ${FROM_RESPONSES} WHERE r.id = $1`, [id]);
+  return result.rows[0] ? toDynamicResponse(result.rows[0]) : null;
+}
+
+/**
+ * Loads one page of responses to dynamic forms, newest first unless sorted otherwise
+ */
+export async function listDynamicResponses({
+  formId,
+  limit,
+  offset,
+  filters,
+  sort
+}: DynamicResponseListOptions): Promise<DynamicResponse[]> {
+  const { clause, params } = responseFilter(formId, filters, 3);
+  const result = await query(
+    `SELECT ${SELECT_COLUMNS} FROM ${FROM_RESPONSES} ${clause} ${buildOrderBy(sort, sortColumns, 'r.id')} LIMIT $1 OFFSET $2`,
+    [limit, offset, ...params]
+  );
+  return result.rows.map(toDynamicResponse);
+}
+
+// Count the responses to dynamic forms that match the filters
+export async function countDynamicResponses({
+  formId,
+  filters
+}: Pick<DynamicResponseListOptions, 'formId' | 'filters'> = {}): Promise<number> {
+  const { clause, params } = responseFilter(formId, filters);
+  const result = await query(`SELECT COUNT(*)::int AS total FROM dynamic_responses r ${clause}`, params);
+  return result.rows[0].total;
+}
+
+/**
+ * Reads every response that matches the filters, oldest first, one batch at a time
+ */
+export function streamDynamicResponses({
+  formId,
+  filters
+}: Pick<DynamicResponseListOptions, 'formId' | 'filters'> = {}): AsyncGenerator<DynamicResponse> {
+  const { clause, params } = responseFilter(formId, filters, 3);
+
+  return readInBatches(async (afterId, limit) => {
+    const result = await query(
+      `SELECT ${SELECT_COLUMNS} FROM ${FROM_RESPONSES} ${andWhere(clause, 'r.id > $1')} ORDER BY r.id LIMIT $2`,
+      [afterId, limit, ...params]
+    );
+    return result.rows.map(toDynamicResponse);
+  });
+}
+
+/**
+ * Deletes a response to a dynamic form
+ * @returns Whether the response existed
+ */
+export async function deleteDynamicResponse(id: number): Promise<boolean> {
+  const result = await query('DELETE FROM dynamic_responses WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
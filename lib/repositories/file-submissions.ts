@@ -0,0 +1,161 @@
+import { query } from '@/lib/db';
+import type { FileUploadValues } from '@/lib/schemas/form-schemas';
+import {
+  andWhere,
+  buildFilterClause,
+  buildOrderBy,
+  buildSetClause,
+  readInBatches,
+  type ListOptions,
+  type SubmissionFilters
+} from './sql';
+
+// An uploaded file as it is stored: the file itself is saved elsewhere and referenced by path
+export interface NewFileSubmission extends Omit<FileUploadValues, 'file'> {
+  fileName: string;
+  filePath: string;
+  fileSize: number;
+  fileType: string;
+}
+
+export interface FileSubmission extends NewFileSubmission {
+  id: number;
+  createdAt: Date;
+}
+
+// Columns a list can be sorted by
+export type FileSubmissionSortColumn = 'createdAt' | 'name' | 'email' | 'fileName' | 'fileSize';
+
+// A row of file_submissions as the database returns it
+interface FileSubmissionRow {
+  id: number;
+  name: string;
+  email: string;
+  file_name: string;
+  file_path: string;
+  file_size: number;
+  file_type: string;
+  created_at: Date;
+}
+
+// Columns returned by every query
+const SELECT_COLUMNS = 'id, name, email, file_name, file_path, file_size, file_type, created_at';
+
+// Column of each editable value
+const editableColumns: Record<keyof NewFileSubmission, string> = {
+  name: 'name',
+  email: 'email',
+  fileName: 'file_name',
+  filePath: 'file_path',
+  fileSize: 'file_size',
+  fileType: 'file_type',
+};
+
+// Column of each sortable value
+const sortColumns: Record<FileSubmissionSortColumn, string> = {
+  createdAt: 'created_at',
+  name: 'name',
+  email: 'email',
+  fileName: 'file_name',
+  fileSize: 'file_size',
+};
+
+const toFileSubmission = (row: FileSubmissionRow): FileSubmission => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  fileName: row.file_name,
+  filePath: row.file_path,
+  fileSize: row.file_size,
+  fileType: row.file_type,
+  createdAt: row.created_at,
+});
+
+/**
+ * Saves a file upload submission
+ * @param values Submitter details and the saved file's name, public path, size and type
+ * @returns The saved submission
+ */
+export async function insertFileSubmission(values: NewFileSubmission): Promise<FileSubmission> {
+  const result = await query(
+    `INSERT INTO file_submissions (name, email, file_name, file_path, file_size, file_type)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING ${SELECT_COLUMNS}`,
+    [values.name, values.email, values.fileName, values.filePath, values.fileSize, values.fileType]
+  );
+  return toFileSubmission(result.rows[0]);
+}
+
+/**
+ * Loads a file upload submission
+ * @returns The submission, or null when it does not exist
+ */
+export async function findFileSubmission(id: number): Promise<FileSubmission | null> {
+  const result = await query(`SELECT ${SELECT_COLUMNS} FROM file_submissions WHERE id = $1`, [id]);
+  return result.rows[0] ? toFileSubmission(result.rows[0]) : null;
+}
+
+/**
+ * Loads one page of file upload submissions, newest first unless sorted otherwise
+ */
+export async function listFileSubmissions({
+  limit,
+  offset,
+  filters,
+  sort
+}: ListOptions<FileSubmissionSortColumn>): Promise<FileSubmission[]> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' }, 3);
+  const result = await query(
+    `SELECT ${SELECT_COLUMNS} FROM file_submissions ${where.clause} ${buildOrderBy(sort, sortColumns)} LIMIT $1 OFFSET $2`,
+    [limit, offset, ...where.params]
+  );
+  return result.rows.map(toFileSubmission);
+}
+
+// Count the file upload submissions that match the filters
+export async function countFileSubmissions(filters?: SubmissionFilters): Promise<number> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' });
+  const result = await query(`SELECT COUNT(*)::int AS total FROM file_submissions ${where.clause}`, where.params);
+  return result.rows[0].total;
+}
+
+/**
+ * Reads every file upload submission that matches the filters, oldest first, one batch at a time
+ */
+export function streamFileSubmissions(filters?: SubmissionFilters): AsyncGenerator<FileSubmission> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' }, 3);
+
+  return readInBatches(async (afterId, limit) => {
+    const result = await query(
+      `SELECT ${SELECT_COLUMNS} FROM file_submissions ${andWhere(where.clause, 'id > $1')} ORDER BY id LIMIT $2`,
+      [afterId, limit, ...where.params]
+    );
+    return result.rows.map(toFileSubmission);
+  });
+}
+
+/**
+ * Changes the given values of a file upload submission
+ * @returns The updated submission, or null when it does not exist
+ */
+export async function updateFileSubmission(
+  id: number,
+  values: Partial<NewFileSubmission>
+): Promise<FileSubmission | null> {
+  const set = buildSetClause(editableColumns, values, 2);
+  if (!set) return findFileSubmission(id);
+
+  const result = await query(
+    `UPDATE file_submissions SET ${set.clause} WHERE id = $1 RETURNING ${SELECT_COLUMNS}`,
+    [id, ...set.params]
+  );
+  return result.rows[0] ? toFileSubmission(result.rows[0]) : null;
+}
+
+/**
+ * Deletes a file upload submission. The saved file is left in place.
+ * @returns Whether the submission existed
+ */
+export async function deleteFileSubmission(id: number): Promise<boolean> {
+  const result = await query('DELETE FROM file_submissions WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
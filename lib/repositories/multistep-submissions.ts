@@ -0,0 +1,293 @@
+import { query, type QueryParam } from '@/lib/db';
+import type { MultiStepFormValues, MultiStepStepName } from '@/lib/schemas/form-schemas';
+import {
+  andWhere,
+  buildFilterClause,
+  buildOrderBy,
+  buildSetClause,
+  readInBatches,
+  type ListOptions,
+  type SubmissionFilters
+} from './sql';
+
+export interface MultiStepSubmission extends MultiStepFormValues {
+  id: number;
+  // Session the submission was finalized from, when it came from one
+  sessionId: string | null;
+  createdAt: Date;
+}
+
+// A multi-step session as stored; step data is validated when it is read
+export interface MultiStepSessionRecord {
+  id: string;
+  steps: Partial<Record<MultiStepStepName, unknown>>;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+// Columns a list can be sorted by
+export type MultiStepSubmissionSortColumn = 'createdAt' | 'lastName' | 'email' | 'city' | 'country';
+
+// A row of multistep_submissions as the database returns it
+interface MultiStepSubmissionRow {
+  id: number;
+  session_id: string | null;
+  first_name: string;
+  last_name: string;
+  email: string;
+  address_line1: string;
+  address_line2: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  phone: string | null;
+  preferences: MultiStepFormValues['preferences'];
+  created_at: Date;
+}
+
+// Columns returned by every submission query
+const SELECT_COLUMNS = `id, session_id, first_name, last_name, email,
+  address_line1, address_line2, city, state, postal_code, country,
+  phone, preferences, created_at`;
+
+// Column of each editable value
+const editableColumns: Record<keyof MultiStepFormValues, string> = {
+  firstName: 'first_name',
+  lastName: 'last_name',
+  email: 'email',
+  addressLine1: 'address_line1',
+  addressLine2: 'address_line2',
+  city: 'city',
+  state: 'state',
+  postalCode: 'postal_code',
+  country: 'country',
+  phone: 'phone',
+  preferences: 'preferences',
+};
+
+// Column of each sortable value
+const sortColumns: Record<MultiStepSubmissionSortColumn, string> = {
+  createdAt: 'created_at',
+  lastName: 'last_name',
+  email: 'email',
+  city: 'city',
+  country: 'country',
+};
+
+// Optional text is stored as NULL when left empty, and preferences as JSON
+function toParams(values: Partial<MultiStepFormValues>): Partial<Record<keyof MultiStepFormValues, QueryParam>> {
+  const { addressLine2, phone, preferences, ...rest } = values;
+
+  return {
+    ...rest,
+    ...(addressLine2 !== undefined && { addressLine2: addressLine2 || null }),
+    ...(phone !== undefined && { phone: phone || null }),
+    ...(preferences && { preferences: JSON.stringify(preferences) }),
+  };
+}
+
+const toMultiStepSubmission = (row: MultiStepSubmissionRow): MultiStepSubmission => ({
+  id: row.id,
+  sessionId: row.session_id,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  email: row.email,
+  addressLine1: row.address_line1,
+  addressLine2: row.address_line2 ?? undefined,
+  city: row.city,
+  state: row.state,
+  postalCode: row.postal_code,
+  country: row.country,
+  phone: row.phone ?? undefined,
+  preferences: row.preferences,
+  createdAt: row.created_at,
+});
+
+const submissionKeys = Object.keys(editableColumns) as (keyof MultiStepFormValues)[];
+
+// The INSERT for a submission; $1 holds the session id and the values follow in column order
+const INSERT_SUBMISSION = `INSERT INTO multistep_submissions (session_id, ${Object.values(editableColumns).join(', ')})
+  VALUES (${['session_id', ...submissionKeys].map((_, index) => `$${index + 1}`).join(', ')})`;
+
+function insertParams(sessionId: string | null, values: MultiStepFormValues): QueryParam[] {
+  const params = toParams(values);
+  return [
+    sessionId,
+    ...submissionKeys.map(key => params[key] ?? null),
+  ];
+}
+
+/**
+ * Saves a multi-step form submission
+ * @param values Validated values of every step
+ * @returns The saved submission
+ */
+export async function insertMultiStepSubmission(values: MultiStepFormValues): Promise<MultiStepSubmission> {
+  const result = await query(`${INSERT_SUBMISSION} RETURNING ${SELECT_COLUMNS}`, insertParams(null, values));
+  return toMultiStepSubmission(result.rows[0]);
+}
+
+/**
+ * Loads a multi-step form submission
+ * @returns The submission, or null when it does not exist
+ */
+export async function findMultiStepSubmission(id: number): Promise<MultiStepSubmission | null> {
+  const result = await query(`SELECT ${SELECT_COLUMNS} FROM multistep_submissions WHERE id = $1`, [id]);
+  return result.rows[0] ? toMultiStepSubmission(result.rows[0]) : null;
+}
+
+/**
+ * Loads one page of multi-step form submissions, newest first unless sorted otherwise
+ */
+export async function listMultiStepSubmissions({
+  limit,
+  offset,
+  filters,
+  sort
+}: ListOptions<MultiStepSubmissionSortColumn>): Promise<MultiStepSubmission[]> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' }, 3);
+  const result = await query(
+    `SELECT ${SELECT_COLUMNS} FROM multistep_submissions ${where.clause} ${buildOrderBy(sort, sortColumns)} LIMIT $1 OFFSET $2`,
+    [limit, offset, ...where.params]
+  );
+  return result.rows.map(toMultiStepSubmission);
+}
+
+// Count the multi-step form submissions that match the filters
+export async function countMultiStepSubmissions(filters?: SubmissionFilters): Promise<number> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' });
+  const result = await query(`SELECT COUNT(*)::int AS total FROM multistep_submissions ${where.clause}`, where.params);
+  return result.rows[0].total;
+}
+
+/**
+ * Reads every multi-step form submission that matches the filters, oldest first, one batch at a time
+ */
+export function streamMultiStepSubmissions(filters?: SubmissionFilters): AsyncGenerator<MultiStepSubmission> {
+  const where = buildFilterClause(filters, { email: 'email', createdAt: 'created_at' }, 3);
+
+  return readInBatches(async (afterId, limit) => {
+    const result = await query(
+      `SELECT ${SELECT_COLUMNS} FROM multistep_submissions ${andWhere(where.clause, 'id > $1')} ORDER BY id LIMIT $2`,
+      [afterId, limit, ...where.params]
+    );
+    return result.rows.map(toMultiStepSubmission);
+  });
+}
+
+/**
+ * Changes the given values of a multi-step form submission
+ * @returns The updated submission, or null when it does not exist
+ */
+export async function updateMultiStepSubmission(
+  id: number,
+  values: Partial<MultiStepFormValues>
+): Promise<MultiStepSubmission | null> {
+  const set = buildSetClause(editableColumns, toParams(values), 2);
+  if (!set) return findMultiStepSubmission(id);
+
+  const result = await query(
+    `UPDATE multistep_submissions SET ${set.clause} WHERE id = $1 RETURNING ${SELECT_COLUMNS}`,
+    [id, ...set.params]
+  );
+  return result.rows[0] ? toMultiStepSubmission(result.rows[0]) : null;
+}
+
+/**
+ * Deletes a multi-step form submission
+ * @returns Whether the submission existed
+ */
+export async function deleteMultiStepSubmission(id: number): Promise<boolean> {
+  const result = await query('DELETE FROM multistep_submissions WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+// A row of multistep_sessions as the database returns it
+interface MultiStepSessionRow {
+  id: string;
+  steps: Partial<Record<MultiStepStepName, unknown>> | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+const toMultiStepSessionRecord = (row: MultiStepSessionRow): MultiStepSessionRecord => ({
+  id: row.id,
+  steps: row.steps ?? {},
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at,
+});
+
+/**
+ * Starts an empty multi-step session
+ * @returns The new session
+ */
+export async function insertMultiStepSession(): Promise<MultiStepSessionRecord> {
+  const result = await query(
+    'INSERT INTO multistep_sessions DEFAULT VALUES RETURNING id, steps, created_at, updated_at, completed_at'
+  );
+  return toMultiStepSessionRecord(result.rows[0]);
+}
+
+/**
+ * Loads a multi-step session as stored
+ * @returns The session, or null when it does not exist
+ */
+export async function findMultiStepSession(id: string): Promise<MultiStepSessionRecord | null> {
+  const result = await query(
+    'SELECT id, steps, created_at, updated_at, completed_at FROM multistep_sessions WHERE id = $1',
+    [id]
+  );
+  return result.rows[0] ? toMultiStepSessionRecord(result.rows[0]) : null;
+}
+
+/**
+ * Saves the data of one step, replacing what was saved for it before.
+ * Finalized sessions are read-only.
+ * @returns Whether the step was saved; false when the session does not exist or is finalized
+ */
+export async function updateMultiStepSessionStep(id: string, step: MultiStepStepName, data: unknown): Promise<boolean> {
+  const result = await query(
+    `UPDATE multistep_sessions
+        SET steps = jsonb_set(steps, ARRAY[$2::text], $3::jsonb), updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND completed_at IS NULL`,
+    [id, step, JSON.stringify(data)]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Turns a session into a submission and closes it, in one statement.
+ * The unique session id stops a session being submitted twice.
+ * @param id Session id
+ * @param values Validated values of every step
+ * @returns The submission id, or null when the session was already finalized
+ */
+export async function finalizeMultiStepSession(id: string, values: MultiStepFormValues): Promise<number | null> {
+  const result = await query(
+    `WITH inserted AS (
+       ${INSERT_SUBMISSION}
+       ON CONFLICT (session_id) DO NOTHING
+       RETURNING id, session_id
+     )
+     UPDATE multistep_sessions
+        SET completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       FROM inserted
+      WHERE multistep_sessions.id = inserted.session_id
+     RETURNING inserted.id`,
+    insertParams(id, values)
+  );
+  return result.rows[0]?.id ?? null;
+}
+
+/**
+ * Deletes a multi-step session that has not been finalized
+ * @returns Whether an unfinalized session existed
+ */
+export async function deleteMultiStepSession(id: string): Promise<boolean> {
+  const result = await query('DELETE FROM multistep_sessions WHERE id = $1 AND completed_at IS NULL', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
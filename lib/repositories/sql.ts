@@ -0,0 +1,132 @@
+import type { QueryParam } from '@/lib/db';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Filters shared by the tables that store form submissions
+export interface SubmissionFilters {
+  // Part of the submitter's email address, matched case-insensitively
+  email?: string;
+  // First and last day of submission, as YYYY-MM-DD
+  from?: string;
+  to?: string;
+}
+
+// One page of rows, newest first unless a sort is given
+export interface ListOptions<S extends string = never> {
+  limit: number;
+  offset: number;
+  filters?: SubmissionFilters;
+  sort?: { column: S; direction: SortDirection };
+}
+
+/**
+ * Builds the WHERE clause for submission filters
+ * @param filters Filters to apply
+ * @param columns SQL expressions holding the email address and the submission time.
+ *   Tables without an email column give a function instead, which builds the
+ *   condition matching the ILIKE pattern it is passed.
+ * @param firstParam Number of the first query parameter the clause uses
+ * @returns The clause, empty when no filter is set, and its parameters
+ */
+export function buildFilterClause(
+  filters: SubmissionFilters | undefined,
+  columns: { email: string | ((pattern: string) => string); createdAt: string },
+  firstParam = 1
+): { clause: string; params: QueryParam[] } {
+  const conditions: string[] = [];
+  const params: QueryParam[] = [];
+  const param = (value: QueryParam) => {
+    params.push(value);
+    return `$${firstParam + params.length - 1}`;
+  };
+
+  if (filters?.email) {
+    // Wildcards typed in the filter match literally
+    const pattern = `'%' || ${param(filters.email.replace(/[\\%_]/g, '\\$&'))} || '%'`;
+    conditions.push(typeof columns.email === 'string' ? `${columns.email} ILIKE ${pattern}` : columns.email(pattern));
+  }
+  if (filters?.from) {
+    conditions.push(`${columns.createdAt} >= ${param(filters.from)}::date`);
+  }
+  if (filters?.to) {
+    // The whole last day is included
+    conditions.push(`${columns.createdAt} < ${param(filters.to)}::date + 1`);
+  }
+
+  return { clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/**
+ * Adds a condition to a WHERE clause built by buildFilterClause
+ * @param clause The clause, empty when there is none yet
+ * @param condition SQL condition that rows must also match
+ */
+export function andWhere(clause: string, condition: string): string {
+  return clause ? `${clause} AND ${condition}` : `WHERE ${condition}`;
+}
+
+/**
+ * Builds the ORDER BY clause for a list, newest first by default. The id
+ * breaks ties so pages never overlap.
+ * @param sort Column and direction to sort by
+ * @param columns SQL expression of each sortable column
+ * @param id SQL expression of the row id
+ */
+export function buildOrderBy<S extends string>(
+  sort: ListOptions<S>['sort'],
+  columns: Record<S, string> & { createdAt: string },
+  id = 'id'
+): string {
+  const column = columns[sort?.column ?? 'createdAt'];
+  const direction = sort?.direction === 'asc' ? 'ASC' : 'DESC';
+  return `ORDER BY ${column} ${direction} NULLS LAST, ${id} ${direction}`;
+}
+
+/**
+ * Builds the SET clause of an UPDATE from the values that are present
+ * @param columns Column of each value
+ * @param values Values to set; undefined values are left unchanged
+ * @param firstParam Number of the first query parameter the clause uses
+ * @returns The assignments and their parameters, or null when there is nothing to set
+ */
+export function buildSetClause<K extends string>(
+  columns: Record<K, string>,
+  values: Partial<Record<K, QueryParam | undefined>>,
+  firstParam = 1
+): { clause: string; params: QueryParam[] } | null {
+  const assignments: string[] = [];
+  const params: QueryParam[] = [];
+
+  for (const key of Object.keys(columns) as K[]) {
+    const value = values[key];
+    if (value === undefined) continue;
+
+    params.push(value);
+    assignments.push(`${columns[key]} = $${firstParam + params.length - 1}`);
+  }
+
+  return assignments.length > 0 ? { clause: assignments.join(', '), params } : null;
+}
+
+/**
+ * Reads every row of a query in batches of ascending id, so whole tables can be
+ * exported without holding them in memory. Each batch starts after the last id
+ * of the one before, which stays fast deep into a table and never repeats rows
+ * when new ones are added during the read.
+ * @param fetchBatch Loads up to `limit` rows with an id greater than `afterId`, in ascending id order
+ * @param batchSize Rows loaded per query
+ */
+export async function* readInBatches<T extends { id: number }>(
+  fetchBatch: (afterId: number, limit: number) => Promise<T[]>,
+  batchSize = 500
+): AsyncGenerator<T> {
+  let afterId = 0;
+
+  while (true) {
+    const rows = await fetchBatch(afterId, batchSize);
+    yield* rows;
+
+    if (rows.length < batchSize) return;
+    afterId = rows[rows.length - 1].id;
+  }
+}
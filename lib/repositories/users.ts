@@ -0,0 +1,118 @@
+import { query } from '@/lib/db';
+import { buildSetClause, type ListOptions } from './sql';
+
+export interface NewUser {
+  name: string;
+  email: string;
+  // Hash of the password; plain passwords are never stored
+  passwordHash: string;
+}
+
+// A user without their password hash, safe to return from routes
+export interface User extends Omit<NewUser, 'passwordHash'> {
+  id: number;
+  createdAt: Date;
+}
+
+export interface UserWithPassword extends User {
+  passwordHash: string;
+}
+
+// A row of users as the database returns it
+interface UserRow {
+  id: number;
+  name: string;
+  email: string;
+  password?: string;
+  created_at: Date;
+}
+
+// Columns returned by every query; the password only when it is asked for
+const SELECT_COLUMNS = 'id, name, email, created_at';
+
+// Column of each editable value
+const editableColumns: Record<keyof NewUser, string> = {
+  name: 'name',
+  email: 'email',
+  passwordHash: 'password',
+};
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  createdAt: row.created_at,
+});
+
+/**
+ * Creates a user
+ * @returns The new user
+ */
+export async function insertUser(values: NewUser): Promise<User> {
+  const result = await query(
+    `INSERT INTO users (name, email, password) VALUES ($1, $2, $3) RETURNING ${SELECT_COLUMNS}`,
+    [values.name, values.email, values.passwordHash]
+  );
+  return toUser(result.rows[0]);
+}
+
+/**
+ * Loads a user
+ * @returns The user, or null when they do not exist
+ */
+export async function findUser(id: number): Promise<User | null> {
+  const result = await query(`SELECT ${SELECT_COLUMNS} FROM users WHERE id = $1`, [id]);
+  return result.rows[0] ? toUser(result.rows[0]) : null;
+}
+
+/**
+ * Loads a user by email along with their password hash, for signing in
+ * @returns The user, or null when no user has the email
+ */
+export async function findUserByEmail(email: string): Promise<UserWithPassword | null> {
+  const result = await query(`SELECT ${SELECT_COLUMNS}, password FROM users WHERE email = $1`, [email]);
+  const row: UserRow | undefined = result.rows[0];
+
+  return row ? { ...toUser(row), passwordHash: row.password ?? '' } : null;
+}
+
+/**
+ * Loads one page of users, newest first
+ */
+export async function listUsers({ limit, offset }: ListOptions): Promise<User[]> {
+  const result = await query(
+    `SELECT ${SELECT_COLUMNS} FROM users ORDER BY created_at DESC, id DESC LIMIT $1 OFFSET $2`,
+    [limit, offset]
+  );
+  return result.rows.map(toUser);
+}
+
+// Count every user
+export async function countUsers(): Promise<number> {
+  const result = await query('SELECT COUNT(*)::int AS total FROM users');
+  return result.rows[0].total;
+}
+
+/**
+ * Changes the given values of a user
+ * @returns The updated user, or null when they do not exist
+ */
+export async function updateUser(id: number, values: Partial<NewUser>): Promise<User | null> {
+  const set = buildSetClause(editableColumns, values, 2);
+  if (!set) return findUser(id);
+
+  const result = await query(
+    `UPDATE users SET ${set.clause} WHERE id = $1 RETURNING ${SELECT_COLUMNS}`,
+    [id, ...set.params]
+  );
+  return result.rows[0] ? toUser(result.rows[0]) : null;
+}
+
+/**
+ * Deletes a user
+ * @returns Whether the user existed
+ */
+export async function deleteUser(id: number): Promise<boolean> {
+  const result = await query('DELETE FROM users WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
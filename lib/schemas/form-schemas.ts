@@ -38,27 +38,242 @@ export const multiStepFormSchema = personalInfoSchema
   .merge(addressInfoSchema)
   .merge(additionalInfoSchema);
 
+// Steps of the multi-step form in order, each saved to a session on its own
+export const multiStepStepSchemas = {
+  personalInfo: personalInfoSchema,
+  addressInfo: addressInfoSchema,
+  additionalInfo: additionalInfoSchema,
+};
+
+// Request saving one step of a multi-step session; data is validated with the step's schema
+export const multiStepSessionStepSchema = z.object({
+  step: z.enum(['personalInfo', 'addressInfo', 'additionalInfo']),
+  data: z.unknown(),
+});
+
 // Dynamic form schema
-export const dynamicFieldSchema = z.object({
+export const visibilityConditionSchema = z.object({
+  fieldId: z.string(),
+  operator: z.enum(['equals', 'notEquals', 'contains', 'greaterThan']),
+  value: z.string(),
+});
+
+// Conditions that must hold for a dynamic field to be shown
+export const visibilityRuleSchema = z.object({
+  combinator: z.enum(['and', 'or']).default('and'),
+  conditions: z.array(visibilityConditionSchema),
+});
+
+// Optional limits a dynamic field's answer must respect
+export const fieldConstraintsSchema = z.object({
+  minLength: z.number().int().nonnegative().optional(),
+  maxLength: z.number().int().nonnegative().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  step: z.number().positive().optional(),
+  pattern: z.string().optional(),
+  patternMessage: z.string().optional(),
+  minSelected: z.number().int().nonnegative().optional(),
+  maxSelected: z.number().int().nonnegative().optional(),
+  minRepeats: z.number().int().nonnegative().optional(),
+  maxRepeats: z.number().int().positive().optional(),
+});
+
+// A named page of a dynamic form
+export const dynamicSectionSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1, 'Section title is required'),
+  description: z.string().optional(),
+});
+
+// Choices offered by option fields; values are what responses store
+const dynamicOptionsSchema = z.array(z.object({
+  label: z.string(),
+  value: z.string(),
+  // Quiz scoring: points awarded for choosing the option, or whether it is a correct answer
+  points: z.number().optional(),
+  correct: z.boolean().optional(),
+})).refine(
+  options => new Set(options.map(option => option.value)).size === options.length,
+  'Option values must be unique'
+);
+
+// A named list of options shared by the fields that reference it
+export const dynamicOptionSetSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Name is required'),
+  options: dynamicOptionsSchema,
+});
+
+// Options that depend on the answer to another field, keyed by that answer
+export const dynamicDependentOptionsSchema = z.object({
+  parentFieldId: z.string(),
+  optionsByValue: z.record(z.string(), dynamicOptionsSchema),
+});
+
+const dynamicFieldTypeSchema = z.enum([
+  'text',
+  'email',
+  'number',
+  'checkbox',
+  'radio',
+  'select',
+  'textarea',
+  'date',
+  'time',
+  'datetime',
+  'url',
+  'phone',
+  'range',
+  'rating',
+  'multiselect',
+  'group',
+  'calculated',
+  'hidden',
+]);
+
+// Name of a query parameter a dynamic field can be prefilled from
+export const prefillParamSchema = z.string()
+  .min(1, 'Parameter name is required')
+  .max(100, 'Parameter name must be at most 100 characters')
+  .regex(/^[A-Za-z0-9_.-]+$/, 'Use only letters, numbers, dots, dashes and underscores');
+
+const baseDynamicFieldSchema = z.object({
   id: z.string(),
   label: z.string(),
-  type: z.enum(['text', 'email', 'number', 'checkbox', 'radio', 'select']),
+  type: dynamicFieldTypeSchema,
   required: z.boolean().default(false),
-  options: z.array(z.object({
-    label: z.string(),
-    value: z.string(),
-  })).optional(),
+  options: dynamicOptionsSchema.optional(),
+  // Option set whose options replace the field's own
+  optionSetId: z.string().optional(),
+  // Options chosen by the answer to another select or radio field in the same list
+  dependentOptions: dynamicDependentOptionsSchema.optional(),
   value: z.union([
     z.string(),
     z.number(),
     z.boolean(),
     z.null()
   ]).optional(),
+  visibleWhen: visibilityRuleSchema.optional(),
+  validation: fieldConstraintsSchema.optional(),
+  // Section the field is shown in; fields without one belong to the first section
+  sectionId: z.string().optional(),
+  // Shown next to a quiz question's result after submitting
+  explanation: z.string().optional(),
+  // Expression a calculated field's value is worked out from, see lib/dynamic-forms/formula.ts
+  formula: z.string().optional(),
+  // Query parameter of the form's URL whose value prefills the answer, for top-level fields
+  prefillParam: prefillParamSchema.optional(),
+});
+
+// A field inside a repeatable group; groups cannot be nested, and calculated and hidden fields are top-level only
+export const dynamicGroupChildSchema = baseDynamicFieldSchema.extend({
+  type: dynamicFieldTypeSchema.exclude(['group', 'calculated', 'hidden']),
+});
+
+export const dynamicFieldSchema = baseDynamicFieldSchema.extend({
+  // Fields repeated in each entry of a group
+  fields: z.array(dynamicGroupChildSchema).optional(),
+});
+
+// Scoring settings of a dynamic form run as a quiz
+export const dynamicQuizSchema = z.object({
+  // Show respondents their score and per-question feedback after submitting
+  showResults: z.boolean().default(false),
 });
 
 export const dynamicFormSchema = z.object({
   formName: z.string(),
   fields: z.array(dynamicFieldSchema),
+  // When present, the form is shown one section per page
+  sections: z.array(dynamicSectionSchema).optional(),
+  optionSets: z.array(dynamicOptionSetSchema).optional(),
+  // When present, option answers are scored on submission
+  quiz: dynamicQuizSchema.optional(),
+}).superRefine((form, ctx) => {
+  // Fields can only reference option sets defined by the form
+  const optionSetIds = new Set((form.optionSets || []).map(optionSet => optionSet.id));
+
+  form.fields.forEach((field, index) => {
+    [field, ...(field.fields || [])].forEach(target => {
+      if (target.optionSetId && !optionSetIds.has(target.optionSetId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Field "${target.label}" uses an option set that does not exist`,
+          path: ['fields', index],
+        });
+      }
+    });
+  });
+});
+
+// Pagination for listing dynamic forms, read from the query string
+export const dynamicFormListQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Listing, sorting and filtering of stored submissions, read from the query string.
+// Empty parameters, as an unfilled filter form sends them, count as unset.
+const optionalQueryParam = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === '' ? undefined : value), schema.optional());
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use a date in the format YYYY-MM-DD');
+
+export const submissionListQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  // Checked against the columns of the listed table
+  sort: optionalQueryParam(z.string().max(50)),
+  direction: z.enum(['asc', 'desc']).default('desc'),
+  email: optionalQueryParam(z.string().trim().max(255)),
+  from: optionalQueryParam(isoDateSchema),
+  to: optionalQueryParam(isoDateSchema),
+}).refine(({ from, to }) => !from || !to || from <= to, {
+  message: 'The end date must not be before the start date',
+  path: ['to'],
+});
+
+// Download of stored submissions, read from the query string
+export const submissionExportQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson', 'xlsx']).default('csv'),
+  email: optionalQueryParam(z.string().trim().max(255)),
+  from: optionalQueryParam(isoDateSchema),
+  to: optionalQueryParam(isoDateSchema),
+  // Comma-separated column keys in the order to export them; every column when unset
+  fields: optionalQueryParam(
+    z.string()
+      .max(5000)
+      .transform(value => [...new Set(value.split(',').map(field => field.trim()).filter(Boolean))])
+      .pipe(z.array(z.string()).min(1, 'Select at least one field'))
+  ),
+  // Form whose responses are exported, required for dynamic forms
+  formId: optionalQueryParam(z.coerce.number().int().positive()),
+}).refine(({ from, to }) => !from || !to || from <= to, {
+  message: 'The end date must not be before the start date',
+  path: ['to'],
+});
+
+// Request to roll a dynamic form back to a previously published version
+export const dynamicFormRollbackSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+// Where a response came from, captured from the form's URL and the page that linked to it
+export const dynamicResponseMetadataSchema = z.object({
+  utm_source: z.string().max(200).optional(),
+  utm_medium: z.string().max(200).optional(),
+  utm_campaign: z.string().max(200).optional(),
+  utm_term: z.string().max(200).optional(),
+  utm_content: z.string().max(200).optional(),
+  referrer: z.string().url().max(2000).optional(),
+});
+
+// A response submitted from the public form page
+export const dynamicResponseSubmissionSchema = z.object({
+  // Validated separately with the schema compiled from the form definition
+  answers: z.unknown(),
+  metadata: dynamicResponseMetadataSchema.default({}),
 });
 
 // File upload form schema
@@ -78,6 +293,27 @@ export type PersonalInfoValues = z.infer<typeof personalInfoSchema>;
 export type AddressInfoValues = z.infer<typeof addressInfoSchema>;
 export type AdditionalInfoValues = z.infer<typeof additionalInfoSchema>;
 export type MultiStepFormValues = z.infer<typeof multiStepFormSchema>;
+export type MultiStepStepName = keyof typeof multiStepStepSchemas;
+export type MultiStepSessionStepValues = z.infer<typeof multiStepSessionStepSchema>;
+export type VisibilityCondition = z.infer<typeof visibilityConditionSchema>;
+export type VisibilityRule = z.infer<typeof visibilityRuleSchema>;
+export type FieldConstraints = z.infer<typeof fieldConstraintsSchema>;
+export type DynamicSectionValues = z.infer<typeof dynamicSectionSchema>;
+export type DynamicOptionSetValues = z.infer<typeof dynamicOptionSetSchema>;
+export type DynamicDependentOptionsValues = z.infer<typeof dynamicDependentOptionsSchema>;
+export type DynamicQuizValues = z.infer<typeof dynamicQuizSchema>;
 export type DynamicFieldValues = z.infer<typeof dynamicFieldSchema>;
+export type DynamicGroupChildValues = z.infer<typeof dynamicGroupChildSchema>;
 export type DynamicFormValues = z.infer<typeof dynamicFormSchema>;
+export type DynamicFormListQueryValues = z.infer<typeof dynamicFormListQuerySchema>;
+export type SubmissionListQueryValues = z.infer<typeof submissionListQuerySchema>;
+export type SubmissionExportQueryValues = z.infer<typeof submissionExportQuerySchema>;
+export type DynamicFormRollbackValues = z.infer<typeof dynamicFormRollbackSchema>;
+// Responses to a dynamic form, keyed by field id; they are validated with the
+// schema compiled from the form's definition, see lib/dynamic-forms/compile-schema.ts
+export type DynamicAnswerValues = string | number | boolean | string[] | null;
+// Repeatable groups answer with one set of answers per entry
+export type DynamicResponseValues = Record<string, DynamicAnswerValues | Record<string, DynamicAnswerValues>[]>;
+export type DynamicResponseMetadataValues = z.infer<typeof dynamicResponseMetadataSchema>;
+export type DynamicResponseSubmissionValues = z.infer<typeof dynamicResponseSubmissionSchema>;
 export type FileUploadValues = z.infer<typeof fileUploadSchema>;
\ No newline at end of file
@@ -15,6 +15,14 @@ export function formatDate(date: Date): string {
   }).format(date);
 }
 
+// Format a date and time to string
+export function formatDateTime(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(date);
+}
+
 //Safely parse JSON from string
 export function safeJsonParse<T>(json: string, fallback: T): T {
   try {
@@ -49,4 +57,12 @@ export function generateId(): string {
 export function truncateString(str: string, length: number): string {
   if (str.length <= length) return str;
   return str.slice(0, length) + '...';
+}
+
+// Return a copy of an array with one item moved to a new index
+export function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+  const result = [...items];
+  const [item] = result.splice(fromIndex, 1);
+  result.splice(toIndex, 0, item);
+  return result;
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+/**
+ * Compares two byte strings in time that does not depend on where they differ.
+ * Both are hashed first, so the comparison also does not depend on their lengths.
+ */
+async function timingSafeEqual(a: Uint8Array, b: Uint8Array): Promise<boolean> {
+  const [digestA, digestB] = await Promise.all([
+    crypto.subtle.digest('SHA-256', a),
+    crypto.subtle.digest('SHA-256', b),
+  ]);
+  const bytesA = new Uint8Array(digestA);
+  const bytesB = new Uint8Array(digestB);
+
+  let difference = 0;
+  for (let index = 0; index < bytesA.length; index++) {
+    difference |= bytesA[index] ^ bytesB[index];
+  }
+  return difference === 0;
+}
+
+/**
+ * Guards the admin pages and APIs, and the dynamic form builder with its
+ * drafts, with HTTP basic authentication, using the ADMIN_USERNAME and
+ * ADMIN_PASSWORD environment variables. The guarded area is closed when they
+ * are not set. Published forms and their responses endpoint stay public.
+ */
+export async function middleware(request: NextRequest) {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!username || !password) {
+    return new NextResponse('The admin area is not configured', { status: 503 });
+  }
+
+  const [scheme, encoded] = (request.headers.get('authorization') || '').split(' ');
+  if (scheme === 'Basic' && encoded) {
+    try {
+      // Credentials are sent as UTF-8, as the challenge below asks
+      const credentials = Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+      const expected = new TextEncoder().encode(`${username}:${password}`);
+      if (await timingSafeEqual(credentials, expected)) {
+        return NextResponse.next();
+      }
+    } catch {
+      // Malformed credentials are rejected below
+    }
+  }
+
+  return new NextResponse('Authentication required', {
+    status: 401,
+    headers: { 'WWW-Authenticate': 'Basic realm="Admin", charset="UTF-8"' },
+  });
+}
+
+export const config = {
+  matcher: [
+    '/admin/:path*',
+    '/api/admin/:path*',
+    // The builder page and the draft it edits, which hold quiz answers
+    '/forms/dynamic',
+    '/api/forms/dynamic/:id',
+    // Listing, creating, publishing and rolling back forms; responses stay public
+    '/api/forms/dynamic',
+    '/api/forms/dynamic/:id/:action(publish|rollback|duplicate|versions)',
+  ],
+};
@@ -0,0 +1,8 @@
+-- The baseline may have been adopted from a database created with schema.sql,
+-- so rolling it back would delete data that predates the migrations.
+-- Drop these tables by hand if that is really wanted.
+DO $$
+BEGIN
+  RAISE EXCEPTION 'The initial schema cannot be rolled back';
+END
+$$;
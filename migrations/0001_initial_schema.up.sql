@@ -1,3 +1,6 @@
+-- Baseline schema, matching the schema.sql this migration replaces.
+-- Statements are idempotent so databases created from schema.sql can adopt it.
+
 -- Users table for authentication
 CREATE TABLE IF NOT EXISTS users (
   id SERIAL PRIMARY KEY,
@@ -54,4 +57,4 @@ CREATE TABLE IF NOT EXISTS file_submissions (
   file_size INTEGER NOT NULL,
   file_type VARCHAR(255) NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-);
\ No newline at end of file
+);
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS dynamic_form_versions;
+ALTER TABLE dynamic_submissions DROP COLUMN IF EXISTS updated_at;
+ALTER TABLE dynamic_submissions DROP COLUMN IF EXISTS published_version;
@@ -0,0 +1,14 @@
+-- Draft and published versions of dynamic forms
+-- Each row of dynamic_submissions is a form; form_data holds its editable draft
+ALTER TABLE dynamic_submissions ADD COLUMN IF NOT EXISTS published_version INTEGER;
+ALTER TABLE dynamic_submissions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+-- Immutable published versions of dynamic forms
+CREATE TABLE IF NOT EXISTS dynamic_form_versions (
+  id SERIAL PRIMARY KEY,
+  form_id INTEGER NOT NULL REFERENCES dynamic_submissions(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  form_data JSONB NOT NULL,
+  published_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (form_id, version)
+);
@@ -0,0 +1,10 @@
+-- Responses collected from published dynamic forms
+-- Each response records the published version it was collected against
+CREATE TABLE IF NOT EXISTS dynamic_responses (
+  id SERIAL PRIMARY KEY,
+  form_id INTEGER NOT NULL REFERENCES dynamic_submissions(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  response_data JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (form_id, version) REFERENCES dynamic_form_versions(form_id, version)
+);
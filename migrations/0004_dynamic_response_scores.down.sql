@@ -0,0 +1,2 @@
+ALTER TABLE dynamic_responses DROP COLUMN IF EXISTS max_score;
+ALTER TABLE dynamic_responses DROP COLUMN IF EXISTS score;
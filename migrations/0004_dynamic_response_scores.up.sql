@@ -0,0 +1,3 @@
+-- Scores of responses to quizzes, computed on submission
+ALTER TABLE dynamic_responses ADD COLUMN IF NOT EXISTS score NUMERIC;
+ALTER TABLE dynamic_responses ADD COLUMN IF NOT EXISTS max_score NUMERIC;
@@ -0,0 +1 @@
+ALTER TABLE dynamic_responses DROP COLUMN IF EXISTS metadata;
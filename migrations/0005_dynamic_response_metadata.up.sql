@@ -0,0 +1,2 @@
+-- Where each response came from: UTM parameters and the referring page
+ALTER TABLE dynamic_responses ADD COLUMN IF NOT EXISTS metadata JSONB;
@@ -0,0 +1,2 @@
+ALTER TABLE multistep_submissions DROP COLUMN IF EXISTS session_id;
+DROP TABLE IF EXISTS multistep_sessions;
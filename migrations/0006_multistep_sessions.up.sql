@@ -0,0 +1,13 @@
+-- Multi-step form sessions, saved a step at a time until they are finalized
+-- Random ids keep other respondents from guessing a session
+CREATE TABLE IF NOT EXISTS multistep_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Validated data of each saved step, keyed by step name
+  steps JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Session a submission was finalized from; each session is finalized at most once
+ALTER TABLE multistep_submissions ADD COLUMN IF NOT EXISTS session_id UUID UNIQUE REFERENCES multistep_sessions(id);
@@ -0,0 +1,234 @@
+const fs = require('fs');
+const path = require('path');
+const { Client } = require('pg');
+const { loadEnvConfig } = require('@next/env');
+
+/**
+ * Versioned SQL migrations
+ *
+ * Migrations live in migrations/ as pairs of files named
+ * <version>_<name>.up.sql and <version>_<name>.down.sql. Applied versions are
+ * recorded in the schema_migrations table.
+ *
+ * Usage:
+ *   node scripts/migrate.js up              Apply every pending migration
+ *   node scripts/migrate.js down [count]    Roll back the latest migrations (default 1)
+ *   node scripts/migrate.js status          List migrations and whether they are applied
+ *   node scripts/migrate.js create <name>   Add an empty migration pair
+ */
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Any constant key works; it only has to be the same for every run
+const LOCK_KEY = 72616734;
+
+/**
+ * Reads the migration files, pairing each up file with its down file
+ * @returns Migrations sorted by version
+ */
+function readMigrations() {
+  if (!fs.existsSync(MIGRATIONS_DIR)) return [];
+
+  const migrations = new Map();
+
+  for (const file of fs.readdirSync(MIGRATIONS_DIR)) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    const [, version, name, direction] = match;
+    const key = Number(version);
+    const migration = migrations.get(key) || { version: key, name };
+
+    if (migration.name !== name) {
+      throw new Error(`Migration ${version} has files with different names: ${migration.name} and ${name}`);
+    }
+
+    migration[direction] = path.join(MIGRATIONS_DIR, file);
+    migrations.set(key, migration);
+  }
+
+  for (const migration of migrations.values()) {
+    if (!migration.up || !migration.down) {
+      throw new Error(`Migration ${migration.version}_${migration.name} needs both an up and a down file`);
+    }
+  }
+
+  return [...migrations.values()].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Connects to the database named by DATABASE_URL, loading it from the
+ * .env files Next.js uses when it is not already set
+ */
+async function connect() {
+  loadEnvConfig(path.join(__dirname, '..'));
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL environment variable is not set');
+  }
+
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+
+  // Keep two runs from applying the same migration at once
+  await client.query('SELECT pg_advisory_lock($1)', [LOCK_KEY]);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  return client;
+}
+
+/**
+ * Loads the applied migrations
+ * @returns Applied migrations keyed by version
+ */
+async function getApplied(client) {
+  const result = await client.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(result.rows.map(row => [row.version, row]));
+}
+
+/**
+ * Runs a migration file and records the change in one transaction, so a
+ * failing migration leaves neither its changes nor its record behind
+ */
+async function runMigration(client, migration, direction) {
+  // Files run whole, so they can hold functions and semicolons in strings
+  const sql = fs.readFileSync(migration[direction], 'utf8');
+
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+
+    if (direction === 'up') {
+      await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new Error(`Migration ${migration.version}_${migration.name} (${direction}) failed: ${error.message}`);
+  }
+}
+
+// Apply every migration that has not been applied yet, in version order
+async function up(client) {
+  const applied = await getApplied(client);
+  const pending = readMigrations().filter(migration => !applied.has(migration.version));
+
+  if (pending.length === 0) {
+    console.log('Database is up to date');
+    return;
+  }
+
+  for (const migration of pending) {
+    await runMigration(client, migration, 'up');
+    console.log(`Applied ${migration.version}_${migration.name}`);
+  }
+}
+
+// Roll back the latest applied migrations, newest first
+async function down(client, count) {
+  const migrations = new Map(readMigrations().map(migration => [migration.version, migration]));
+  const applied = [...(await getApplied(client)).keys()].reverse().slice(0, count);
+
+  if (applied.length === 0) {
+    console.log('No migrations to roll back');
+    return;
+  }
+
+  for (const version of applied) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new Error(`Migration ${version} is applied but its files are missing`);
+    }
+
+    await runMigration(client, migration, 'down');
+    console.log(`Rolled back ${migration.version}_${migration.name}`);
+  }
+}
+
+// List every migration with the time it was applied
+async function status(client) {
+  const applied = await getApplied(client);
+  const migrations = readMigrations();
+  const known = new Set(migrations.map(migration => migration.version));
+
+  for (const migration of migrations) {
+    const row = applied.get(migration.version);
+    const state = row ? `applied ${new Date(row.applied_at).toISOString()}` : 'pending';
+    console.log(`${migration.version}_${migration.name}  ${state}`);
+  }
+
+  for (const row of applied.values()) {
+    if (!known.has(row.version)) {
+      console.log(`${row.version}_${row.name}  applied, files missing`);
+    }
+  }
+
+  if (migrations.length === 0 && applied.size === 0) {
+    console.log('No migrations found');
+  }
+}
+
+// Add an empty up and down file numbered after the latest migration
+function create(name) {
+  const slug = (name || '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+  if (!slug) {
+    throw new Error('Usage: node scripts/migrate.js create <name>');
+  }
+
+  const migrations = readMigrations();
+  const version = (migrations.length > 0 ? migrations[migrations.length - 1].version : 0) + 1;
+  const prefix = `${String(version).padStart(4, '0')}_${slug}`;
+
+  fs.mkdirSync(MIGRATIONS_DIR, { recursive: true });
+  fs.writeFileSync(path.join(MIGRATIONS_DIR, `${prefix}.up.sql`), '');
+  fs.writeFileSync(path.join(MIGRATIONS_DIR, `${prefix}.down.sql`), '');
+
+  console.log(`Created migrations/${prefix}.up.sql and migrations/${prefix}.down.sql`);
+}
+
+async function main() {
+  const [command = 'up', argument] = process.argv.slice(2);
+
+  if (command === 'create') {
+    create(argument);
+    return;
+  }
+
+  if (!['up', 'down', 'status'].includes(command)) {
+    throw new Error(`Unknown command "${command}". Use up, down, status or create.`);
+  }
+
+  const count = argument === undefined ? 1 : Number(argument);
+  if (command === 'down' && (!Number.isInteger(count) || count < 1)) {
+    throw new Error('The number of migrations to roll back must be a positive integer');
+  }
+
+  // Check the files before touching the database
+  readMigrations();
+
+  const client = await connect();
+  try {
+    if (command === 'up') await up(client);
+    else if (command === 'down') await down(client, count);
+    else await status(client);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});